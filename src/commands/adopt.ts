@@ -0,0 +1,307 @@
+/**
+ * adopt command - Generate project.yaml for a repository not made with dx create
+ */
+
+import { Command } from "commander";
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import { existsSync } from "fs";
+import { join, resolve } from "path";
+import { stringify } from "yaml";
+import {
+  formatIssue,
+  writeProjectConfig,
+  type ProjectConfig,
+} from "../lib/project-yaml.js";
+import {
+  PROJECT_SCHEMA,
+  validateAgainstSchema,
+} from "../lib/project-schema.js";
+import {
+  detectProject,
+  toProjectConfig,
+  type DetectedProject,
+} from "../lib/project-detect.js";
+import { registerProject } from "../lib/registry.js";
+import { PACKAGE_MANAGERS, type StateManager } from "../lib/shadcn-config.js";
+import * as ui from "../ui/theme.js";
+
+export const adoptCommand = new Command("adopt")
+  .description("Create project.yaml for an existing repository")
+  .argument("[path]", "Project directory (default: current directory)")
+  .option("-y, --yes", "Save what was detected without reviewing")
+  .option("--dry-run", "Print the generated project.yaml without saving")
+  .option("-f, --force", "Replace an existing project.yaml")
+  .action(
+    async (
+      pathArg: string | undefined,
+      options: { yes?: boolean; dryRun?: boolean; force?: boolean },
+    ) => {
+      const projectPath = resolve(pathArg ?? process.cwd());
+      const yamlPath = join(projectPath, "project.yaml");
+
+      console.log();
+
+      if (!existsSync(join(projectPath, "package.json"))) {
+        ui.error(`No package.json in ${projectPath}`);
+        process.exitCode = 1;
+        return;
+      }
+      if (existsSync(yamlPath) && !options.force && !options.dryRun) {
+        ui.error("This project already has a project.yaml");
+        console.log(
+          chalk.gray("  Use --force to regenerate it, or 'dx info' to view it"),
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const detected = detectProject(projectPath);
+
+      if (options.dryRun) {
+        printWarnings(detected);
+        console.log(stringify(toProjectConfig(detected), { lineWidth: 100 }));
+        return;
+      }
+
+      p.intro(chalk.bgCyan(chalk.black(" DevKitX - Adopt Project ")));
+
+      if (!options.yes && !(await review(detected))) {
+        p.cancel("Nothing saved");
+        return;
+      }
+
+      const config = toProjectConfig(detected);
+      const issues = validateAgainstSchema(config, PROJECT_SCHEMA);
+      if (issues.length > 0) {
+        ui.error("Not saved: the generated project.yaml is invalid");
+        for (const issue of issues) {
+          console.log(`  ${chalk.red("✗")} ${formatIssue(yamlPath, issue)}`);
+        }
+        process.exitCode = 1;
+        return;
+      }
+
+      await writeProjectConfig(config, yamlPath);
+      registerProject(projectPath, "register");
+
+      ui.success(`Created project.yaml for ${config.project.name}`);
+      console.log();
+      console.log(chalk.white("  Next steps:"));
+      console.log(chalk.cyan("    dx info") + chalk.gray("        Review it"));
+      console.log(
+        chalk.cyan("    dx features") + chalk.gray("    Record the roadmap"),
+      );
+      console.log(
+        chalk.cyan("    dx notes sync") +
+          chalk.gray("  Create AGENT-EDITABLE.md"),
+      );
+      p.outro(chalk.green("Project adopted!"));
+    },
+  );
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+function printSummary(detected: DetectedProject) {
+  console.log();
+  console.log(chalk.white("  Detected Configuration:"));
+  console.log(chalk.gray("  ─────────────────────────────"));
+  console.log(`  ${chalk.gray("Name:")}        ${chalk.cyan(detected.name)}`);
+  console.log(
+    `  ${chalk.gray("Description:")} ${chalk.cyan(detected.description || "-")}`,
+  );
+  console.log(
+    `  ${chalk.gray("Package Mgr:")} ${chalk.cyan(detected.packageManager)}`,
+  );
+  console.log(
+    `  ${chalk.gray("Monorepo:")}    ${chalk.cyan(detected.monorepo ?? "no")}`,
+  );
+  for (const [key, app] of Object.entries(detected.apps)) {
+    const port = app.port ? chalk.gray(` :${app.port}`) : "";
+    console.log(
+      `  ${chalk.gray("App:")}         ${chalk.cyan(key)} ${app.framework} ${chalk.gray(app.path)}${port}`,
+    );
+  }
+  for (const pkg of detected.packages) {
+    console.log(
+      `  ${chalk.gray("Package:")}     ${chalk.cyan(pkg.name)} ${chalk.gray(pkg.path)}`,
+    );
+  }
+  console.log(
+    `  ${chalk.gray("Backend:")}     ${chalk.cyan(detected.backend)}`,
+  );
+  console.log(
+    `  ${chalk.gray("Styling:")}     ${chalk.cyan(
+      detected.styling
+        ? [detected.styling.framework, detected.styling.ui_library]
+            .filter(Boolean)
+            .join(" + ")
+        : "none",
+    )}`,
+  );
+  console.log(
+    `  ${chalk.gray("State:")}       ${chalk.cyan(detected.stateManager)}`,
+  );
+  printWarnings(detected);
+  console.log();
+}
+
+function printWarnings(detected: DetectedProject) {
+  for (const warning of detected.warnings) {
+    console.log(chalk.yellow(`  ⚠ ${warning}`));
+  }
+}
+
+/**
+ * Show what was detected and let the user correct it. Edits are applied
+ * to `detected` in place. Returns false when the user cancels.
+ */
+async function review(detected: DetectedProject): Promise<boolean> {
+  while (true) {
+    printSummary(detected);
+
+    const action = await p.select({
+      message: "Save this as project.yaml?",
+      options: [
+        { value: "save", label: "Save" },
+        { value: "edit", label: "Edit a value" },
+        { value: "yaml", label: "Show the YAML" },
+        { value: "cancel", label: "Cancel" },
+      ],
+    });
+
+    if (p.isCancel(action) || action === "cancel") return false;
+    if (action === "save") return true;
+
+    if (action === "yaml") {
+      console.log();
+      console.log(stringify(toProjectConfig(detected), { lineWidth: 100 }));
+      continue;
+    }
+
+    if (!(await editValue(detected))) return false;
+  }
+}
+
+async function editValue(detected: DetectedProject): Promise<boolean> {
+  const field = await p.select({
+    message: "What should change?",
+    options: [
+      { value: "name", label: "Name" },
+      { value: "description", label: "Description" },
+      { value: "pm", label: "Package manager" },
+      { value: "backend", label: "Backend" },
+      { value: "state", label: "State management" },
+      ...Object.keys(detected.apps).map((key) => ({
+        value: `app:${key}`,
+        label: `App: ${key}`,
+      })),
+    ],
+  });
+  if (p.isCancel(field)) return false;
+
+  switch (field) {
+    case "name": {
+      const name = await p.text({
+        message: "Project name:",
+        initialValue: detected.name,
+        validate: (value) =>
+          /^[a-z0-9@/._-]+$/.test(value)
+            ? undefined
+            : "Use lowercase letters, numbers, and - . _ @ /",
+      });
+      if (p.isCancel(name)) return false;
+      detected.name = name;
+      break;
+    }
+
+    case "description": {
+      const description = await p.text({
+        message: "Description:",
+        initialValue: detected.description,
+      });
+      if (p.isCancel(description)) return false;
+      detected.description = description ?? "";
+      break;
+    }
+
+    case "pm": {
+      const pm = await p.select({
+        message: "Package manager:",
+        initialValue: detected.packageManager,
+        options: PACKAGE_MANAGERS.map((value) => ({ value, label: value })),
+      });
+      if (p.isCancel(pm)) return false;
+      detected.packageManager = pm;
+      break;
+    }
+
+    case "backend": {
+      const backend = await p.select({
+        message: "Backend:",
+        initialValue: detected.backend,
+        options: (["convex", "supabase", "both", "none"] as const).map(
+          (value) => ({ value, label: value }),
+        ),
+      });
+      if (p.isCancel(backend)) return false;
+      detected.backend = backend;
+      break;
+    }
+
+    case "state": {
+      const state = await p.select({
+        message: "State management:",
+        initialValue: detected.stateManager,
+        options: ["zustand", "jotai", "none"].map((value) => ({
+          value: value as StateManager,
+          label: value,
+        })),
+      });
+      if (p.isCancel(state)) return false;
+      detected.stateManager = state;
+      break;
+    }
+
+    default:
+      return editApp(detected, (field as string).slice("app:".length));
+  }
+
+  return true;
+}
+
+async function editApp(
+  detected: DetectedProject,
+  key: string,
+): Promise<boolean> {
+  const app = detected.apps[key];
+
+  const framework = await p.text({
+    message: `${key} framework:`,
+    initialValue: app.framework,
+    validate: (value) => (value ? undefined : "Framework is required"),
+  });
+  if (p.isCancel(framework)) return false;
+
+  const port = await p.text({
+    message: `${key} dev port (empty for none):`,
+    initialValue: app.port ? String(app.port) : "",
+    validate: (value) =>
+      !value || (/^\d+$/.test(value) && Number(value) <= 65535)
+        ? undefined
+        : "Enter a port number",
+  });
+  if (p.isCancel(port)) return false;
+
+  const updated: ProjectConfig["stack"]["apps"][string] = {
+    ...app,
+    framework,
+  };
+  if (port) updated.port = Number(port);
+  else delete updated.port;
+  detected.apps[key] = updated;
+
+  return true;
+}
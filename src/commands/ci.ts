@@ -0,0 +1,103 @@
+/**
+ * ci command - Generate CI workflows from project.yaml
+ */
+
+import { Command } from "commander";
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { findProjectYaml, readProjectConfig } from "../lib/project-yaml.js";
+import { CI_WORKFLOW_PATH, renderCiWorkflow } from "../lib/ci-workflow.js";
+import { diffLines, printDiff } from "../lib/text-diff.js";
+import * as ui from "../ui/theme.js";
+
+export const ciCommand = new Command("ci")
+  .description("Generate CI workflows from project.yaml")
+  .addCommand(
+    new Command("generate")
+      .description(`Write ${CI_WORKFLOW_PATH} (GitHub Actions)`)
+      .option("--dry-run", "Show the changes without writing")
+      .option("-y, --yes", "Overwrite without asking")
+      .action(generateWorkflow),
+  );
+
+async function generateWorkflow(options: { dryRun?: boolean; yes?: boolean }) {
+  const yamlPath = findProjectYaml();
+  if (!yamlPath) {
+    ui.error("No project.yaml found in current directory or parents");
+    process.exitCode = 1;
+    return;
+  }
+
+  let config;
+  try {
+    // Local overrides are per-machine and do not belong in CI
+    config = await readProjectConfig(yamlPath, { local: false });
+  } catch (error) {
+    ui.configError(error);
+    process.exitCode = 1;
+    return;
+  }
+  if (!config) return;
+
+  const projectPath = dirname(yamlPath);
+  const target = join(projectPath, CI_WORKFLOW_PATH);
+  const workflow = renderCiWorkflow(projectPath, config);
+  const previous = existsSync(target) ? readFileSync(target, "utf-8") : null;
+
+  console.log();
+  console.log(chalk.gray(`  ${target}`));
+  console.log();
+
+  if (previous === workflow.content) {
+    ui.success(`${CI_WORKFLOW_PATH} is up to date`);
+    printSecrets(workflow.secrets);
+    console.log();
+    return;
+  }
+
+  if (previous === null) {
+    console.log(chalk.bold(`  New file`));
+  } else {
+    console.log(chalk.bold(`  Changes to ${CI_WORKFLOW_PATH}`));
+  }
+  printDiff(diffLines(previous ?? "", workflow.content));
+  console.log();
+
+  if (options.dryRun) {
+    console.log(
+      chalk.yellow(`  [DRY RUN] ${CI_WORKFLOW_PATH} was not written.`),
+    );
+    console.log();
+    return;
+  }
+
+  // Only ask before replacing a workflow someone may have edited
+  if (previous !== null && !options.yes && process.stdin.isTTY) {
+    const overwrite = await p.confirm({
+      message: `Overwrite ${CI_WORKFLOW_PATH}?`,
+    });
+    if (p.isCancel(overwrite) || !overwrite) {
+      p.cancel("Workflow not written");
+      return;
+    }
+  }
+
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileSync(target, workflow.content);
+  ui.success(
+    `${previous === null ? "Created" : "Updated"} ${CI_WORKFLOW_PATH}`,
+  );
+  printSecrets(workflow.secrets);
+  console.log();
+}
+
+function printSecrets(secrets: string[]) {
+  if (secrets.length === 0) return;
+  console.log();
+  console.log(chalk.white("  The workflow reads these repository secrets:"));
+  for (const secret of secrets) {
+    console.log(`    ${chalk.cyan("●")} ${secret}`);
+  }
+}
@@ -0,0 +1,479 @@
+/**
+ * config command - Read, edit, validate and migrate project.yaml
+ * (or ~/.devkitx/config.yaml with --global)
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { existsSync } from "fs";
+import { basename, dirname, join, resolve } from "path";
+import { Document, isCollection, parseDocument, stringify } from "yaml";
+import {
+  InvalidEditError,
+  LOCAL_YAML_FILENAME,
+  ProjectConfigError,
+  findProjectYaml,
+  formatIssue,
+  loadProjectDocument,
+  readProjectConfig,
+  saveProjectDocument,
+} from "../lib/project-yaml.js";
+import {
+  PROJECT_SCHEMA,
+  schemaAt,
+  validateOverrideYaml,
+  validateProjectYaml,
+  type ValidationIssue,
+} from "../lib/project-schema.js";
+import {
+  GLOBAL_CONFIG_PATH,
+  GLOBAL_CONFIG_SCHEMA,
+  validateGlobalYaml,
+} from "../lib/global-config.js";
+import { migrateProjectDocument } from "../lib/project-migrate.js";
+import { coerceValue, parseKeyPath } from "../lib/yaml-edit.js";
+import * as ui from "../ui/theme.js";
+
+export const configCommand = new Command("config")
+  .description("Read, edit, validate and migrate project.yaml")
+  .option("-g, --global", `Use ${GLOBAL_CONFIG_PATH} instead`)
+  .addCommand(
+    new Command("get")
+      .description("Print a value from project.yaml")
+      .argument("<key>", "Dotted key, e.g. stack.apps.web.port")
+      .option("--json", "Output as JSON")
+      .option(
+        "--resolved",
+        "Read the merged value (project.local.yaml and --profile applied)",
+      )
+      .action(getConfigValue),
+  )
+  .addCommand(
+    new Command("set")
+      .description("Set a value in project.yaml (comments are preserved)")
+      .argument("<key>", "Dotted key, e.g. stack.apps.web.port")
+      .argument("<value>", "New value (arrays: a,b,c or JSON)")
+      .option("--json", "Output result as JSON")
+      .action(setConfigValue),
+  )
+  .addCommand(
+    new Command("unset")
+      .description("Remove a key from project.yaml")
+      .argument("<key>", "Dotted key, e.g. stack.backend.secondary")
+      .option("--json", "Output result as JSON")
+      .action(unsetConfigValue),
+  )
+  .addCommand(
+    new Command("validate")
+      .description(
+        "Validate project.yaml (and project.local.yaml) against the schema",
+      )
+      .argument("[file]", "Path to project.yaml (default: nearest)")
+      .option("--json", "Output issues as JSON")
+      .action(validateConfig),
+  )
+  .addCommand(
+    new Command("migrate")
+      .description("Upgrade project.yaml to the current schema version")
+      .argument("[file]", "Path to project.yaml (default: nearest)")
+      .option("--dry-run", "Show what would change without writing")
+      .action(migrateConfig),
+  )
+  .addCommand(
+    new Command("schema")
+      .description("Print the project.yaml JSON Schema")
+      .action(() => {
+        const schema = isGlobal() ? GLOBAL_CONFIG_SCHEMA : PROJECT_SCHEMA;
+        console.log(JSON.stringify(schema, null, 2));
+      }),
+  );
+
+function isGlobal(): boolean {
+  return configCommand.opts().global === true;
+}
+
+/**
+ * Load the nearest project.yaml (or the global config) as a Document,
+ * reporting failures
+ */
+async function loadDocument(
+  json?: boolean,
+): Promise<{ doc: Document; yamlPath: string } | null> {
+  if (isGlobal() && !existsSync(GLOBAL_CONFIG_PATH)) {
+    const doc = new Document({});
+    doc.commentBefore =
+      " DevKitX user configuration - edit with 'dx config --global set'";
+    return { doc, yamlPath: GLOBAL_CONFIG_PATH };
+  }
+
+  try {
+    return await loadProjectDocument(
+      isGlobal() ? GLOBAL_CONFIG_PATH : undefined,
+    );
+  } catch (error) {
+    if (!json) {
+      ui.configError(error);
+    } else if (error instanceof ProjectConfigError) {
+      fail(`${basename(error.path)} has syntax errors`, json);
+    } else {
+      fail((error as Error).message, json);
+    }
+    return null;
+  }
+}
+
+function fail(message: string, json?: boolean): void {
+  if (json) {
+    console.log(JSON.stringify({ error: message }));
+  } else {
+    ui.error(message);
+  }
+  process.exitCode = 1;
+}
+
+async function getConfigValue(
+  key: string,
+  options: { json?: boolean; resolved?: boolean },
+) {
+  if (options.resolved && !isGlobal()) {
+    await getResolvedValue(key, options.json);
+    return;
+  }
+
+  const loaded = await loadDocument(options.json);
+  if (!loaded) return;
+
+  let path;
+  try {
+    path = parseKeyPath(key);
+  } catch (error) {
+    fail((error as Error).message, options.json);
+    return;
+  }
+
+  if (!loaded.doc.hasIn(path)) {
+    fail(`${key} is not set`, options.json);
+    return;
+  }
+
+  const node = loaded.doc.getIn(path, true);
+  const value = loaded.doc.getIn(path);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(isCollection(node) ? node.toJSON() : value, null, 2),
+    );
+  } else if (isCollection(node)) {
+    process.stdout.write(stringify(node.toJSON()));
+  } else {
+    console.log(String(value));
+  }
+}
+
+/**
+ * Read a key from the merged config rather than the raw document
+ */
+async function getResolvedValue(key: string, json?: boolean) {
+  const yamlPath = findProjectYaml();
+  if (!yamlPath) {
+    fail("No project.yaml found", json);
+    return;
+  }
+
+  let path;
+  let value: unknown;
+  try {
+    path = parseKeyPath(key);
+    value = await readProjectConfig(yamlPath);
+  } catch (error) {
+    if (json) {
+      fail((error as Error).message, json);
+    } else {
+      ui.configError(error);
+    }
+    return;
+  }
+
+  for (const segment of path) {
+    value =
+      value !== null && typeof value === "object"
+        ? (value as Record<string | number, unknown>)[segment]
+        : undefined;
+  }
+
+  if (value === undefined) {
+    fail(`${key} is not set`, json);
+  } else if (json) {
+    console.log(JSON.stringify(value, null, 2));
+  } else if (typeof value === "object" && value !== null) {
+    process.stdout.write(stringify(value));
+  } else {
+    console.log(String(value));
+  }
+}
+
+async function setConfigValue(
+  key: string,
+  raw: string,
+  options: { json?: boolean },
+) {
+  const loaded = await loadDocument(options.json);
+  if (!loaded) return;
+  const { doc, yamlPath } = loaded;
+
+  let path;
+  let value;
+  try {
+    path = parseKeyPath(key);
+    const schema = isGlobal()
+      ? schemaAt(path, GLOBAL_CONFIG_SCHEMA)
+      : schemaAt(path);
+    if (!schema) {
+      throw new Error(
+        `${key} is not a known ${isGlobal() ? "config.yaml" : "project.yaml"} key`,
+      );
+    }
+    value = coerceValue(raw, schema);
+  } catch (error) {
+    fail((error as Error).message, options.json);
+    return;
+  }
+
+  const previous = doc.getIn(path);
+  doc.setIn(path, value);
+
+  if (!(await saveEdit(doc, yamlPath, key, options.json))) return;
+
+  if (options.json) {
+    console.log(JSON.stringify({ key, previous: previous ?? null, value }));
+  } else {
+    ui.success(`${key} = ${JSON.stringify(value)}`);
+  }
+}
+
+async function unsetConfigValue(key: string, options: { json?: boolean }) {
+  const loaded = await loadDocument(options.json);
+  if (!loaded) return;
+  const { doc, yamlPath } = loaded;
+
+  let path;
+  try {
+    path = parseKeyPath(key);
+  } catch (error) {
+    fail((error as Error).message, options.json);
+    return;
+  }
+
+  if (!doc.hasIn(path)) {
+    fail(`${key} is not set`, options.json);
+    return;
+  }
+
+  const previous = doc.getIn(path);
+  doc.deleteIn(path);
+
+  if (!(await saveEdit(doc, yamlPath, key, options.json))) return;
+
+  if (options.json) {
+    console.log(JSON.stringify({ key, previous, removed: true }));
+  } else {
+    ui.success(`Removed ${key}`);
+  }
+}
+
+/**
+ * Write the edit, refusing one that would leave the file invalid
+ */
+async function saveEdit(
+  doc: Document,
+  yamlPath: string,
+  key: string,
+  json?: boolean,
+): Promise<boolean> {
+  try {
+    await saveProjectDocument(
+      doc,
+      yamlPath,
+      isGlobal() ? validateGlobalYaml : validateProjectYaml,
+    );
+    return true;
+  } catch (error) {
+    if (!(error instanceof InvalidEditError)) throw error;
+    const { issues } = error;
+    if (json) {
+      console.log(JSON.stringify({ error: "invalid", key, issues }));
+    } else {
+      ui.error(`Not saved: ${key} would make ${basename(yamlPath)} invalid`);
+      for (const issue of issues) {
+        console.log(`  ${chalk.red("✗")} ${formatIssue(yamlPath, issue)}`);
+      }
+    }
+    process.exitCode = 1;
+    return false;
+  }
+}
+
+async function validateConfig(
+  file: string | undefined,
+  options: { json?: boolean },
+) {
+  const global = isGlobal();
+  const yamlPath = global
+    ? GLOBAL_CONFIG_PATH
+    : file
+      ? resolve(file)
+      : findProjectYaml();
+
+  if (!yamlPath || !existsSync(yamlPath)) {
+    if (options.json) {
+      console.log(JSON.stringify({ valid: false, error: "not_found" }));
+    } else if (global) {
+      ui.error(`No global config yet: ${GLOBAL_CONFIG_PATH}`);
+      console.log(
+        chalk.gray(
+          "  Create it with: dx config --global set defaults.theme violet",
+        ),
+      );
+    } else {
+      ui.error(file ? `File not found: ${file}` : "No project.yaml found");
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  const content = await Bun.file(yamlPath).text();
+  const files: Array<{ path: string; issues: ValidationIssue[] }> = [
+    {
+      path: yamlPath,
+      issues: global
+        ? validateGlobalYaml(content)
+        : validateProjectYaml(content),
+    },
+  ];
+
+  // The local override file is checked alongside, against the partial schema
+  const localPath = join(dirname(yamlPath), LOCAL_YAML_FILENAME);
+  if (!file && !global && existsSync(localPath)) {
+    files.push({
+      path: localPath,
+      issues: validateOverrideYaml(await Bun.file(localPath).text()),
+    });
+  }
+
+  const total = files.reduce((sum, f) => sum + f.issues.length, 0);
+
+  if (options.json) {
+    const [base, local] = files;
+    console.log(
+      JSON.stringify(
+        {
+          path: base.path,
+          valid: total === 0,
+          issues: base.issues,
+          ...(local && { local: { path: local.path, issues: local.issues } }),
+        },
+        null,
+        2,
+      ),
+    );
+    if (total > 0) process.exitCode = 1;
+    return;
+  }
+
+  console.log();
+  for (const { path, issues } of files) {
+    console.log(chalk.gray(`  ${path}`));
+    for (const issue of issues) {
+      console.log(`  ${chalk.red("✗")} ${formatIssue(path, issue)}`);
+    }
+  }
+  console.log();
+
+  if (total === 0) {
+    ui.success(
+      files.length > 1
+        ? `project.yaml and ${LOCAL_YAML_FILENAME} are valid`
+        : `${basename(yamlPath)} is valid`,
+    );
+    console.log();
+    return;
+  }
+
+  ui.error(`${total} issue(s) found`);
+  console.log();
+  process.exitCode = 1;
+}
+
+async function migrateConfig(
+  file: string | undefined,
+  options: { dryRun?: boolean },
+) {
+  if (isGlobal()) {
+    ui.error("The global config has no schema versions to migrate");
+    process.exitCode = 1;
+    return;
+  }
+
+  const yamlPath = file ? resolve(file) : findProjectYaml();
+
+  if (!yamlPath || !existsSync(yamlPath)) {
+    ui.error(file ? `File not found: ${file}` : "No project.yaml found");
+    process.exitCode = 1;
+    return;
+  }
+
+  const doc = parseDocument(await Bun.file(yamlPath).text());
+  if (doc.errors.length > 0) {
+    ui.error("project.yaml has syntax errors - fix them before migrating");
+    console.log(chalk.gray("  Run 'dx config validate' for details"));
+    process.exitCode = 1;
+    return;
+  }
+
+  let result;
+  try {
+    result = migrateProjectDocument(doc, dirname(yamlPath));
+  } catch (error) {
+    ui.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log();
+  console.log(chalk.gray(`  ${yamlPath}`));
+  console.log();
+
+  if (result.changes.length === 0) {
+    ui.success(`Already at schema version ${result.to}`);
+    console.log();
+    return;
+  }
+
+  console.log(chalk.bold(`  Schema version ${result.from} -> ${result.to}`));
+  for (const change of result.changes) {
+    console.log(`    ${chalk.cyan("●")} ${change}`);
+  }
+  console.log();
+
+  const migrated = doc.toString();
+
+  if (options.dryRun) {
+    console.log(chalk.yellow("  [DRY RUN] project.yaml was not modified."));
+    console.log();
+    return;
+  }
+
+  await Bun.write(yamlPath, migrated);
+  ui.success("project.yaml migrated");
+
+  // Anything the migration could not infer still needs a manual fix
+  const issues = validateProjectYaml(migrated);
+  if (issues.length > 0) {
+    console.log();
+    ui.warning(`${issues.length} issue(s) need manual attention:`);
+    for (const issue of issues) {
+      console.log(`  ${chalk.yellow("!")} ${formatIssue(yamlPath, issue)}`);
+    }
+  }
+  console.log();
+}
@@ -0,0 +1,131 @@
+/**
+ * container command - Dev container, Dockerfile and docker-compose.yml
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { findProjectYaml, readProjectConfig } from "../lib/project-yaml.js";
+import {
+  containerFiles,
+  containerTarget,
+  enableStandaloneOutput,
+} from "../lib/container-scaffold.js";
+import * as ui from "../ui/theme.js";
+
+const TARGET_LABELS = {
+  next: "Next.js standalone server",
+  vite: "Vite build served by nginx",
+  api: "Hono API on Bun",
+  turborepo: "Turborepo apps, pruned with turbo prune",
+};
+
+export const containerCommand = new Command("container")
+  .description("Generate container setups from project.yaml")
+  .addCommand(
+    new Command("init")
+      .description(
+        "Write .devcontainer/, a production Dockerfile and docker-compose.yml",
+      )
+      .option("--force", "Overwrite files that already exist")
+      .option("--dry-run", "List the files without writing them")
+      .action(initContainer),
+  );
+
+async function initContainer(options: { force?: boolean; dryRun?: boolean }) {
+  const yamlPath = findProjectYaml();
+  if (!yamlPath) {
+    ui.error("No project.yaml found in current directory or parents");
+    process.exitCode = 1;
+    return;
+  }
+
+  let config;
+  try {
+    config = await readProjectConfig(yamlPath, { local: false });
+  } catch (error) {
+    ui.configError(error);
+    process.exitCode = 1;
+    return;
+  }
+  if (!config) return;
+
+  const projectPath = dirname(yamlPath);
+  const target = containerTarget(config);
+  const files = containerFiles(projectPath, config);
+
+  console.log();
+  ui.header("Container Setup");
+  console.log(
+    `  ${chalk.gray("Image:")} ${target ? chalk.cyan(TARGET_LABELS[target]) : chalk.yellow("none - nothing to serve, dev container only")}`,
+  );
+  console.log(
+    `  ${chalk.gray("Package manager:")} ${chalk.cyan(config.stack.package_manager)}`,
+  );
+  console.log();
+
+  let skipped = 0;
+  for (const [path, content] of Object.entries(files)) {
+    const fullPath = join(projectPath, path);
+    const existing = existsSync(fullPath)
+      ? readFileSync(fullPath, "utf-8")
+      : null;
+
+    if (existing === content) {
+      console.log(`  ${chalk.gray("=")} ${path} ${chalk.gray("(unchanged)")}`);
+      continue;
+    }
+    if (existing !== null && !options.force) {
+      console.log(
+        `  ${chalk.yellow("!")} ${path} ${chalk.gray("(exists, use --force to overwrite)")}`,
+      );
+      skipped++;
+      continue;
+    }
+    if (!options.dryRun) {
+      mkdirSync(dirname(fullPath), { recursive: true });
+      writeFileSync(fullPath, content);
+    }
+    console.log(
+      `  ${chalk.green(existing === null ? "+" : "~")} ${path}${existing === null ? "" : chalk.gray(" (overwritten)")}`,
+    );
+  }
+
+  // The Dockerfile copies the standalone server Next.js only emits on request
+  const nextApps = Object.values(config.stack.apps).filter((app) =>
+    app.framework.startsWith("next"),
+  );
+  for (const app of nextApps) {
+    const appPath = join(projectPath, app.path);
+    if (options.dryRun || !existsSync(appPath)) continue;
+    if (!enableStandaloneOutput(appPath)) {
+      console.log();
+      ui.warning(
+        `Add output: "standalone" to next.config in ${app.path} - the Dockerfile needs it`,
+      );
+    }
+  }
+  console.log();
+
+  if (options.dryRun) {
+    console.log(chalk.yellow("  [DRY RUN] No files were written."));
+    console.log();
+    return;
+  }
+  if (skipped > 0) {
+    ui.warning(`${skipped} existing file(s) kept`);
+    console.log();
+  }
+
+  ui.header("Next Steps");
+  console.log(
+    `  ${chalk.cyan("Dev Containers: Reopen in Container")}  # VS Code command palette`,
+  );
+  if (target) {
+    console.log(
+      `  ${chalk.cyan("docker compose up --build")}            # Build and run the production image`,
+    );
+  }
+  console.log();
+}
@@ -11,14 +11,112 @@
 import { Command } from "commander";
 import * as p from "@clack/prompts";
 import chalk from "chalk";
-import { join, basename } from "path";
+import { join, basename, relative, resolve } from "path";
 import { existsSync, mkdirSync, rmSync } from "fs";
 import { platform } from "os";
 import {
+  LOCAL_YAML_FILENAME,
   createProjectConfig,
+  deepMerge,
+  formatIssue,
   writeProjectConfig,
+  type AgentNotes,
 } from "../lib/project-yaml.js";
+import { writeCiWorkflow } from "../lib/ci-workflow.js";
+import { createAgentEditable } from "../lib/agent-notes.js";
+import { registerProject } from "../lib/registry.js";
+import {
+  BACKENDS,
+  beginTransaction,
+  blockingEntries,
+  commitTransaction,
+  finishStep,
+  isFinished,
+  journalEntry,
+  markStep,
+  planSteps,
+  projectJournalPath,
+  rollbackTransaction,
+  runningStep,
+  type CreateJournal,
+  type CreateTransaction,
+} from "../lib/create-transaction.js";
+import {
+  buildCommand,
+  readGlobalConfig,
+  type GlobalConfig,
+} from "../lib/global-config.js";
+import {
+  BUILTIN_TEMPLATES,
+  copyTemplateFiles,
+  disposeTemplate,
+  fetchTemplate,
+  findTemplatePlugin,
+  interpolate,
+  extraWorkspacePath,
+  extraWorkspaceSpec,
+  isBuiltinTemplate,
+  isTemplateSource,
+  isUiTemplate,
+  listTemplatePlugins,
+  parseExtraWorkspaces,
+  type BuiltinTemplate,
+  type ExtraWorkspace,
+  type TemplatePlugin,
+} from "../lib/templates.js";
+import {
+  PROJECT_SCHEMA,
+  validateAgainstSchema,
+} from "../lib/project-schema.js";
+import {
+  DEFAULT_ANSWERS_FILE,
+  readAnswers,
+  writeAnswers,
+  type CreateAnswers,
+} from "../lib/create-answers.js";
+import {
+  OFFLINE_SCAFFOLD_VERSION,
+  backendDependencies,
+  writeOfflineScaffold,
+} from "../lib/offline-scaffold.js";
+import { writeMobileApp } from "../lib/mobile-scaffold.js";
+import { writeLibrary } from "../lib/library-scaffold.js";
+import { writeApi } from "../lib/api-scaffold.js";
+import {
+  AUTH_LABELS,
+  authDependencies,
+  authProvidersFor,
+  writeAuth,
+  type AuthProvider,
+} from "../lib/auth-scaffold.js";
+import {
+  TESTING_LABELS,
+  TESTING_STACKS,
+  testingDependencies,
+  writeTesting,
+  type TestingStack,
+} from "../lib/testing-scaffold.js";
+import {
+  LINTERS,
+  LINTER_LABELS,
+  writeLint,
+  writeMonorepoLint,
+  type EslintPreset,
+  type Linter,
+} from "../lib/lint-scaffold.js";
+import {
+  createSharedPackages,
+  linkWebApp,
+  shareUiImports,
+} from "../lib/monorepo-packages.js";
 import { logger } from "../lib/logger.js";
+import {
+  printStepSummary,
+  runCommand,
+  runSteps,
+  type Step,
+  type StepResult,
+} from "../lib/step-runner.js";
 import * as ui from "../ui/theme.js";
 import {
   type PackageManager,
@@ -27,11 +125,17 @@ import {
   type StateManager,
   ACCENT_THEMES,
   FONTS,
+  PACKAGE_MANAGERS,
   FONT_LABELS,
   THEME_DISPLAY,
   DEFAULTS,
   buildShadcnCreateCommand,
   buildShadcnAddCommand,
+  buildAddCommand,
+  buildExecCommand,
+  buildRunCommand,
+  packageManagerField,
+  yarnFlavor,
   getPackageManagerRecommendations,
   getStateManagerRecommendations,
   CORE_DEPENDENCIES,
@@ -45,12 +149,23 @@ import {
 
 interface ProjectConfig {
   name: string;
-  template: "turbo-monorepo" | "next-only" | "vite-only";
+  /** Built-in scaffold; "none" for template plugins without a base */
+  template: BuiltinTemplate | "none";
+  plugin?: TemplatePlugin;
   backend: "convex" | "supabase" | "both" | "none";
+  auth: AuthProvider;
   packageManager: PackageManager;
   theme: AccentTheme;
   font: Font;
   stateManager: StateManager;
+  testing: TestingStack;
+  lint: Linter;
+  /** Turborepo only: libraries and APIs added with --with */
+  workspaces?: ExtraWorkspace[];
+  /** Write .github/workflows/ci.yml (dx ci generate) */
+  ci?: boolean;
+  /** Use the bundled scaffold instead of shadcn create */
+  offline?: boolean;
 }
 
 // ============================================================================
@@ -59,79 +174,110 @@ interface ProjectConfig {
 
 export const createCommand = new Command("create")
   .description("Create a new project with shadcn/ui")
-  .argument("[name]", "Project name")
+  .argument("[name]", "Project name, or . for the current directory")
+  .option(
+    "--dir <path>",
+    "Create the project in this directory (it may hold a README, LICENSE, .git and .gitignore)",
+  )
   .option(
     "-t, --template <template>",
-    "Template: turbo-monorepo, next-only, vite-only",
+    "Template: turbo-monorepo, next-only, vite-only, library, api, a plugin name, or a git/npm source",
+  )
+  .option(
+    "--with <workspaces...>",
+    "Turborepo: add a library (packages/<name>) or API (apps/<name>), e.g. --with api library:utils",
   )
   .option("-b, --backend <backend>", "Backend: convex, supabase, both, none")
-  .option("-p, --pm <pm>", "Package manager: pnpm, bun, npm")
+  .option(
+    "--auth <auth>",
+    "Auth for the Next.js app: convex, supabase, none (must match the backend)",
+  )
+  .option(
+    "--testing <testing>",
+    "Tests for the web app: vitest, vitest-playwright, none",
+  )
+  .option("--lint <lint>", "Lint and format tooling: eslint, biome, none")
+  .option("-p, --pm <pm>", "Package manager: pnpm, bun, npm, yarn")
+  .option("--ci", "Add a GitHub Actions workflow (see dx ci generate)")
   .option("--theme <theme>", "Accent theme color")
   .option("--font <font>", "Font family")
   .option("--skip-install", "Skip installing dependencies")
   .option("--skip-git", "Skip git initialization")
+  .option(
+    "--offline",
+    "Scaffold from the templates bundled with devkitx instead of shadcn@latest",
+  )
   .option("-v, --verbose", "Show detailed logging")
   .option("-y, --yes", "Use defaults, skip prompts")
+  .option(
+    "--from <file>",
+    "Replay choices from an answers file or a project.yaml, skipping prompts",
+  )
+  .option(
+    "--save-answers [file]",
+    `Save your choices for --from (default: ${DEFAULT_ANSWERS_FILE})`,
+  )
+  .option(
+    "--keep-on-failure",
+    "Keep a failed project and its step journal so dx repair can finish it",
+  )
   .action(async (name: string | undefined, options) => {
+    let tx: CreateTransaction | undefined;
+    let plugin: TemplatePlugin | undefined;
+
     try {
       console.log();
       p.intro(chalk.bgCyan(chalk.black(" DevKitX - Create Project ")));
 
       logger.setVerbose(options.verbose ?? false);
 
-      // ============================================================================
-      // LUCIDE-REACT COMPATIBILITY FIX
-      // Downgrade lucide-react to v0.475.0 to avoid ESBuild resolution errors
-      // See: https://github.com/lucide-icons/lucide/issues/XXXX
-      // ============================================================================
-
-      async function fixLucideReactVersion(
-        projectPath: string,
-        packageManager: string,
-      ): Promise<void> {
-        console.log(
-          chalk.gray("  [Fix] Applying lucide-react v0.475.0 fix..."),
-        );
-
-        const downgradeCmd =
-          packageManager === "bun"
-            ? ["bun", "add", "lucide-react@0.475.0"]
-            : packageManager === "pnpm"
-              ? ["pnpm", "add", "lucide-react@0.475.0"]
-              : ["npm", "install", "lucide-react@0.475.0"];
-
-        const proc = Bun.spawn(downgradeCmd, {
-          cwd: projectPath,
-          stdout: "pipe",
-          stderr: "pipe",
-        });
-
-        const output = await new Response(proc.stdout).text();
-        await proc.exited;
+      // User-wide defaults from ~/.devkitx/config.yaml; flags still win
+      let defaults: NonNullable<GlobalConfig["defaults"]> = {};
+      try {
+        defaults = readGlobalConfig().defaults ?? {};
+      } catch (error) {
+        ui.configError(error);
+        ui.warning("Ignoring global config, using built-in defaults");
+      }
 
-        if (proc.exitCode === 0) {
-          console.log(
-            chalk.green(
-              "  [Fix] ✓ Downgraded lucide-react to v0.475.0 (ESBuild compatibility)",
-            ),
-          );
-        } else {
-          console.log(
-            chalk.yellow(
-              "  [Fix] ⚠ Could not downgrade lucide-react (may already be correct version)",
-            ),
-          );
+      // Answers replayed with --from skip the prompts; flags still win
+      let answers: CreateAnswers = {};
+      if (options.from) {
+        try {
+          answers = await readAnswers(options.from);
+        } catch (error) {
+          p.cancel("Could not read answers");
+          ui.configError(error);
+          process.exit(1);
         }
+        options.skipInstall ??= answers.skip_install;
+        options.skipGit ??= answers.skip_git;
+        options.offline ??= answers.offline;
+        options.ci ??= answers.ci;
       }
+      const interactive = !options.yes && !options.from;
 
       // ============================================================================
       // PROJECT CREATION FLOW
       // ============================================================================
 
       // ========================================
-      // STEP 1: Get project name
+      // STEP 1: Get project name and directory
       // ========================================
-      let projectName = name ?? "";
+      // `dx create .` and --dir name the project after the folder
+      if (name === "." && options.dir) {
+        p.cancel("Use either . or --dir, not both");
+        process.exit(1);
+      }
+      const targetDir =
+        name === "."
+          ? process.cwd()
+          : options.dir
+            ? resolve(options.dir)
+            : undefined;
+      let projectName =
+        (name === "." ? undefined : name) ??
+        (targetDir ? toProjectName(basename(targetDir)) : "");
       if (!projectName) {
         const nameResult = await p.text({
           message: "What is your project name?",
@@ -151,20 +297,41 @@ export const createCommand = new Command("create")
         projectName = nameResult as string;
       }
 
-      // Check if directory exists
-      const projectPath = join(process.cwd(), projectName);
+      // An existing directory is fine while it only holds repository files
+      const projectPath = targetDir ?? join(process.cwd(), projectName);
+      const displayPath = relative(process.cwd(), projectPath) || ".";
       if (existsSync(projectPath)) {
-        p.cancel(`Directory "${projectName}" already exists`);
-        process.exit(1);
+        const blocking = blockingEntries(projectPath);
+        if (blocking.length > 0) {
+          p.cancel(`Directory "${displayPath}" is not empty`);
+          console.log(
+            chalk.gray(
+              `  Found ${blocking.slice(0, 5).join(", ")}${blocking.length > 5 ? ", ..." : ""}`,
+            ),
+          );
+          console.log(
+            chalk.gray(
+              "  Only a README, LICENSE, .git and .gitignore can already be there",
+            ),
+          );
+          process.exit(1);
+        }
       }
+      // Keep the history of a cloned repository instead of running git init
+      const keepGit = existsSync(join(projectPath, ".git"));
 
       // ========================================
       // STEP 2: Select template
       // ========================================
-      let template = options.template as ProjectConfig["template"];
-      if (!template) {
+      let templateName: string | undefined =
+        options.template ??
+        answers.template ??
+        (interactive ? undefined : defaults.template);
+      if (!templateName) {
+        const { plugins } = listTemplatePlugins();
         const templateResult = await p.select({
           message: "What type of project?",
+          initialValue: defaults.template,
           options: [
             {
               value: "next-only",
@@ -179,8 +346,25 @@ export const createCommand = new Command("create")
             {
               value: "turbo-monorepo",
               label: "Turborepo Monorepo",
-              hint: "Next.js + shared packages (mobile-ready)",
+              hint: "Next.js + Expo + shared packages",
+            },
+            {
+              value: "library",
+              label: "TypeScript Library",
+              hint: "ESM + CommonJS package with tsup and Vitest",
+            },
+            {
+              value: "api",
+              label: "Hono API",
+              hint: "Typed API server on Bun",
             },
+            ...plugins
+              .filter((t) => !isBuiltinTemplate(t.manifest.name))
+              .map((t) => ({
+                value: t.manifest.name,
+                label: t.manifest.label ?? t.manifest.name,
+                hint: `${t.manifest.description ?? "Template plugin"} ${chalk.gray("(plugin)")}`,
+              })),
           ],
         });
 
@@ -188,18 +372,37 @@ export const createCommand = new Command("create")
           p.cancel("Operation cancelled");
           process.exit(0);
         }
-        template = templateResult as ProjectConfig["template"];
+        templateName = templateResult as string;
+      }
+
+      // Plugins scaffold their base template first, then add their files
+      let template: ProjectConfig["template"];
+      if (isBuiltinTemplate(templateName)) {
+        template = templateName;
+      } else {
+        try {
+          plugin = await resolveTemplatePlugin(templateName);
+        } catch (error) {
+          p.cancel("Template not available");
+          ui.configError(error);
+          process.exit(1);
+        }
+        template = plugin.manifest.base ?? "none";
       }
 
       // ========================================
       // STEP 3: Select package manager
       // ========================================
-      let packageManager = options.pm as PackageManager;
-      if (!packageManager && !options.yes) {
-        const pmOptions = getPackageManagerRecommendations(template);
+      let packageManager =
+        (options.pm as PackageManager) ?? answers.package_manager;
+      if (!packageManager && interactive) {
+        const pmOptions = getPackageManagerRecommendations(
+          template === "none" ? "next-only" : template,
+        );
 
         const pmResult = await p.select({
           message: "Which package manager?",
+          initialValue: defaults.package_manager,
           options: pmOptions.map((pm) => ({
             value: pm.manager,
             label: pm.recommended
@@ -215,17 +418,30 @@ export const createCommand = new Command("create")
         }
         packageManager = pmResult as PackageManager;
       } else if (!packageManager) {
-        // Default based on template
-        packageManager = template === "vite-only" ? "bun" : "pnpm";
+        // Default from config.yaml, else based on template
+        packageManager =
+          defaults.package_manager ??
+          (template === "vite-only" || template === "api" ? "bun" : "pnpm");
+      }
+      if (!PACKAGE_MANAGERS.includes(packageManager)) {
+        p.cancel(
+          `Unknown package manager "${packageManager}" (use ${PACKAGE_MANAGERS.join(", ")})`,
+        );
+        process.exit(1);
       }
 
       // ========================================
       // STEP 4: Select backend
       // ========================================
-      let backend = options.backend as ProjectConfig["backend"];
-      if (!backend && !options.yes) {
+      // Backend, theme and state only apply to the shadcn/ui scaffolds
+      const uiScaffold = isUiTemplate(template);
+
+      let backend =
+        (options.backend as ProjectConfig["backend"]) ?? answers.backend;
+      if (!backend && interactive && uiScaffold) {
         const backendResult = await p.select({
           message: "Select your backend:",
+          initialValue: defaults.backend,
           options: [
             {
               value: "convex",
@@ -256,23 +472,88 @@ export const createCommand = new Command("create")
         }
         backend = backendResult as ProjectConfig["backend"];
       } else if (!backend) {
-        backend = "convex";
+        backend = uiScaffold ? (defaults.backend ?? "convex") : "none";
+      }
+      if (!BACKENDS.includes(backend)) {
+        p.cancel(`Unknown --backend "${backend}" (use ${BACKENDS.join(", ")})`);
+        process.exit(1);
+      }
+
+      // Auth is scaffolded into the Next.js app, with the chosen backend
+      const nextApp = template === "next-only" || template === "turbo-monorepo";
+      const authChoices: AuthProvider[] = nextApp
+        ? authProvidersFor(backend)
+        : ["none"];
+      const defaultAuth =
+        defaults.auth && authChoices.includes(defaults.auth)
+          ? defaults.auth
+          : "none";
+
+      let auth = (options.auth as AuthProvider) ?? answers.auth;
+      if (!auth && interactive && authChoices.length > 1) {
+        const authResult = await p.select({
+          message: "Add authentication?",
+          initialValue: defaults.auth ? defaultAuth : authChoices[0],
+          options: authChoices.map((provider) => ({
+            value: provider,
+            label: AUTH_LABELS[provider],
+            hint: {
+              convex: "Password sign-in with @convex-dev/auth",
+              supabase: "Email and password with @supabase/ssr middleware",
+              none: "I'll add auth later",
+            }[provider],
+          })),
+        });
+
+        if (p.isCancel(authResult)) {
+          p.cancel("Operation cancelled");
+          process.exit(0);
+        }
+        auth = authResult as AuthProvider;
+      } else if (!auth) {
+        auth = defaultAuth;
+      }
+      if (!authChoices.includes(auth)) {
+        p.cancel(
+          nextApp
+            ? `--auth ${auth} does not work with the ${backend} backend (use ${authChoices.join(", ")})`
+            : "Auth scaffolding needs a Next.js app (next-only or turbo-monorepo)",
+        );
+        process.exit(1);
       }
 
       // ========================================
       // STEP 5: shadcn/ui theme customization
       // ========================================
-      let theme: AccentTheme = (options.theme as AccentTheme) ?? DEFAULTS.theme;
-      let font: Font = (options.font as Font) ?? DEFAULTS.font;
+      let theme: AccentTheme =
+        (options.theme as AccentTheme) ??
+        answers.theme ??
+        defaults.theme ??
+        DEFAULTS.theme;
+      let font: Font =
+        (options.font as Font) ??
+        answers.font ??
+        defaults.font ??
+        DEFAULTS.font;
+      if (!ACCENT_THEMES.includes(theme)) {
+        p.cancel(
+          `Unknown --theme "${theme}" (use ${ACCENT_THEMES.join(", ")})`,
+        );
+        process.exit(1);
+      }
+      if (!FONTS.includes(font)) {
+        p.cancel(`Unknown --font "${font}" (use ${FONTS.join(", ")})`);
+        process.exit(1);
+      }
 
-      if (!options.theme && !options.yes) {
+      if (!options.theme && interactive && uiScaffold) {
         const themeMode = await p.select({
           message: "shadcn/ui theme:",
           options: [
             {
               value: "default",
               label: "Default",
-              hint: `Zinc theme with Inter font`,
+              hint: `${THEME_DISPLAY[theme].label} theme with ${FONT_LABELS[font]} font`,
             },
             {
               value: "personalize",
@@ -291,6 +572,7 @@ export const createCommand = new Command("create")
           // Theme color selection
           const themeResult = await p.select({
             message: "Accent color:",
+            initialValue: theme,
             options: ACCENT_THEMES.map((t) => ({
               value: t,
               label: `${THEME_DISPLAY[t].emoji} ${THEME_DISPLAY[t].label}`,
@@ -306,10 +588,11 @@ export const createCommand = new Command("create")
           // Font selection
           const fontResult = await p.select({
             message: "Font family:",
+            initialValue: font,
             options: FONTS.map((f) => ({
               value: f,
               label: FONT_LABELS[f],
-              hint: f === "inter" ? "Default" : undefined,
+              hint: f === DEFAULTS.font ? "Default" : undefined,
             })),
           });
 
@@ -324,12 +607,15 @@ export const createCommand = new Command("create")
       // ========================================
       // STEP 6: State manager selection
       // ========================================
-      let stateManager: StateManager = "zustand";
-      if (!options.yes) {
+      let stateManager: StateManager = uiScaffold
+        ? (answers.state_manager ?? defaults.state_manager ?? "zustand")
+        : "none";
+      if (interactive && isUiTemplate(template)) {
         const smOptions = getStateManagerRecommendations(template, backend);
 
         const smResult = await p.select({
           message: "State management:",
+          initialValue: defaults.state_manager,
           options: smOptions.map((sm) => ({
             value: sm.manager,
             label: sm.recommended
@@ -347,27 +633,208 @@ export const createCommand = new Command("create")
       }
 
       // ========================================
-      // STEP 7: Confirmation
+      // STEP 7: Testing stack
+      // ========================================
+      let testing: TestingStack =
+        (options.testing as TestingStack) ??
+        answers.testing ??
+        (uiScaffold ? (defaults.testing ?? "none") : "none");
+      if (!options.testing && interactive && uiScaffold) {
+        const testingResult = await p.select({
+          message: "Testing:",
+          initialValue: testing,
+          options: [
+            {
+              value: "vitest",
+              label: TESTING_LABELS.vitest,
+              hint: "Unit tests with jsdom and Testing Library",
+            },
+            {
+              value: "vitest-playwright",
+              label: TESTING_LABELS["vitest-playwright"],
+              hint: "Plus end-to-end tests in a real browser",
+            },
+            { value: "none", label: "None", hint: "I'll add tests later" },
+          ],
+        });
+
+        if (p.isCancel(testingResult)) {
+          p.cancel("Operation cancelled");
+          process.exit(0);
+        }
+        testing = testingResult as TestingStack;
+      }
+      if (!TESTING_STACKS.includes(testing)) {
+        p.cancel(
+          `Unknown --testing "${testing}" (use ${TESTING_STACKS.join(", ")})`,
+        );
+        process.exit(1);
+      }
+      if (testing !== "none" && !uiScaffold) {
+        p.cancel(
+          "--testing applies to the web app (next-only, vite-only or turbo-monorepo); the library and api templates come with tests",
+        );
+        process.exit(1);
+      }
+
+      // ========================================
+      // STEP 8: Lint and format tooling
+      // ========================================
+      let lint: Linter =
+        (options.lint as Linter) ??
+        answers.lint ??
+        (template === "none" ? "none" : (defaults.lint ?? "none"));
+      if (!options.lint && interactive && template !== "none") {
+        const lintResult = await p.select({
+          message: "Linting and formatting:",
+          initialValue: lint,
+          options: [
+            {
+              value: "eslint",
+              label: LINTER_LABELS.eslint,
+              hint:
+                template === "turbo-monorepo"
+                  ? "Shared config in @repo/config-eslint"
+                  : "typescript-eslint with Prettier formatting",
+            },
+            {
+              value: "biome",
+              label: LINTER_LABELS.biome,
+              hint: "One fast tool for both",
+            },
+            { value: "none", label: "None", hint: "Keep the template's setup" },
+          ],
+        });
+
+        if (p.isCancel(lintResult)) {
+          p.cancel("Operation cancelled");
+          process.exit(0);
+        }
+        lint = lintResult as Linter;
+      }
+      if (!LINTERS.includes(lint)) {
+        p.cancel(`Unknown --lint "${lint}" (use ${LINTERS.join(", ")})`);
+        process.exit(1);
+      }
+      if (lint !== "none" && template === "none") {
+        p.cancel("--lint needs a built-in template or a plugin with a base");
+        process.exit(1);
+      }
+
+      // ========================================
+      // STEP 9: Extra workspaces (Turborepo only)
+      // ========================================
+      let workspaceSpecs: string[] = options.with ?? answers.workspaces ?? [];
+      if (workspaceSpecs.length > 0 && template !== "turbo-monorepo") {
+        p.cancel("--with only applies to the turbo-monorepo template");
+        process.exit(1);
+      }
+      if (!options.with && interactive && template === "turbo-monorepo") {
+        const workspacesResult = await p.multiselect({
+          message: "Add workspaces? (space to select)",
+          required: false,
+          options: [
+            {
+              value: "library",
+              label: "TypeScript library",
+              hint: "packages/lib (@repo/lib)",
+            },
+            { value: "api", label: "Hono API", hint: "apps/api" },
+          ],
+        });
+
+        if (p.isCancel(workspacesResult)) {
+          p.cancel("Operation cancelled");
+          process.exit(0);
+        }
+        workspaceSpecs = workspacesResult as string[];
+      }
+
+      let workspaces: ExtraWorkspace[];
+      try {
+        workspaces = parseExtraWorkspaces(workspaceSpecs);
+      } catch (error) {
+        p.cancel("Invalid --with");
+        ui.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+
+      // ========================================
+      // STEP 10: CI workflow
+      // ========================================
+      let ci: boolean = options.ci ?? false;
+      if (options.ci === undefined && interactive && template !== "none") {
+        const ciResult = await p.confirm({
+          message: "Add a GitHub Actions CI workflow?",
+          initialValue: false,
+        });
+
+        if (p.isCancel(ciResult)) {
+          p.cancel("Operation cancelled");
+          process.exit(0);
+        }
+        ci = ciResult;
+      }
+
+      // ========================================
+      // STEP 11: Confirmation
       // ========================================
-      if (!options.yes) {
+      if (interactive) {
         console.log();
         console.log(chalk.white("  Project Configuration:"));
         console.log(chalk.gray("  ─────────────────────────────"));
         console.log(
           `  ${chalk.gray("Name:")}        ${chalk.cyan(projectName)}`,
         );
-        console.log(`  ${chalk.gray("Template:")}    ${chalk.cyan(template)}`);
-        console.log(
-          `  ${chalk.gray("Package Mgr:")} ${chalk.cyan(packageManager)}`,
-        );
-        console.log(`  ${chalk.gray("Backend:")}     ${chalk.cyan(backend)}`);
-        console.log(`  ${chalk.gray("Theme:")}       ${chalk.cyan(theme)}`);
+        if (targetDir) {
+          console.log(
+            `  ${chalk.gray("Directory:")}   ${chalk.cyan(displayPath)}${existsSync(projectPath) ? chalk.gray(" (existing)") : ""}`,
+          );
+        }
         console.log(
-          `  ${chalk.gray("Font:")}        ${chalk.cyan(FONT_LABELS[font])}`,
+          `  ${chalk.gray("Template:")}    ${chalk.cyan(plugin ? `${plugin.manifest.name} (plugin, base: ${template})` : template)}`,
         );
         console.log(
-          `  ${chalk.gray("State:")}       ${chalk.cyan(stateManager || "none")}`,
+          `  ${chalk.gray("Package Mgr:")} ${chalk.cyan(packageManager)}`,
         );
+        if (uiScaffold) {
+          console.log(`  ${chalk.gray("Backend:")}     ${chalk.cyan(backend)}`);
+          if (nextApp) {
+            console.log(
+              `  ${chalk.gray("Auth:")}        ${chalk.cyan(AUTH_LABELS[auth])}`,
+            );
+          }
+          console.log(`  ${chalk.gray("Theme:")}       ${chalk.cyan(theme)}`);
+          console.log(
+            `  ${chalk.gray("Font:")}        ${chalk.cyan(FONT_LABELS[font])}`,
+          );
+          console.log(
+            `  ${chalk.gray("State:")}       ${chalk.cyan(stateManager || "none")}`,
+          );
+          console.log(
+            `  ${chalk.gray("Testing:")}     ${chalk.cyan(TESTING_LABELS[testing])}`,
+          );
+        }
+        if (template !== "none") {
+          console.log(
+            `  ${chalk.gray("Lint:")}        ${chalk.cyan(LINTER_LABELS[lint])}`,
+          );
+        }
+        if (workspaces.length > 0) {
+          console.log(
+            `  ${chalk.gray("Workspaces:")}  ${chalk.cyan(workspaces.map(extraWorkspacePath).join(", "))}`,
+          );
+        }
+        if (ci) {
+          console.log(
+            `  ${chalk.gray("CI:")}          ${chalk.cyan("GitHub Actions")}`,
+          );
+        }
+        if (options.offline && uiScaffold) {
+          console.log(
+            `  ${chalk.gray("Scaffold:")}    ${chalk.cyan(`bundled v${OFFLINE_SCAFFOLD_VERSION} (offline)`)}`,
+          );
+        }
         console.log();
 
         const shouldProceed = await p.confirm({
@@ -380,6 +847,34 @@ export const createCommand = new Command("create")
         }
       }
 
+      if (options.saveAnswers) {
+        const answersPath = resolve(
+          options.saveAnswers === true
+            ? DEFAULT_ANSWERS_FILE
+            : options.saveAnswers,
+        );
+        writeAnswers(answersPath, {
+          template: plugin ? pluginSpec(templateName) : template,
+          backend,
+          auth,
+          package_manager: packageManager,
+          theme,
+          font,
+          state_manager: stateManager,
+          testing,
+          lint,
+          workspaces:
+            workspaces.length > 0
+              ? workspaces.map(extraWorkspaceSpec)
+              : undefined,
+          skip_install: options.skipInstall ?? false,
+          skip_git: options.skipGit ?? false,
+          offline: options.offline ?? false,
+          ci,
+        });
+        console.log(chalk.gray(`  Saved answers to ${answersPath}`));
+      }
+
       // ========================================
       // EXECUTION: Create the project
       // ========================================
@@ -389,32 +884,97 @@ export const createCommand = new Command("create")
       const config: ProjectConfig = {
         name: projectName,
         template,
+        plugin,
+        backend,
+        auth,
+        packageManager,
+        theme,
+        font,
+        stateManager,
+        testing,
+        lint,
+        workspaces,
+        ci,
+        offline: options.offline,
+      };
+
+      // Build in a staging folder; only a finished project gets the real
+      // name. The journal keeps the choices so `dx repair` can finish it.
+      const skipGit = options.skipGit || keepGit;
+      const staging = beginTransaction(projectPath, {
+        name: projectName,
+        template,
+        plugin: plugin ? pluginSpec(templateName) : undefined,
         backend,
+        auth,
         packageManager,
         theme,
         font,
         stateManager,
+        testing,
+        lint,
+        workspaces,
+        ci,
+        offline: options.offline,
+        skipInstall: options.skipInstall,
+        skipGit,
+      });
+      tx = staging;
+      logger.init(staging.projectPath);
+      const onInterrupt = () => {
+        console.log();
+        reportRollback(staging, new Error("Interrupted"), options);
+        process.exit(130);
       };
+      process.once("SIGINT", onInterrupt);
+
+      const steps = createSteps(staging.projectPath, config, {
+        ...options,
+        skipGit,
+      });
+      planSteps(staging, steps);
+      const results = await runCreateSteps(
+        steps,
+        staging.journal,
+        staging.journalPath,
+        {
+          interactive: interactive && process.stdin.isTTY,
+          onStart: (step) => markStep(staging, step),
+        },
+      );
+      // Steps skipped after a failure stay in the journal for dx repair
+      const failed = results.filter((result) => result.outcome === "failed");
+      if (plugin) disposeTemplate(plugin);
 
-      // Determine shadcn template type
-      const shadcnTemplate = template === "vite-only" ? "vite" : "next";
+      commitTransaction(staging);
+      process.off("SIGINT", onInterrupt);
+      printStepSummary(results, join(projectPath, ".devkitx", "setup.log"));
 
-      // For monorepo, we'll create structure first then add shadcn to web app
-      if (template === "turbo-monorepo") {
-        await createMonorepoProject(projectPath, config, options);
-      } else {
-        await createSingleProject(projectPath, config, shadcnTemplate, options);
-      }
+      // Make the project visible to list/go/delete right away
+      registerProject(projectPath, "create");
 
       // ========================================
       // SUCCESS
       // ========================================
-      p.outro(chalk.green("Project created successfully!"));
+      if (failed.length > 0) {
+        p.outro(
+          chalk.yellow(
+            `Project created with ${failed.length} failed step(s) - run 'dx repair' in it to retry them`,
+          ),
+        );
+      } else {
+        p.outro(chalk.green("Project created successfully!"));
+      }
+      if (keepGit) {
+        console.log(chalk.gray("  Kept the existing git repository"));
+      }
 
       // Print next steps
       console.log();
       ui.header("Next Steps");
-      console.log(`  ${chalk.cyan("cd")} ${projectName}`);
+      if (displayPath !== ".") {
+        console.log(`  ${chalk.cyan("cd")} ${displayPath}`);
+      }
 
       if (options.skipInstall) {
         console.log(`  ${chalk.cyan(`${packageManager} install`)}`);
@@ -423,14 +983,28 @@ export const createCommand = new Command("create")
       if (backend === "convex" || backend === "both") {
         console.log(`  ${chalk.cyan("npx convex dev")}     # Start Convex`);
       }
+      if (auth === "convex") {
+        console.log(
+          `  ${chalk.cyan("npx @convex-dev/auth")} # Set the Convex Auth keys`,
+        );
+      }
       if (backend === "supabase" || backend === "both") {
         console.log(
           `  ${chalk.cyan("supabase start")}     # Start Supabase locally`,
         );
       }
+      if (testing === "vitest-playwright") {
+        console.log(
+          `  ${chalk.cyan("npx playwright install")} # Download the test browsers`,
+        );
+      }
+      if (ci && backend !== "none") {
+        console.log(
+          `  ${chalk.cyan("dx ci generate")}     # List the secrets CI needs`,
+        );
+      }
 
-      const devCmd =
-        packageManager === "npm" ? "npm run dev" : `${packageManager} dev`;
+      const devCmd = buildRunCommand(packageManager, "dev").join(" ");
       console.log(
         `  ${chalk.cyan(devCmd)}           # Start development server`,
       );
@@ -443,10 +1017,57 @@ export const createCommand = new Command("create")
       p.cancel("Project creation failed");
       console.log();
       ui.error(errorMessage);
+      if (plugin) disposeTemplate(plugin);
+      if (tx) reportRollback(tx, error, options);
       process.exit(1);
     }
   });
 
+/**
+ * Undo a failed create, or point at what was kept with --keep-on-failure
+ */
+function reportRollback(
+  tx: CreateTransaction,
+  error: unknown,
+  options: { keepOnFailure?: boolean },
+): void {
+  // Aborted steps are already marked failed; interrupted ones still run
+  const failedStep =
+    runningStep(tx.journal) ??
+    [...tx.journal.steps].reverse().find((step) => step.status === "failed");
+  const result = rollbackTransaction(tx, error, {
+    keep: options.keepOnFailure,
+  });
+
+  if (failedStep) {
+    console.log(chalk.gray(`  Failed at: ${failedStep.label}`));
+  }
+  switch (result.kind) {
+    case "kept":
+      console.log(chalk.yellow(`  Kept the partial project: ${result.path}`));
+      console.log(chalk.gray(`  Step journal: ${result.journalPath}`));
+      if (result.path === tx.finalPath) {
+        console.log(
+          chalk.gray(
+            `  Finish it with: cd ${basename(result.path)} && dx repair`,
+          ),
+        );
+      }
+      break;
+    case "stuck":
+      console.log(
+        chalk.yellow(`  Could not remove ${result.path} - delete it manually`),
+      );
+      break;
+    case "removed":
+      console.log(
+        chalk.gray(
+          "  Cleaned up the partial project (use --keep-on-failure to keep it and resume with dx repair)",
+        ),
+      );
+  }
+}
+
 // ============================================================================
 // WINDOWS BUN WORKAROUND
 // ============================================================================
@@ -480,147 +1101,823 @@ function getShadcnCreatePackageManager(
 }
 
 // ============================================================================
-// SINGLE PROJECT CREATION (Next.js or Vite)
+// STEP RUNNER
 // ============================================================================
 
-async function createSingleProject(
+interface CreateStep extends Step {
+  /** False when the step cannot run again over its own partial output */
+  resumable?: boolean;
+}
+
+/**
+ * Run the steps, skipping the ones the journal already has as finished,
+ * and save the journal at journalPath after each attempt
+ */
+async function runCreateSteps(
+  steps: CreateStep[],
+  journal: CreateJournal,
+  journalPath: string,
+  options: {
+    interactive?: boolean;
+    onStart?: (step: CreateStep) => void;
+  } = {},
+): Promise<StepResult[]> {
+  return runSteps(steps, {
+    interactive: options.interactive,
+    previous: (step) => {
+      const entry = journalEntry(journal, step);
+      return isFinished(entry)
+        ? (entry.status as "done" | "skipped")
+        : undefined;
+    },
+    onStart: (step) => options.onStart?.(step),
+    onFinish: (step, outcome, error) =>
+      finishStep(journal, journalPath, step, outcome, error),
+  });
+}
+
+/**
+ * The steps for a project, in order. The list only depends on the
+ * choices in CreateInputs so `dx repair` can rebuild it.
+ */
+function createSteps(
   projectPath: string,
   config: ProjectConfig,
-  shadcnTemplate: "next" | "vite",
   options: { skipInstall?: boolean; skipGit?: boolean },
-): Promise<void> {
-  const { name, packageManager, theme, font, backend, stateManager } = config;
-  const parentDir = join(projectPath, "..");
-
-  // Step 1: Run shadcn create command
-  console.log(chalk.gray("  [1/6] Creating project with shadcn..."));
+): CreateStep[] {
+  if (config.template === "none") {
+    return pluginProjectSteps(projectPath, config, options);
+  }
 
-  // Check if we need workaround for Bun on Windows with spaces in path
-  const { pm: createPm, usingWorkaround } = getShadcnCreatePackageManager(
-    projectPath,
-    packageManager,
-  );
+  const steps =
+    config.template === "turbo-monorepo"
+      ? monorepoSteps(projectPath, config, options)
+      : config.template === "library" || config.template === "api"
+        ? packageProjectSteps(projectPath, config, options)
+        : singleProjectSteps(
+            projectPath,
+            config,
+            config.template === "vite-only" ? "vite" : "next",
+            options,
+          );
 
-  if (usingWorkaround) {
-    console.log(
-      chalk.yellow(
-        "  ⚠ Using pnpm for initial setup (Bun has issues with spaces in paths on Windows)",
-      ),
-    );
+  // Plugins with a base are layered on top of the finished scaffold
+  if (config.plugin) {
+    steps.push(...templatePluginSteps(projectPath, config, options));
   }
+  return steps;
+}
 
-  // Set HOME to a temp directory to avoid shadcn scanning user directory
-  const originalHome = process.env.HOME;
-  process.env.HOME = join(projectPath, "..", ".temp_home");
+/**
+ * Finish a create that stopped part-way (kept with --keep-on-failure):
+ * re-run the steps in its checkpoint that never completed, with the
+ * original choices. Throws when a step fails again and is not skipped;
+ * skipped failures stay in the checkpoint. The checkpoint is saved either
+ * way.
+ */
+export async function resumeCreate(
+  projectPath: string,
+  journal: CreateJournal,
+  options: { interactive?: boolean; skipInstall?: boolean } = {},
+): Promise<StepResult[]> {
+  const { inputs } = journal;
+  const plugin = inputs.plugin
+    ? await resolveTemplatePlugin(inputs.plugin)
+    : undefined;
+  const config: ProjectConfig = {
+    name: inputs.name,
+    template: inputs.template,
+    plugin,
+    backend: inputs.backend,
+    auth: inputs.auth ?? "none",
+    packageManager: inputs.packageManager,
+    theme: inputs.theme,
+    font: inputs.font,
+    stateManager: inputs.stateManager,
+    testing: inputs.testing ?? "none",
+    lint: inputs.lint ?? "none",
+    workspaces: inputs.workspaces,
+    ci: inputs.ci,
+    offline: inputs.offline,
+  };
 
-  const createCmd = buildShadcnCreateCommand({
-    packageManager: createPm,
-    template: shadcnTemplate,
-    theme,
-    font,
-    projectName: name,
-  });
+  let results: StepResult[];
+  try {
+    // dx repair --skip-install overrides the original choice
+    const steps = createSteps(projectPath, config, {
+      ...inputs,
+      skipInstall: options.skipInstall || inputs.skipInstall,
+    });
+    const blocked = steps.find(
+      (step) =>
+        step.resumable === false && !isFinished(journalEntry(journal, step)),
+    );
+    if (blocked) {
+      throw new Error(
+        `"${blocked.label}" never finished and cannot be retried in place. Delete ${projectPath} and run dx create again`,
+      );
+    }
 
-  const createProc = Bun.spawn(createCmd, {
-    cwd: parentDir,
-    stdout: "inherit",
-    stderr: "inherit",
-  });
-  await createProc.exited;
+    results = await runCreateSteps(
+      steps,
+      journal,
+      projectJournalPath(projectPath),
+      options,
+    );
+  } finally {
+    if (plugin) disposeTemplate(plugin);
+  }
+
+  if (results.some((result) => result.outcome === "failed")) return results;
+  rmSync(projectJournalPath(projectPath), { force: true });
+  registerProject(projectPath, "create");
+  return results;
+}
+
+// ============================================================================
+// SINGLE PROJECT CREATION (Next.js or Vite)
+// ============================================================================
+
+function singleProjectSteps(
+  projectPath: string,
+  config: ProjectConfig,
+  shadcnTemplate: "next" | "vite",
+  options: { skipInstall?: boolean; skipGit?: boolean },
+): CreateStep[] {
+  const { name, packageManager, backend, stateManager, offline } = config;
+
+  // --offline writes every dependency into the bundled package.json and
+  // installs once, instead of shadcn create / add and per-step installs
+  const scaffold: CreateStep[] = offline
+    ? [
+        offlineScaffoldStep(projectPath, config, shadcnTemplate, name),
+        installStep(projectPath, packageManager, options),
+      ]
+    : [
+        {
+          id: "shadcn-create",
+          label: "Creating project with shadcn",
+          done: "Project created with shadcn",
+          // shadcn create refuses to run in an existing folder
+          resumable: false,
+          run: async () => {
+            await runShadcnCreate(
+              projectPath,
+              join(projectPath, ".."),
+              config,
+              shadcnTemplate,
+              name,
+            );
+            if (!existsSync(projectPath)) {
+              throw new Error(
+                "shadcn create failed - project directory not created",
+              );
+            }
+            await setPackageManagerField(projectPath, packageManager);
+            if (packageManager === "yarn") {
+              await useYarnNodeModules(projectPath);
+            }
+          },
+        },
+        {
+          id: "core-deps",
+          label: "Installing core utilities",
+          done: "Core utilities installed",
+          run: async () => {
+            await installDependencies(projectPath, packageManager, [
+              ...CORE_DEPENDENCIES,
+            ]);
+            // Fix: Downgrade lucide-react to v0.475.0 for ESBuild compatibility
+            await fixLucideReactVersion(projectPath, packageManager);
+          },
+        },
+      ];
+
+  return [
+    ...scaffold,
+    stateManagerStep(projectPath, config, shadcnTemplate),
+    ...(offline ? [] : [baseComponentsStep(projectPath, packageManager)]),
+    testingStep(projectPath, config, shadcnTemplate),
+    {
+      id: "backend",
+      label: `Setting up ${backend}`,
+      done: "Backend configured",
+      skip: backend === "none" ? "Skipping backend setup" : undefined,
+      run: () =>
+        setupBackend(
+          projectPath,
+          backend,
+          packageManager,
+          shadcnTemplate,
+          offline,
+        ),
+    },
+    ...(shadcnTemplate === "next"
+      ? [authStep(projectPath, projectPath, config)]
+      : []),
+    lintStep(
+      projectPath,
+      config,
+      shadcnTemplate === "next" ? "next" : "react",
+      options,
+    ),
+    projectFilesStep(projectPath, config, options),
+  ];
+}
+
+// ============================================================================
+// LIBRARY AND API CREATION
+// ============================================================================
 
-  // Restore HOME
-  process.env.HOME = originalHome;
+/**
+ * The library and api templates: bundled files, one install, no shadcn
+ */
+function packageProjectSteps(
+  projectPath: string,
+  config: ProjectConfig,
+  options: { skipInstall?: boolean; skipGit?: boolean },
+): CreateStep[] {
+  const { name, template, packageManager } = config;
+
+  return [
+    {
+      id: "scaffold",
+      label:
+        template === "api" ? "Writing Hono API" : "Writing TypeScript library",
+      done: "Scaffold written",
+      run: async () => {
+        const files =
+          template === "api"
+            ? writeApi(projectPath, { packageName: name, port: 3000 })
+            : writeLibrary(projectPath, { packageName: name });
+        if (packageManager === "yarn") await useYarnNodeModules(projectPath);
+        return `${files.length} file(s) written`;
+      },
+    },
+    installStep(projectPath, packageManager, options),
+    lintStep(projectPath, config, "base", options),
+    projectFilesStep(projectPath, config, options),
+  ];
+}
 
-  if (!existsSync(projectPath)) {
-    throw new Error("shadcn create failed - project directory not created");
+// ============================================================================
+// MONOREPO PROJECT CREATION
+// ============================================================================
+
+function monorepoSteps(
+  projectPath: string,
+  config: ProjectConfig,
+  options: { skipInstall?: boolean; skipGit?: boolean },
+): CreateStep[] {
+  const { packageManager, backend, offline } = config;
+  const webPath = join(projectPath, "apps", "web");
+
+  const webApp: CreateStep = offline
+    ? offlineScaffoldStep(webPath, config, "next", "web")
+    : {
+        id: "web-app",
+        label: "Creating web app with shadcn",
+        done: "Web app created",
+        run: async () => {
+          // A retried step starts over from an empty apps/web
+          rmSync(webPath, { recursive: true, force: true });
+          await runShadcnCreate(
+            projectPath,
+            join(projectPath, "apps"),
+            config,
+            "next",
+            "web",
+          );
+        },
+      };
+
+  return [
+    {
+      id: "monorepo-structure",
+      label: "Creating monorepo structure",
+      done: "Monorepo structure created",
+      run: () => createMonorepoStructure(projectPath, config),
+    },
+    webApp,
+    {
+      id: "link-web",
+      label: "Linking web app to the shared packages",
+      done: "Web app linked",
+      run: async () => {
+        const skipped = await linkWebApp(projectPath, webPath, packageManager);
+        if (skipped.length > 0) {
+          return `Web app linked; add by hand: ${skipped.join(", ")}`;
+        }
+      },
+    },
+    {
+      id: "mobile-app",
+      label: "Creating Expo mobile app",
+      done: "Mobile app created",
+      run: async () => {
+        const files = writeMobileApp(join(projectPath, "apps", "mobile"), {
+          name: config.name,
+          backend,
+          packageManager,
+        });
+        return `Mobile app created (${files.length} files)`;
+      },
+    },
+    ...(config.workspaces ?? []).map((workspace) =>
+      workspaceStep(projectPath, workspace),
+    ),
+    installStep(projectPath, packageManager, options),
+    ...(offline
+      ? []
+      : [
+          {
+            id: "core-deps",
+            label: "Installing core utilities",
+            done: "Core utilities installed",
+            run: () =>
+              installDependencies(webPath, packageManager, [
+                ...CORE_DEPENDENCIES,
+              ]),
+          },
+        ]),
+    stateManagerStep(webPath, config, "next"),
+    ...(offline ? [] : [baseComponentsStep(webPath, packageManager)]),
+    testingStep(webPath, config, "next"),
+    {
+      id: "backend",
+      label: `Setting up ${backend}`,
+      done: "Backend configured",
+      skip: backend === "none" ? "Skipping backend setup" : undefined,
+      run: () =>
+        setupBackend(projectPath, backend, packageManager, "next", offline),
+    },
+    authStep(projectPath, webPath, config),
+    {
+      id: "ui-imports",
+      label: "Pointing web app imports at @repo/ui",
+      done: "Web app imports @repo/ui",
+      // The testing and auth steps write @/components/ui imports
+      run: async () => {
+        shareUiImports(webPath);
+      },
+    },
+    lintStep(projectPath, config, "next", options),
+    projectFilesStep(projectPath, config, options),
+  ];
+}
+
+/**
+ * A library in packages/<name> or an API in apps/<name>
+ */
+function workspaceStep(
+  projectPath: string,
+  workspace: ExtraWorkspace,
+): CreateStep {
+  const path = extraWorkspacePath(workspace);
+  return {
+    id: `workspace-${workspace.kind}-${workspace.name}`,
+    label: `Creating ${path}`,
+    done: `${path} created`,
+    run: async () => {
+      const dir = join(projectPath, path);
+      const files =
+        workspace.kind === "api"
+          ? writeApi(dir, {
+              packageName: workspace.name,
+              port: workspace.port ?? 3001,
+            })
+          : writeLibrary(dir, {
+              packageName: `@repo/${workspace.name}`,
+              workspace: true,
+            });
+      return `${path} created (${files.length} files)`;
+    },
+  };
+}
+
+// ============================================================================
+// SHARED STEPS
+// ============================================================================
+
+function offlineScaffoldStep(
+  appPath: string,
+  config: ProjectConfig,
+  template: "next" | "vite",
+  packageName: string,
+): CreateStep {
+  return {
+    id: "offline-scaffold",
+    label: `Writing bundled ${template === "next" ? "Next.js" : "Vite"} scaffold`,
+    done: "Scaffold written",
+    run: async () => {
+      const files = writeOfflineScaffold(appPath, {
+        name: packageName,
+        template,
+        theme: config.theme,
+        font: config.font,
+        stateManager: config.stateManager,
+        backend: config.backend,
+        auth: config.auth,
+        testing: config.testing,
+        // Turborepo apps get theirs through @repo/config-eslint
+        lint: config.template === "turbo-monorepo" ? "none" : config.lint,
+      });
+      // The monorepo structure step writes these at the root
+      if (config.template !== "turbo-monorepo") {
+        await setPackageManagerField(appPath, config.packageManager);
+        if (config.packageManager === "yarn") {
+          await useYarnNodeModules(appPath);
+        }
+      }
+      return `${files.length} file(s) written (scaffold v${OFFLINE_SCAFFOLD_VERSION})`;
+    },
+  };
+}
+
+function installStep(
+  projectPath: string,
+  packageManager: PackageManager,
+  options: { skipInstall?: boolean },
+): CreateStep {
+  return {
+    id: "install",
+    label: "Installing dependencies",
+    done: "Dependencies installed",
+    skip: options.skipInstall ? "Skipping dependency installation" : undefined,
+    run: () => runCommand([packageManager, "install"], { cwd: projectPath }),
+  };
+}
+
+function stateManagerStep(
+  appPath: string,
+  config: ProjectConfig,
+  template: "next" | "vite",
+): CreateStep {
+  const { stateManager, packageManager } = config;
+  return {
+    id: "state-manager",
+    label: `Installing ${stateManager}`,
+    done: `${stateManager} installed`,
+    skip: stateManager === "none" ? "Skipping state manager" : undefined,
+    run: async () => {
+      // The offline scaffold already lists it in package.json
+      if (!config.offline) {
+        await installDependencies(
+          appPath,
+          packageManager,
+          STATE_MANAGER_DEPS[stateManager],
+        );
+      }
+      await createStateManagerFiles(appPath, stateManager, template);
+    },
+  };
+}
+
+/**
+ * Sign-in/sign-up pages and route protection in the Next.js app
+ */
+function authStep(
+  projectPath: string,
+  appPath: string,
+  config: ProjectConfig,
+): CreateStep {
+  const { auth, packageManager } = config;
+  return {
+    id: "auth",
+    label: `Setting up ${AUTH_LABELS[auth]}`,
+    done: "Authentication scaffolded",
+    skip: auth === "none" ? "Skipping auth setup" : undefined,
+    run: async () => {
+      if (auth === "none") return;
+      // The offline scaffold already lists these in package.json
+      if (!config.offline) {
+        await installDependencies(
+          appPath,
+          packageManager,
+          authDependencies(auth),
+        );
+      }
+      const skipped = writeAuth(projectPath, appPath, auth);
+      if (skipped.length > 0) {
+        return `Auth scaffolded; add by hand: ${skipped.join(", ")}`;
+      }
+    },
+  };
+}
+
+/**
+ * Vitest (and Playwright) configs, a sample Button test and the test
+ * scripts in the web app
+ */
+function testingStep(
+  appPath: string,
+  config: ProjectConfig,
+  template: "next" | "vite",
+): CreateStep {
+  const { testing, packageManager } = config;
+  return {
+    id: "testing",
+    label: `Setting up ${TESTING_LABELS[testing]}`,
+    done: "Testing configured",
+    skip: testing === "none" ? "Skipping testing setup" : undefined,
+    run: async () => {
+      if (testing === "none") return;
+      // The offline scaffold already lists these in package.json
+      if (!config.offline) {
+        await installDependencies(
+          appPath,
+          packageManager,
+          testingDependencies(testing, template),
+          true,
+        );
+      }
+      const files = writeTesting(appPath, {
+        testing,
+        template,
+        packageManager,
+      });
+      return `Testing configured (${files.length} files)`;
+    },
+  };
+}
+
+/**
+ * ESLint + Prettier or Biome configs, scripts and editor settings. Runs
+ * after every step that writes code: it installs the tools it added and
+ * formats the generated files once, so a new project passes format:check.
+ */
+function lintStep(
+  projectPath: string,
+  config: ProjectConfig,
+  preset: EslintPreset,
+  options: { skipInstall?: boolean },
+): CreateStep {
+  const { lint, packageManager } = config;
+  return {
+    id: "lint",
+    label: `Setting up ${LINTER_LABELS[lint]}`,
+    done: "Linting configured",
+    skip: lint === "none" ? "Skipping lint setup" : undefined,
+    run: async () => {
+      if (lint === "none") return;
+      const files =
+        config.template === "turbo-monorepo"
+          ? writeMonorepoLint(projectPath, lint, packageManager)
+          : writeLint(projectPath, { linter: lint, preset });
+      if (options.skipInstall) {
+        return `Linting configured (${files.length} files); install, then run format`;
+      }
+      await runCommand([packageManager, "install"], { cwd: projectPath });
+      await runCommand(buildRunCommand(packageManager, "format"), {
+        cwd: projectPath,
+      });
+      return `Linting configured and code formatted (${files.length} files)`;
+    },
+  };
+}
+
+function baseComponentsStep(
+  appPath: string,
+  packageManager: PackageManager,
+): CreateStep {
+  return {
+    id: "base-components",
+    label: "Installing base UI components",
+    done: "Base UI components installed",
+    run: () => installBaseComponents(appPath, packageManager),
+  };
+}
+
+function projectFilesStep(
+  projectPath: string,
+  config: ProjectConfig,
+  options: { skipGit?: boolean },
+): CreateStep {
+  return {
+    id: "project-files",
+    label: "Creating project configuration",
+    done: "Project configuration created",
+    run: async () => {
+      await createProjectFiles(projectPath, config);
+      if (!options.skipGit) await initGit(projectPath);
+    },
+  };
+}
+
+// ============================================================================
+// TEMPLATE PLUGINS
+// ============================================================================
+
+/**
+ * Find a plugin by name in ~/.devkitx/templates, or fetch it from a
+ * git/npm source or local folder
+ */
+async function resolveTemplatePlugin(spec: string): Promise<TemplatePlugin> {
+  const installed = findTemplatePlugin(spec);
+  if (installed) return installed;
+
+  if (isTemplateSource(spec)) {
+    console.log(chalk.gray(`  Fetching template ${spec}...`));
+    return fetchTemplate(spec);
   }
-  console.log(chalk.green("  [1/6] ✓ Project created with shadcn"));
 
-  // Step 2: Install core utilities
-  console.log(chalk.gray("  [2/6] Installing core utilities..."));
-  await installDependencies(projectPath, packageManager, [
-    ...CORE_DEPENDENCIES,
-  ]);
-  console.log(chalk.green("  [2/6] ✓ Core utilities installed"));
+  const names = [
+    ...BUILTIN_TEMPLATES,
+    ...listTemplatePlugins().plugins.map((t) => t.manifest.name),
+  ];
+  throw new Error(`Unknown template "${spec}". Available: ${names.join(", ")}`);
+}
 
-  // Fix: Downgrade lucide-react to v0.475.0 for ESBuild compatibility
-  await fixLucideReactVersion(projectPath, packageManager);
+/**
+ * Values available to {{placeholders}} in template files and commands
+ */
+function templateVariables(config: ProjectConfig): Record<string, string> {
+  const { packageManager } = config;
+  return {
+    name: config.name,
+    template: config.plugin?.manifest.name ?? config.template,
+    package_manager: packageManager,
+    pm_run: packageManager === "npm" ? "npm run" : packageManager,
+    pm_exec: buildExecCommand(packageManager).join(" "),
+    theme: config.theme,
+    font: config.font,
+    backend: config.backend,
+    state_manager: config.stateManager,
+    date: new Date().toISOString().split("T")[0],
+    year: String(new Date().getFullYear()),
+  };
+}
 
-  // Step 3: Install state manager
-  if (stateManager !== "none") {
-    console.log(chalk.gray(`  [3/6] Installing ${stateManager}...`));
-    await installDependencies(
-      projectPath,
-      packageManager,
-      STATE_MANAGER_DEPS[stateManager],
-    );
-    await createStateManagerFiles(projectPath, stateManager, shadcnTemplate);
-    console.log(chalk.green(`  [3/6] ✓ ${stateManager} installed`));
-  } else {
-    console.log(chalk.gray("  [3/6] Skipping state manager"));
+/**
+ * What to record as the plugin in the create journal: local folders are
+ * stored as absolute paths so `dx repair` can find them from anywhere
+ */
+function pluginSpec(templateName: string): string {
+  return !findTemplatePlugin(templateName) && existsSync(templateName)
+    ? resolve(templateName)
+    : templateName;
+}
+
+/**
+ * Template plugin without a base: start from an empty folder
+ */
+function pluginProjectSteps(
+  projectPath: string,
+  config: ProjectConfig,
+  options: { skipInstall?: boolean; skipGit?: boolean },
+): CreateStep[] {
+  const [copyFiles, ...rest] = templatePluginSteps(
+    projectPath,
+    config,
+    options,
+  );
+
+  return [
+    {
+      ...copyFiles,
+      run: async () => {
+        mkdirSync(projectPath, { recursive: true });
+        const copied = await copyFiles.run();
+        // Kept when the template brings its own
+        if (config.packageManager === "yarn") {
+          await useYarnNodeModules(projectPath);
+        }
+        return copied;
+      },
+    },
+    ...rest,
+    projectFilesStep(projectPath, config, options),
+  ];
+}
+
+/**
+ * Copy a plugin's files, install its dependencies and run its
+ * post_install commands (one step each)
+ */
+function templatePluginSteps(
+  projectPath: string,
+  config: ProjectConfig,
+  options: { skipInstall?: boolean },
+): CreateStep[] {
+  const plugin = config.plugin!;
+  const vars = templateVariables(config);
+
+  return [
+    {
+      id: "template-files",
+      label: `Copying ${plugin.manifest.name} files`,
+      done: "Template files copied",
+      run: async () => {
+        const files = copyTemplateFiles(plugin, projectPath, vars);
+        return `${files.length} file(s) copied`;
+      },
+    },
+    {
+      id: "template-deps",
+      label: "Installing dependencies",
+      done: "Dependencies installed",
+      skip: options.skipInstall
+        ? "Skipping dependency installation"
+        : undefined,
+      run: () => installTemplateDependencies(projectPath, config),
+    },
+    ...(plugin.manifest.post_install ?? []).map((step, index) => {
+      const command = interpolate(step, vars);
+      return {
+        id: `post-install-${index + 1}`,
+        label: `Running ${command}`,
+        done: `${command} finished`,
+        run: () => runPostInstall(projectPath, command),
+      };
+    }),
+  ];
+}
+
+async function installTemplateDependencies(
+  projectPath: string,
+  config: ProjectConfig,
+): Promise<void> {
+  const { manifest } = config.plugin!;
+  const { packageManager } = config;
+  const workspace = join(projectPath, manifest.workspace ?? ".");
+
+  // Empty-folder templates bring their own package.json
+  if (config.template === "none") {
+    await runCommand([packageManager, "install"], { cwd: projectPath });
   }
 
-  // Step 4: Install base shadcn components
-  console.log(chalk.gray("  [4/6] Installing base UI components..."));
-  const addCmd = buildShadcnAddCommand(packageManager, [
-    ...BASE_SHADCN_COMPONENTS,
-  ]);
-  const addProc = Bun.spawn(addCmd, {
+  await installDependencies(
+    workspace,
+    packageManager,
+    manifest.dependencies ?? [],
+  );
+  await installDependencies(
+    workspace,
+    packageManager,
+    manifest.dev_dependencies ?? [],
+    true,
+  );
+}
+
+async function runPostInstall(
+  projectPath: string,
+  command: string,
+): Promise<void> {
+  await runCommand(buildCommand(command, projectPath, false), {
     cwd: projectPath,
-    stdout: "pipe",
-    stderr: "pipe",
   });
-  await addProc.exited;
-  console.log(chalk.green("  [4/6] ✓ Base UI components installed"));
-
-  // Step 5: Setup backend
-  if (backend !== "none") {
-    console.log(chalk.gray(`  [5/6] Setting up ${backend}...`));
-    await setupBackend(projectPath, backend, packageManager, shadcnTemplate);
-    console.log(chalk.green(`  [5/6] ✓ Backend configured`));
-  } else {
-    console.log(chalk.gray("  [5/6] Skipping backend setup"));
-  }
+}
 
-  // Step 6: Create project.yaml and documentation
-  console.log(chalk.gray("  [6/6] Creating project configuration..."));
-  await createProjectFiles(projectPath, config);
-  console.log(chalk.green("  [6/6] ✓ Project configuration created"));
+// ============================================================================
+// LUCIDE-REACT COMPATIBILITY FIX
+// Downgrade lucide-react to v0.475.0 to avoid ESBuild resolution errors
+// See: https://github.com/lucide-icons/lucide/issues/XXXX
+// ============================================================================
 
-  // Initialize git
-  if (!options.skipGit) {
-    const gitProc = Bun.spawn(["git", "init"], {
-      cwd: projectPath,
-      stdout: "ignore",
-    });
-    await gitProc.exited;
+async function fixLucideReactVersion(
+  projectPath: string,
+  packageManager: PackageManager,
+): Promise<void> {
+  console.log(chalk.gray("  [Fix] Applying lucide-react v0.475.0 fix..."));
+
+  const downgradeCmd = buildAddCommand(packageManager, [
+    "lucide-react@0.475.0",
+  ]);
+
+  try {
+    await runCommand(downgradeCmd, { cwd: projectPath });
+    console.log(
+      chalk.green(
+        "  [Fix] ✓ Downgraded lucide-react to v0.475.0 (ESBuild compatibility)",
+      ),
+    );
+  } catch {
+    console.log(
+      chalk.yellow(
+        "  [Fix] ⚠ Could not downgrade lucide-react (may already be correct version)",
+      ),
+    );
   }
 }
 
 // ============================================================================
-// MONOREPO PROJECT CREATION
+// HELPER FUNCTIONS
 // ============================================================================
 
-async function createMonorepoProject(
+/**
+ * Run `shadcn create` for `projectName` inside `cwd`
+ */
+async function runShadcnCreate(
   projectPath: string,
+  cwd: string,
   config: ProjectConfig,
-  options: { skipInstall?: boolean; skipGit?: boolean },
+  template: "next" | "vite",
+  projectName: string,
 ): Promise<void> {
-  const { name, packageManager, theme, font, backend, stateManager } = config;
-
-  // Step 1: Create monorepo structure
-  console.log(chalk.gray("  [1/8] Creating monorepo structure..."));
-  await createMonorepoStructure(projectPath, config);
-  console.log(chalk.green("  [1/8] ✓ Monorepo structure created"));
-
-  // Step 2: Create web app with shadcn
-  console.log(chalk.gray("  [2/8] Creating web app with shadcn..."));
-  const webPath = join(projectPath, "apps", "web");
-
   // Check if we need workaround for Bun on Windows with spaces in path
   const { pm: createPm, usingWorkaround } = getShadcnCreatePackageManager(
     projectPath,
-    packageManager,
+    config.packageManager,
   );
 
   if (usingWorkaround) {
@@ -631,121 +1928,84 @@ async function createMonorepoProject(
     );
   }
 
-  // Set HOME to a temp directory to avoid shadcn scanning user directory
-  const originalHome = process.env.HOME;
-  process.env.HOME = join(projectPath, "..", ".temp_home");
-
   const createCmd = buildShadcnCreateCommand({
     packageManager: createPm,
-    template: "next",
-    theme,
-    font,
-    projectName: "web",
+    template,
+    theme: config.theme,
+    font: config.font,
+    projectName,
   });
 
-  const createProc = Bun.spawn(createCmd, {
-    cwd: join(projectPath, "apps"),
-    stdout: "inherit",
-    stderr: "inherit",
+  await runCommand(createCmd, {
+    cwd,
+    // A temp HOME keeps shadcn from scanning the user directory
+    env: { ...process.env, HOME: join(projectPath, "..", ".temp_home") },
   });
-  await createProc.exited;
-
-  // Restore HOME
-  process.env.HOME = originalHome;
-  console.log(chalk.green("  [2/8] ✓ Web app created"));
-
-  // Step 3: Install dependencies at root
-  if (!options.skipInstall) {
-    console.log(chalk.gray("  [3/8] Installing monorepo dependencies..."));
-    const installProc = Bun.spawn([packageManager, "install"], {
-      cwd: projectPath,
-      stdout: "inherit",
-      stderr: "inherit",
-    });
-    await installProc.exited;
-    console.log(chalk.green("  [3/8] ✓ Dependencies installed"));
-  } else {
-    console.log(chalk.gray("  [3/8] Skipping dependency installation"));
-  }
-
-  // Step 4: Install core utilities to web app
-  console.log(chalk.gray("  [4/8] Installing core utilities..."));
-  await installDependencies(webPath, packageManager, [...CORE_DEPENDENCIES]);
-  console.log(chalk.green("  [4/8] ✓ Core utilities installed"));
-
-  // Step 5: Install state manager
-  if (stateManager !== "none") {
-    console.log(chalk.gray(`  [5/8] Installing ${stateManager}...`));
-    await installDependencies(
-      webPath,
-      packageManager,
-      STATE_MANAGER_DEPS[stateManager],
-    );
-    await createStateManagerFiles(webPath, stateManager, "next");
-    console.log(chalk.green(`  [5/8] ✓ ${stateManager} installed`));
-  } else {
-    console.log(chalk.gray("  [5/8] Skipping state manager"));
-  }
+}
 
-  // Step 6: Install base shadcn components
-  console.log(chalk.gray("  [6/8] Installing base UI components..."));
+async function installBaseComponents(
+  cwd: string,
+  packageManager: PackageManager,
+): Promise<void> {
   const addCmd = buildShadcnAddCommand(packageManager, [
     ...BASE_SHADCN_COMPONENTS,
   ]);
-  const addProc = Bun.spawn(addCmd, {
-    cwd: webPath,
-    stdout: "pipe",
-    stderr: "pipe",
-  });
-  await addProc.exited;
-  console.log(chalk.green("  [6/8] ✓ Base UI components installed"));
-
-  // Step 7: Setup backend
-  if (backend !== "none") {
-    console.log(chalk.gray(`  [7/8] Setting up ${backend}...`));
-    await setupBackend(projectPath, backend, packageManager, "next");
-    console.log(chalk.green(`  [7/8] ✓ Backend configured`));
-  } else {
-    console.log(chalk.gray("  [7/8] Skipping backend setup"));
-  }
+  await runCommand(addCmd, { cwd });
+}
 
-  // Step 8: Create project.yaml and documentation
-  console.log(chalk.gray("  [8/8] Creating project configuration..."));
-  await createProjectFiles(projectPath, config);
-  console.log(chalk.green("  [8/8] ✓ Project configuration created"));
+/**
+ * Record the package manager in package.json, as the monorepo root does:
+ * corepack runs that version, and yarnFlavor goes by it
+ */
+async function setPackageManagerField(
+  projectPath: string,
+  packageManager: PackageManager,
+): Promise<void> {
+  const packageJsonPath = join(projectPath, "package.json");
+  const packageJson = await Bun.file(packageJsonPath).json();
+  packageJson.packageManager ??= packageManagerField(
+    packageManager,
+    projectPath,
+  );
+  await Bun.write(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`);
+}
 
-  // Initialize git
-  if (!options.skipGit) {
-    const gitProc = Bun.spawn(["git", "init"], {
-      cwd: projectPath,
-      stdout: "ignore",
-    });
-    await gitProc.exited;
-  }
+/**
+ * Yarn berry defaults to Plug'n'Play, which Next.js, Vite and Metro do not
+ * all support; keep a node_modules folder instead. Written with the
+ * scaffold so a later `yarn install` after --skip-install picks it up.
+ */
+async function useYarnNodeModules(projectPath: string): Promise<void> {
+  const yarnrc = join(projectPath, ".yarnrc.yml");
+  if (yarnFlavor(projectPath) === "classic" || existsSync(yarnrc)) return;
+  await Bun.write(yarnrc, "nodeLinker: node-modules\n");
 }
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
+/**
+ * Project name for a folder name: "My App" -> "my-app"
+ */
+function toProjectName(folder: string): string {
+  return folder
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+async function initGit(projectPath: string): Promise<void> {
+  await runCommand(["git", "init"], { cwd: projectPath });
+}
 
 async function installDependencies(
   projectPath: string,
   packageManager: PackageManager,
   deps: string[],
+  dev = false,
 ): Promise<void> {
   if (deps.length === 0) return;
 
-  const cmd =
-    packageManager === "npm"
-      ? ["npm", "install", ...deps]
-      : [packageManager, "add", ...deps];
-
-  const proc = Bun.spawn(cmd, {
+  await runCommand(buildAddCommand(packageManager, deps, dev), {
     cwd: projectPath,
-    stdout: "pipe",
-    stderr: "pipe",
   });
-  await proc.exited;
 }
 
 async function createStateManagerFiles(
@@ -808,18 +2068,25 @@ export const incrementAtom = atom(
 
 async function setupBackend(
   projectPath: string,
-  backend: string,
+  backend: ProjectConfig["backend"],
   packageManager: PackageManager,
   template: "next" | "vite",
+  offline = false,
 ): Promise<void> {
   const webPath = existsSync(join(projectPath, "apps", "web"))
     ? join(projectPath, "apps", "web")
     : projectPath;
 
-  if (backend === "convex" || backend === "both") {
-    // Install Convex
-    await installDependencies(webPath, packageManager, ["convex"]);
+  // The offline scaffold already lists these in package.json
+  if (!offline) {
+    await installDependencies(
+      webPath,
+      packageManager,
+      backendDependencies(backend, template),
+    );
+  }
 
+  if (backend === "convex" || backend === "both") {
     // Create convex directory
     const convexPath = join(projectPath, "convex");
     mkdirSync(convexPath, { recursive: true });
@@ -853,13 +2120,6 @@ export const list = query({
   }
 
   if (backend === "supabase" || backend === "both") {
-    // Install Supabase
-    const supaDeps =
-      template === "next"
-        ? ["@supabase/supabase-js", "@supabase/ssr"]
-        : ["@supabase/supabase-js"];
-    await installDependencies(webPath, packageManager, supaDeps);
-
     const libPath =
       template === "next" ? join(webPath, "lib") : join(webPath, "src", "lib");
     mkdirSync(libPath, { recursive: true });
@@ -906,47 +2166,78 @@ async function createProjectFiles(
   projectPath: string,
   config: ProjectConfig,
 ): Promise<void> {
-  const { name, template, backend, packageManager, theme, font, stateManager } =
-    config;
-
-  // Create project.yaml
-  const projectYaml = `name: ${name}
-version: 1.0.0
-created: ${new Date().toISOString().split("T")[0]}
-
-stack:
-  package_manager: ${packageManager}
-  monorepo: ${template === "turbo-monorepo"}
-  
-  apps:
-    web:
-      framework: ${template === "vite-only" ? "vite" : "next.js 15"}
-      path: ${template === "turbo-monorepo" ? "apps/web" : "."}
-  
-  backend:
-    primary: ${backend}
-  
-  styling:
-    framework: tailwindcss
-    ui_library: shadcn/ui
-    theme: ${theme}
-    font: ${font}
-  
-  state:
-    manager: ${stateManager}
-  
-  libraries:
-    icons: lucide-react
-    animations: framer-motion
-    utilities:
-      - clsx
-      - tailwind-merge
-`;
+  const {
+    name,
+    template,
+    plugin,
+    backend,
+    auth,
+    packageManager,
+    theme,
+    font,
+    stateManager,
+    testing,
+    lint,
+    workspaces,
+  } = config;
+
+  // Create project.yaml, with the plugin's fragment layered on top
+  let projectConfig = createProjectConfig({
+    name,
+    template,
+    templateLabel: plugin?.manifest.name,
+    backend,
+    auth,
+    packageManager,
+    theme,
+    font,
+    stateManager,
+    testing,
+    lint,
+    workspaces,
+  });
+  if (plugin?.manifest.project) {
+    projectConfig = deepMerge(projectConfig, plugin.manifest.project);
+  }
 
-  await Bun.write(join(projectPath, "project.yaml"), projectYaml);
+  const issues = validateAgainstSchema(projectConfig, PROJECT_SCHEMA);
+  if (issues.length > 0) {
+    const source = plugin ? plugin.manifest.name : "dx create";
+    throw new Error(
+      `${source} produced an invalid project.yaml: ${issues
+        .map((issue) => formatIssue("project.yaml", issue))
+        .join("; ")}`,
+    );
+  }
+  await writeProjectConfig(projectConfig, join(projectPath, "project.yaml"));
+
+  // Rendered from the project.yaml just written, same as dx ci generate
+  if (config.ci) writeCiWorkflow(projectPath, projectConfig);
+
+  // project.local.yaml holds per-machine overrides and is never committed
+  const gitignorePath = join(projectPath, ".gitignore");
+  const gitignore = existsSync(gitignorePath)
+    ? await Bun.file(gitignorePath).text()
+    : "";
+  if (!gitignore.split(/\r?\n/).includes(LOCAL_YAML_FILENAME)) {
+    const separator = gitignore && !gitignore.endsWith("\n") ? "\n" : "";
+    await Bun.write(
+      gitignorePath,
+      `${gitignore}${separator}\n# DevKitX local overrides\n${LOCAL_YAML_FILENAME}\n`,
+    );
+  }
 
   // Create documentation files
-  await createDocumentationFramework(projectPath, name, template, backend);
+  await createDocumentationFramework(
+    projectPath,
+    name,
+    template,
+    backend,
+    auth,
+    testing,
+    lint,
+    projectConfig.agent_notes ?? {},
+  );
 }
 
 async function createDocumentationFramework(
@@ -954,7 +2245,40 @@ async function createDocumentationFramework(
   projectName: string,
   template: string,
   backend: string,
+  auth: AuthProvider,
+  testing: TestingStack,
+  lint: Linter,
+  agentNotes: AgentNotes,
 ): Promise<void> {
+  const stack =
+    template === "library"
+      ? [
+          ["Language", "TypeScript"],
+          ["Build", "tsup (ESM + CommonJS + .d.ts)"],
+          ["Tests", "Vitest"],
+        ]
+      : template === "api"
+        ? [
+            ["Runtime", "Bun"],
+            ["Framework", "Hono"],
+            ["Validation", "zod"],
+          ]
+        : [
+            [
+              "Frontend",
+              template === "vite-only"
+                ? "Vite + React 19"
+                : "Next.js 15 (App Router)",
+            ],
+            ["Styling", "Tailwind CSS + shadcn/ui"],
+            ["Backend", backend === "none" ? "None" : backend],
+            ["Auth", AUTH_LABELS[auth]],
+            ["Tests", TESTING_LABELS[testing]],
+            ["Icons", "Lucide React"],
+            ["Animations", "Framer Motion"],
+          ];
+  if (lint !== "none") stack.push(["Lint", LINTER_LABELS[lint]]);
+
   const overviewContent = `# ${projectName}
 
 ## Overview
@@ -965,11 +2289,7 @@ This project was created with DevKitX using the \`${template}\` template.
 
 | Layer | Technology |
 |-------|------------|
-| Frontend | ${template === "vite-only" ? "Vite + React 19" : "Next.js 15 (App Router)"} |
-| Styling | Tailwind CSS + shadcn/ui |
-| Backend | ${backend === "none" ? "None" : backend} |
-| Icons | Lucide React |
-| Animations | Framer Motion |
+${stack.map(([layer, technology]) => `| ${layer} | ${technology} |`).join("\n")}
 
 ## Getting Started
 
@@ -986,39 +2306,8 @@ pnpm dev
 *See AGENT-EDITABLE.md for development notes*
 `;
 
-  const agentContent = `# Agent Workspace
-
-> This file is for AI coding agents to maintain context between sessions.
-
-## Current Session
-
-**Last Updated:** ${new Date().toISOString().split("T")[0]}
-**Status:** Initial setup complete
-
-## Active Context
-
-### What I'm Working On
-
-- [ ] Initial project setup
-
-### Recent Changes
-
-- Created project with DevKitX
-- Template: ${template}
-- Backend: ${backend}
-
-## TODOs
-
-### High Priority
-
-- [ ] Configure environment variables
-- [ ] Set up authentication
-- [ ] Create initial pages/screens
-
----
-
-*Update this file as you work to maintain context for future sessions*
-`;
+  // Generated from agent_notes so `dx notes` can keep it in sync
+  const agentContent = createAgentEditable(agentNotes);
 
   await Promise.all([
     Bun.write(join(projectPath, "PROJECT-OVERVIEW.md"), overviewContent),
@@ -1030,19 +2319,11 @@ async function createMonorepoStructure(
   projectPath: string,
   config: ProjectConfig,
 ): Promise<void> {
-  const { name, packageManager } = config;
-
-  // Create directories
-  const dirs = [
-    "apps",
-    "packages/shared/src",
-    "packages/config-typescript",
-    "packages/config-tailwind",
-  ];
+  const { name, packageManager, theme, font, testing } = config;
+  const e2e = testing === "vitest-playwright";
 
-  for (const dir of dirs) {
-    mkdirSync(join(projectPath, dir), { recursive: true });
-  }
+  mkdirSync(join(projectPath, "apps"), { recursive: true });
+  await createSharedPackages(projectPath, { theme, font, packageManager });
 
   // Root package.json
   const rootPackageJson = {
@@ -1052,15 +2333,21 @@ async function createMonorepoStructure(
       dev: "turbo dev",
       build: "turbo build",
       lint: "turbo lint",
+      test: "turbo test",
+      ...(e2e && { "test:e2e": "turbo test:e2e" }),
+      typecheck: "turbo typecheck",
     },
     devDependencies: {
       turbo: "^2.3.0",
       typescript: "^5.7.0",
     },
-    packageManager: packageManager === "pnpm" ? "pnpm@9.15.0" : undefined,
+    // Turborepo 2 needs the field to resolve workspaces
+    packageManager: packageManagerField(packageManager, projectPath),
+    // pnpm reads its workspaces from pnpm-workspace.yaml instead
+    workspaces:
+      packageManager === "pnpm" ? undefined : ["apps/*", "packages/*"],
   };
 
-  // pnpm-workspace.yaml
   const workspaceYaml = `packages:
   - "apps/*"
   - "packages/*"
@@ -1079,48 +2366,37 @@ async function createMonorepoStructure(
         cache: false,
         persistent: true,
       },
+      // Expo's dev server reads keyboard shortcuts from stdin
+      "mobile#dev": {
+        cache: false,
+        persistent: true,
+        interactive: true,
+      },
       lint: {
         dependsOn: ["^lint"],
       },
+      // Workspace packages resolve to their built dist/
+      test: {
+        dependsOn: ["^build"],
+        outputs: ["coverage/**"],
+      },
+      ...(e2e && {
+        // Starts the dev server and talks to it, nothing to cache
+        "test:e2e": {
+          dependsOn: ["^build"],
+          cache: false,
+        },
+      }),
+      typecheck: {
+        dependsOn: ["^build"],
+      },
     },
-  };
-
-  // Shared package
-  const sharedPackageJson = {
-    name: "@repo/shared",
-    version: "0.1.0",
-    private: true,
-    main: "./src/index.ts",
-    types: "./src/index.ts",
-  };
-
-  const sharedIndex = `// Shared utilities and types
-export function cn(...classes: (string | undefined | null | false)[]): string {
-  return classes.filter(Boolean).join(' ');
-}
-`;
-
-  // Config packages
-  const configTsPackageJson = {
-    name: "@repo/config-typescript",
-    version: "0.1.0",
-    private: true,
-  };
-
-  const baseJson = {
-    $schema: "https://json.schemastore.org/tsconfig",
-    compilerOptions: {
-      strict: true,
-      esModuleInterop: true,
-      skipLibCheck: true,
-      moduleResolution: "bundler",
-      module: "ESNext",
-      target: "ES2022",
-    },
+    globalEnv: ["NEXT_PUBLIC_*", "EXPO_PUBLIC_*"],
   };
 
   const gitignore = `node_modules
 .next
+.expo
 .turbo
 dist
 .env
@@ -1133,24 +2409,18 @@ dist
       join(projectPath, "package.json"),
       JSON.stringify(rootPackageJson, null, 2),
     ),
-    Bun.write(join(projectPath, "pnpm-workspace.yaml"), workspaceYaml),
+    ...(packageManager === "pnpm"
+      ? [
+          Bun.write(join(projectPath, "pnpm-workspace.yaml"), workspaceYaml),
+          // React Native's Metro bundler cannot follow pnpm's symlinks
+          Bun.write(join(projectPath, ".npmrc"), "node-linker=hoisted\n"),
+        ]
+      : []),
+    ...(packageManager === "yarn" ? [useYarnNodeModules(projectPath)] : []),
     Bun.write(
       join(projectPath, "turbo.json"),
       JSON.stringify(turboJson, null, 2),
     ),
-    Bun.write(
-      join(projectPath, "packages/shared/package.json"),
-      JSON.stringify(sharedPackageJson, null, 2),
-    ),
-    Bun.write(join(projectPath, "packages/shared/src/index.ts"), sharedIndex),
-    Bun.write(
-      join(projectPath, "packages/config-typescript/package.json"),
-      JSON.stringify(configTsPackageJson, null, 2),
-    ),
-    Bun.write(
-      join(projectPath, "packages/config-typescript/base.json"),
-      JSON.stringify(baseJson, null, 2),
-    ),
     Bun.write(join(projectPath, ".gitignore"), gitignore),
   ]);
 }
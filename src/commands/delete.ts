@@ -15,8 +15,17 @@ import {
   readFileSync,
 } from "fs";
 import { join, basename, dirname } from "path";
-import { parse } from "yaml";
 import { findProjectYaml, readProjectConfig } from "../lib/project-yaml.js";
+import {
+  defaultSearchRoots,
+  findProjectByName,
+  loadProjects,
+  registerProject,
+  registryExists,
+  scanForProjects,
+  unregisterProject,
+  type RegisteredProject,
+} from "../lib/registry.js";
 import { logger } from "../lib/logger.js";
 import * as ui from "../ui/theme.js";
 
@@ -34,29 +43,6 @@ interface DeletedProject {
   deletedAt: string;
 }
 
-interface ProjectInfo {
-  name: string;
-  path: string;
-  template: string;
-  lastModified: Date;
-}
-
-// Common project locations to search
-const SEARCH_PATHS = [
-  "Documents",
-  "Documents/Projects",
-  "Documents/Local Projects",
-  "Projects",
-  "projects",
-  "dev",
-  "Development",
-  "Code",
-  "code",
-  "repos",
-  "GitHub",
-  "Desktop",
-];
-
 export const deleteCommand = new Command("delete")
   .description("Safely delete a DevKitX project")
   .argument("[path]", "Path or name of project to delete")
@@ -73,10 +59,7 @@ export const deleteCommand = new Command("delete")
 
     // If no path specified, show interactive picker
     if (!pathArg) {
-      const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-
-      console.log(chalk.gray("  Searching for projects..."));
-      const projects = await findAllProjects(homeDir);
+      const projects = getRegisteredProjects();
 
       if (projects.length === 0) {
         ui.error("No DevKitX projects found");
@@ -87,11 +70,6 @@ export const deleteCommand = new Command("delete")
       console.log(chalk.green(`  ✓ Found ${projects.length} project(s)`));
       console.log();
 
-      // Sort by last modified (most recent first)
-      projects.sort(
-        (a, b) => b.lastModified.getTime() - a.lastModified.getTime(),
-      );
-
       const choices = projects.map((proj) => ({
         value: proj,
         label: proj.name,
@@ -108,7 +86,7 @@ export const deleteCommand = new Command("delete")
         return;
       }
 
-      projectPath = (selection as ProjectInfo).path;
+      projectPath = (selection as RegisteredProject).path;
     } else {
       // Check if it's an absolute path
       if (existsSync(pathArg)) {
@@ -120,27 +98,11 @@ export const deleteCommand = new Command("delete")
           projectPath = relativePath;
         } else {
           // Try to find project by name
-          const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-          console.log(chalk.gray(`  Searching for project "${pathArg}"...`));
-          const projects = await findAllProjects(homeDir);
-
-          const lowerName = pathArg.toLowerCase();
-          let foundProject = projects.find(
-            (p) => p.name.toLowerCase() === lowerName,
+          const foundProject = findProjectByName(
+            getRegisteredProjects(),
+            pathArg,
           );
 
-          if (!foundProject) {
-            foundProject = projects.find((p) =>
-              p.name.toLowerCase().startsWith(lowerName),
-            );
-          }
-
-          if (!foundProject) {
-            foundProject = projects.find((p) =>
-              p.name.toLowerCase().includes(lowerName),
-            );
-          }
-
           if (!foundProject) {
             ui.error(`Project not found: ${pathArg}`);
             console.log();
@@ -375,6 +337,8 @@ export const deleteCommand = new Command("delete")
       rmSync(projectPath, { recursive: true, force: true });
       console.log(chalk.green("  [3/3] ✓ Project files removed"));
 
+      unregisterProject(projectPath);
+
       // Save undo information
       if (backupPath && existsSync(backupPath)) {
         const undoInfo: DeletedProject = {
@@ -493,6 +457,7 @@ export const undoCommand = new Command("undo")
       await extractProc.exited;
 
       console.log(chalk.green("  ✓ Project restored"));
+      registerProject(undoInfo.originalPath);
 
       // Remove undo file
       rmSync(UNDO_FILE, { force: true });
@@ -573,106 +538,14 @@ function formatSize(bytes: number): string {
 }
 
 /**
- * Find all DevKitX projects
- */
-async function findAllProjects(homeDir: string): Promise<ProjectInfo[]> {
-  const projects: ProjectInfo[] = [];
-  const searchDepth = 3;
-
-  const pathsToSearch = SEARCH_PATHS.map((p) => join(homeDir, p)).filter((p) =>
-    existsSync(p),
-  );
-
-  for (const searchPath of pathsToSearch) {
-    await findProjectsInDir(searchPath, projects, searchDepth);
-  }
-
-  // Remove duplicates by path
-  const uniqueProjects = projects.filter(
-    (project, index, self) =>
-      index === self.findIndex((p) => p.path === project.path),
-  );
-
-  return uniqueProjects;
-}
-
-/**
- * Recursively find projects in a directory
- */
-async function findProjectsInDir(
-  dir: string,
-  projects: ProjectInfo[],
-  depth: number,
-): Promise<void> {
-  if (depth < 0) return;
-  if (!existsSync(dir)) return;
-
-  try {
-    const hasProjectYaml = existsSync(join(dir, "project.yaml"));
-
-    if (hasProjectYaml) {
-      const projectInfo = await getProjectInfo(dir);
-      if (projectInfo) {
-        projects.push(projectInfo);
-      }
-      return;
-    }
-
-    const entries = readdirSync(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      if (entry.name.startsWith(".")) continue;
-      if (
-        ["node_modules", "dist", ".next", ".turbo", "build"].includes(
-          entry.name,
-        )
-      )
-        continue;
-
-      if (entry.isDirectory()) {
-        const subPath = join(dir, entry.name);
-        await findProjectsInDir(subPath, projects, depth - 1);
-      }
-    }
-  } catch {
-    // Skip directories we can't access
-  }
-}
-
-/**
- * Get project information from a directory
+ * Registered projects, building the registry on first use
  */
-async function getProjectInfo(dir: string): Promise<ProjectInfo | null> {
-  try {
-    const stats = statSync(dir);
-    const name = basename(dir);
-
-    let template = "devkitx";
-
-    try {
-      const yamlContent = readFileSync(join(dir, "project.yaml"), "utf-8");
-      const config = parse(yamlContent);
-
-      if (config.stack?.monorepo) {
-        template = "turbo-monorepo";
-      } else if (config.stack?.apps?.web?.framework) {
-        const framework = config.stack.apps.web.framework;
-        if (framework.includes("next")) template = "next-only";
-        else if (framework.includes("vite")) template = "vite-only";
-      }
-    } catch {
-      template = "devkitx";
-    }
-
-    return {
-      name,
-      path: dir,
-      template,
-      lastModified: stats.mtime,
-    };
-  } catch {
-    return null;
+function getRegisteredProjects(): RegisteredProject[] {
+  if (!registryExists()) {
+    console.log(chalk.gray("  Searching for projects..."));
+    scanForProjects({ roots: defaultSearchRoots() });
   }
+  return loadProjects().projects;
 }
 
 /**
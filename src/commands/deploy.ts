@@ -22,11 +22,8 @@ export const deployCommand = new Command("deploy")
         return;
       }
 
-      const config = await readProjectConfig(yamlPath);
-      if (!config) {
-        ui.error("Failed to read project.yaml");
-        return;
-      }
+      const config = await readProjectConfig(yamlPath).catch(ui.configError);
+      if (!config) return;
 
       console.log();
       p.intro(chalk.bgCyan(chalk.black(" DevKitX - Deploy ")));
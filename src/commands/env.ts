@@ -8,7 +8,11 @@ import chalk from "chalk";
 import { existsSync } from "fs";
 import { join } from "path";
 import * as ui from "../ui/theme.js";
-import { findProjectYaml, readProjectConfig } from "../lib/project-yaml.js";
+import {
+  findProjectYaml,
+  getActiveProfile,
+  readProjectConfig,
+} from "../lib/project-yaml.js";
 
 export const envCommand = new Command("env")
   .description("Manage environment variables across apps")
@@ -220,7 +224,8 @@ async function syncEnvVars() {
     return;
   }
 
-  const config = await readProjectConfig();
+  const config = await readProjectConfig().catch(ui.configError);
+  if (config === undefined) return;
   if (!config?.stack.monorepo) {
     ui.warning("This command is for monorepo projects only");
     return;
@@ -228,6 +233,12 @@ async function syncEnvVars() {
 
   ui.header("Sync Environment Variables");
 
+  const profile = getActiveProfile();
+  if (profile) {
+    console.log(chalk.gray(`  Using apps from profile: ${profile}`));
+    console.log();
+  }
+
   const rootEnvPath = join(projectRoot, ".env.local");
   if (!existsSync(rootEnvPath)) {
     ui.error("No .env.local found in project root");
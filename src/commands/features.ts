@@ -0,0 +1,260 @@
+/**
+ * features command - Manage the feature roadmap in project.yaml
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { existsSync } from "fs";
+import { dirname, isAbsolute, join, relative } from "path";
+import {
+  loadProjectDocument,
+  saveProjectDocument,
+  type FeatureRecord,
+} from "../lib/project-yaml.js";
+import {
+  FEATURE_STAGES,
+  STAGE_LABELS,
+  appendFeature,
+  featureSlug,
+  findFeature,
+  listFeatures,
+  moveFeature,
+  removeFeature,
+  today,
+  type FeatureStage,
+} from "../lib/features.js";
+import * as ui from "../ui/theme.js";
+
+const STAGE_ICONS: Record<FeatureStage, string> = {
+  planned: chalk.gray("○"),
+  in_progress: chalk.yellow("●"),
+  implemented: chalk.green("✓"),
+};
+
+export const featuresCommand = new Command("features")
+  .description("Manage the feature roadmap in project.yaml")
+  .addCommand(
+    new Command("list")
+      .description("Show planned, in-progress and implemented features")
+      .option("--json", "Output as JSON")
+      .action(listCommand),
+    { isDefault: true },
+  )
+  .addCommand(
+    new Command("add")
+      .description("Add a planned feature")
+      .argument("<name>", "Feature name")
+      .option("--prd <file>", "Link a PRD (name or path under docs/prd)")
+      .option("--start", "Add straight to in progress")
+      .action(addCommand),
+  )
+  .addCommand(
+    new Command("start")
+      .description("Move a feature to in progress")
+      .argument("<name>", "Feature name")
+      .option("--prd <file>", "Link a PRD (name or path under docs/prd)")
+      .action((name: string, options: { prd?: string }) =>
+        transition(name, "in_progress", options),
+      ),
+  )
+  .addCommand(
+    new Command("done")
+      .description("Mark a feature as implemented")
+      .argument("<name>", "Feature name")
+      .option("--prd <file>", "Link a PRD (name or path under docs/prd)")
+      .action((name: string, options: { prd?: string }) =>
+        transition(name, "implemented", options),
+      ),
+  )
+  .addCommand(
+    new Command("drop")
+      .description("Remove a feature from the roadmap")
+      .argument("<name>", "Feature name")
+      .action(dropCommand),
+  );
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolve --prd to a project-relative path. Bare names map to
+ * docs/prd/<slug>.prd.md; without --prd an existing file for the
+ * feature's slug is linked automatically.
+ */
+function resolvePrd(
+  projectPath: string,
+  name: string,
+  prd: string | undefined,
+): string | undefined {
+  if (!prd) {
+    const candidate = `docs/prd/${featureSlug(name)}.prd.md`;
+    return existsSync(join(projectPath, candidate)) ? candidate : undefined;
+  }
+
+  const path =
+    prd.includes("/") || prd.includes("\\") || prd.endsWith(".md")
+      ? prd
+      : `docs/prd/${featureSlug(prd)}.prd.md`;
+  const absolute = isAbsolute(path) ? path : join(projectPath, path);
+
+  if (!existsSync(absolute)) {
+    ui.warning(`PRD not found: ${path}`);
+    console.log(
+      chalk.gray(`  Create it with: dx ralph new ${featureSlug(name)}`),
+    );
+  }
+
+  return relative(projectPath, absolute).replace(/\\/g, "/");
+}
+
+function describe(record: FeatureRecord): string {
+  const dates = [
+    record.added && `added ${record.added}`,
+    record.started && `started ${record.started}`,
+    record.completed && `done ${record.completed}`,
+  ].filter(Boolean);
+
+  return [
+    record.name,
+    record.prd ? chalk.cyan(record.prd) : null,
+    dates.length ? chalk.gray(`(${dates.join(", ")})`) : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// ============================================================================
+// SUBCOMMANDS
+// ============================================================================
+
+async function listCommand(options: { json?: boolean }) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+
+  const features = listFeatures(loaded.doc);
+
+  if (options.json) {
+    console.log(JSON.stringify(features, null, 2));
+    return;
+  }
+
+  console.log();
+  ui.header("Features");
+
+  const total = FEATURE_STAGES.reduce((n, s) => n + features[s].length, 0);
+  if (total === 0) {
+    console.log(chalk.gray("  No features yet"));
+    console.log(chalk.gray("  Add one with: dx features add <name>"));
+    console.log();
+    return;
+  }
+
+  for (const stage of ["in_progress", "planned", "implemented"] as const) {
+    if (features[stage].length === 0) continue;
+    console.log(chalk.bold(`  ${STAGE_LABELS[stage]}`));
+    for (const record of features[stage]) {
+      console.log(`    ${STAGE_ICONS[stage]} ${describe(record)}`);
+    }
+  }
+  console.log();
+}
+
+async function addCommand(
+  name: string,
+  options: { prd?: string; start?: boolean },
+) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+  const { doc, yamlPath } = loaded;
+
+  const existing = findFeature(doc, name);
+  if (existing) {
+    ui.error(
+      `"${existing.record.name}" is already ${STAGE_LABELS[existing.stage].toLowerCase()}`,
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const stage: FeatureStage = options.start ? "in_progress" : "planned";
+  const record: FeatureRecord = { name };
+  const prd = resolvePrd(dirname(yamlPath), name, options.prd);
+  if (prd) record.prd = prd;
+  record.added = today();
+  if (options.start) record.started = record.added;
+
+  appendFeature(doc, stage, record);
+  try {
+    await saveProjectDocument(doc, yamlPath);
+  } catch (error) {
+    ui.configError(error);
+    return;
+  }
+
+  ui.success(`Added ${describe(record)} to ${STAGE_LABELS[stage]}`);
+}
+
+async function transition(
+  name: string,
+  stage: FeatureStage,
+  options: { prd?: string },
+) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+  const { doc, yamlPath } = loaded;
+
+  const located = findFeature(doc, name);
+  if (!located) {
+    ui.error(`Feature not found: ${name}`);
+    console.log(chalk.gray("  Run 'dx features list' to see the roadmap"));
+    process.exitCode = 1;
+    return;
+  }
+
+  if (located.stage === stage && !options.prd) {
+    ui.info(`"${located.record.name}" is already ${STAGE_LABELS[stage]}`);
+    return;
+  }
+
+  // Keep an existing link unless --prd replaces it
+  if (options.prd || !located.record.prd) {
+    const prd = resolvePrd(dirname(yamlPath), located.record.name, options.prd);
+    if (prd) located.record.prd = prd;
+  }
+
+  const record = moveFeature(doc, located, stage);
+  try {
+    await saveProjectDocument(doc, yamlPath);
+  } catch (error) {
+    ui.configError(error);
+    return;
+  }
+
+  ui.success(`${describe(record)} → ${STAGE_LABELS[stage]}`);
+}
+
+async function dropCommand(name: string) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+  const { doc, yamlPath } = loaded;
+
+  const located = findFeature(doc, name);
+  if (!located) {
+    ui.error(`Feature not found: ${name}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  removeFeature(doc, located);
+  try {
+    await saveProjectDocument(doc, yamlPath);
+  } catch (error) {
+    ui.configError(error);
+    return;
+  }
+
+  ui.success(
+    `Dropped "${located.record.name}" from ${STAGE_LABELS[located.stage]}`,
+  );
+}
@@ -9,16 +9,16 @@
 import { Command } from "commander";
 import * as p from "@clack/prompts";
 import chalk from "chalk";
+import { writeFileSync, mkdirSync } from "fs";
+import { join, dirname } from "path";
 import {
-  existsSync,
-  readdirSync,
-  readFileSync,
-  statSync,
-  writeFileSync,
-  mkdirSync,
-} from "fs";
-import { join, basename, dirname } from "path";
-import { parse } from "yaml";
+  defaultSearchRoots,
+  findProjectByName,
+  loadProjects,
+  registryExists,
+  scanForProjects,
+  type RegisteredProject,
+} from "../lib/registry.js";
 import * as ui from "../ui/theme.js";
 
 // Temp file for shell integration
@@ -28,39 +28,18 @@ const GO_PATH_FILE = join(
   "go-path.txt",
 );
 
-interface ProjectInfo {
-  name: string;
-  path: string;
-  template: string;
-  lastModified: Date;
-}
-
-// Common project locations to search
-const SEARCH_PATHS = [
-  "Documents",
-  "Documents/Projects",
-  "Documents/Local Projects",
-  "Projects",
-  "projects",
-  "dev",
-  "Development",
-  "Code",
-  "code",
-  "repos",
-  "GitHub",
-  "Desktop",
-];
-
 export const goCommand = new Command("go")
   .description("Switch to a project directory")
   .argument("[name]", "Project name to switch to")
   .option("--path-only", "Output only the path (for shell integration)")
   .option("-l, --list", "List recent projects")
   .action(async (name: string | undefined, options) => {
-    const homeDir = process.env.HOME || process.env.USERPROFILE || "";
+    // First run: build the registry from the usual project folders
+    if (!registryExists()) {
+      scanForProjects({ roots: defaultSearchRoots() });
+    }
 
-    // Find all projects
-    const projects = await findAllProjects(homeDir);
+    const { projects } = loadProjects();
 
     if (projects.length === 0) {
       if (!options.pathOnly) {
@@ -77,16 +56,11 @@ export const goCommand = new Command("go")
       console.log(chalk.gray("  " + "─".repeat(40)));
       console.log();
 
-      // Sort by last modified
-      projects.sort(
-        (a, b) => b.lastModified.getTime() - a.lastModified.getTime(),
-      );
-
       const recentProjects = projects.slice(0, 10);
       for (let i = 0; i < recentProjects.length; i++) {
         const p = recentProjects[i];
         const num = chalk.gray(`${i + 1}.`);
-        const timeAgo = formatTimeAgo(p.lastModified);
+        const timeAgo = formatTimeAgo(new Date(p.lastModified));
         console.log(
           `  ${num} ${chalk.white.bold(p.name.padEnd(25))} ${chalk.gray(timeAgo)}`,
         );
@@ -98,30 +72,12 @@ export const goCommand = new Command("go")
       return;
     }
 
-    let selectedProject: ProjectInfo | undefined;
+    let selectedProject: RegisteredProject | undefined;
 
     if (name) {
-      // Find by name (fuzzy match)
+      // Find by name (exact, then prefix, then substring)
       const lowerName = name.toLowerCase();
-
-      // Exact match first
-      selectedProject = projects.find(
-        (p) => p.name.toLowerCase() === lowerName,
-      );
-
-      // Then starts with
-      if (!selectedProject) {
-        selectedProject = projects.find((p) =>
-          p.name.toLowerCase().startsWith(lowerName),
-        );
-      }
-
-      // Then contains
-      if (!selectedProject) {
-        selectedProject = projects.find((p) =>
-          p.name.toLowerCase().includes(lowerName),
-        );
-      }
+      selectedProject = findProjectByName(projects, name);
 
       if (!selectedProject) {
         if (!options.pathOnly) {
@@ -139,6 +95,11 @@ export const goCommand = new Command("go")
             }
             console.log();
           }
+          console.log(
+            chalk.gray(
+              "  Not listed? Run 'dx register <path>' or 'dx list -r'",
+            ),
+          );
         }
         return;
       }
@@ -154,15 +115,10 @@ export const goCommand = new Command("go")
       console.log(chalk.gray("  " + "─".repeat(40)));
       console.log();
 
-      // Sort by last modified
-      projects.sort(
-        (a, b) => b.lastModified.getTime() - a.lastModified.getTime(),
-      );
-
       const choices = projects.slice(0, 20).map((p) => ({
         value: p,
         label: p.name,
-        hint: `${p.template} - ${formatTimeAgo(p.lastModified)}`,
+        hint: `${p.template} - ${formatTimeAgo(new Date(p.lastModified))}`,
       }));
 
       const selection = await p.select({
@@ -175,7 +131,7 @@ export const goCommand = new Command("go")
         return;
       }
 
-      selectedProject = selection as ProjectInfo;
+      selectedProject = selection as RegisteredProject;
     }
 
     // Output the path
@@ -200,115 +156,6 @@ export const goCommand = new Command("go")
     }
   });
 
-/**
- * Find all DevKitX projects
- */
-async function findAllProjects(homeDir: string): Promise<ProjectInfo[]> {
-  const projects: ProjectInfo[] = [];
-  const searchDepth = 2;
-
-  // Determine search paths
-  const pathsToSearch = SEARCH_PATHS.map((p) => join(homeDir, p)).filter((p) =>
-    existsSync(p),
-  );
-
-  // Search for projects
-  for (const searchPath of pathsToSearch) {
-    await findProjectsInDir(searchPath, projects, searchDepth);
-  }
-
-  // Remove duplicates by path
-  const uniqueProjects = projects.filter(
-    (project, index, self) =>
-      index === self.findIndex((p) => p.path === project.path),
-  );
-
-  return uniqueProjects;
-}
-
-/**
- * Recursively find projects in a directory
- */
-async function findProjectsInDir(
-  dir: string,
-  projects: ProjectInfo[],
-  depth: number,
-): Promise<void> {
-  if (depth < 0) return;
-  if (!existsSync(dir)) return;
-
-  try {
-    // Check if this directory is a DevKitX project
-    const hasProjectYaml = existsSync(join(dir, "project.yaml"));
-
-    if (hasProjectYaml) {
-      const projectInfo = await getProjectInfo(dir);
-      if (projectInfo) {
-        projects.push(projectInfo);
-      }
-      // Don't search subdirectories of a project
-      return;
-    }
-
-    // Search subdirectories
-    const entries = readdirSync(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      // Skip hidden directories and common non-project directories
-      if (entry.name.startsWith(".")) continue;
-      if (
-        ["node_modules", "dist", ".next", ".turbo", "build"].includes(
-          entry.name,
-        )
-      )
-        continue;
-
-      if (entry.isDirectory()) {
-        const subPath = join(dir, entry.name);
-        await findProjectsInDir(subPath, projects, depth - 1);
-      }
-    }
-  } catch {
-    // Skip directories we can't access
-  }
-}
-
-/**
- * Get project information from a directory
- */
-async function getProjectInfo(dir: string): Promise<ProjectInfo | null> {
-  try {
-    const stats = statSync(dir);
-    const name = basename(dir);
-
-    let template = "devkitx";
-
-    try {
-      const yamlContent = readFileSync(join(dir, "project.yaml"), "utf-8");
-      const config = parse(yamlContent);
-
-      if (config.stack?.monorepo) {
-        template = "turbo-monorepo";
-      } else if (config.stack?.apps?.web?.framework) {
-        const framework = config.stack.apps.web.framework;
-        if (framework.includes("next")) template = "next-only";
-        else if (framework.includes("vite")) template = "vite-only";
-      }
-    } catch {
-      template = "devkitx";
-    }
-
-    return {
-      name,
-      path: dir,
-      template,
-      lastModified: stats.mtime,
-    };
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Format a date as relative time
  */
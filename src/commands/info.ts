@@ -5,8 +5,15 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import { readProjectConfig, findProjectYaml } from "../lib/project-yaml.js";
+import { STAGE_LABELS, toFeatureRecord } from "../lib/features.js";
 import * as ui from "../ui/theme.js";
 
+const FEATURE_ICONS = {
+  in_progress: chalk.yellow("●"),
+  implemented: chalk.green("✓"),
+  planned: chalk.gray("○"),
+};
+
 export const infoCommand = new Command("info")
   .description("Display project information from project.yaml")
   .option("-a, --all", "Show all information including agent notes")
@@ -24,11 +31,8 @@ export const infoCommand = new Command("info")
       return;
     }
 
-    const config = await readProjectConfig(yamlPath);
-    if (!config) {
-      ui.error("Failed to parse project.yaml");
-      return;
-    }
+    const config = await readProjectConfig(yamlPath).catch(ui.configError);
+    if (!config) return;
 
     console.log();
     console.log(chalk.bold.cyan(`  ${config.project.name}`));
@@ -91,30 +95,14 @@ export const infoCommand = new Command("info")
       console.log();
       ui.header("Features");
 
-      if (
-        config.features.in_progress &&
-        config.features.in_progress.length > 0
-      ) {
-        console.log(chalk.bold("  In Progress"));
-        for (const feature of config.features.in_progress) {
-          console.log(`    ${chalk.yellow("●")} ${feature}`);
-        }
-      }
-
-      if (
-        config.features.implemented &&
-        config.features.implemented.length > 0
-      ) {
-        console.log(chalk.bold("  Implemented"));
-        for (const feature of config.features.implemented) {
-          console.log(`    ${chalk.green("✓")} ${feature}`);
-        }
-      }
+      for (const stage of ["in_progress", "implemented", "planned"] as const) {
+        const entries = config.features[stage] ?? [];
+        if (entries.length === 0) continue;
 
-      if (config.features.planned && config.features.planned.length > 0) {
-        console.log(chalk.bold("  Planned"));
-        for (const feature of config.features.planned) {
-          console.log(`    ${chalk.gray("○")} ${feature}`);
+        console.log(chalk.bold(`  ${STAGE_LABELS[stage]}`));
+        for (const entry of entries.map(toFeatureRecord)) {
+          const prd = entry.prd ? ` ${chalk.gray(entry.prd)}` : "";
+          console.log(`    ${FEATURE_ICONS[stage]} ${entry.name}${prd}`);
         }
       }
     }
@@ -4,46 +4,33 @@
 
 import { Command } from "commander";
 import chalk from "chalk";
-import { existsSync, readdirSync, statSync, readFileSync } from "fs";
-import { join, basename } from "path";
-import { parse } from "yaml";
+import { existsSync } from "fs";
+import { join, resolve, sep } from "path";
+import {
+  defaultScanDepth,
+  defaultSearchRoots,
+  loadProjects,
+  registryExists,
+  scanForProjects,
+} from "../lib/registry.js";
 import * as ui from "../ui/theme.js";
 
-interface ProjectInfo {
-  name: string;
-  path: string;
-  template: string;
-  backend: string;
-  lastModified: Date;
-  hasNodeModules: boolean;
-  isGitRepo: boolean;
-}
-
-// Common project locations to search
-const SEARCH_PATHS = [
-  "Documents",
-  "Documents/Projects",
-  "Documents/Local Projects",
-  "Projects",
-  "projects",
-  "dev",
-  "Development",
-  "Code",
-  "code",
-  "repos",
-  "GitHub",
-  "Desktop",
-];
-
 export const listCommand = new Command("list")
-  .description("Find and list all DevKitX projects")
-  .option("-p, --path <path>", "Search in specific directory")
+  .description("List registered DevKitX projects")
+  .option(
+    "-p, --path <path>",
+    "Scan a specific directory and register its projects",
+  )
   .option(
     "-a, --all",
     "Include non-DevKitX projects (any project with package.json)",
   )
+  .option("-r, --refresh", "Rescan search folders for new projects")
   .option("--json", "Output as JSON")
-  .option("-d, --depth <depth>", "Search depth (default: 2)", "2")
+  .option(
+    "-d, --depth <depth>",
+    "Search depth when scanning (default: search.depth or 2)",
+  )
   .action(async (options) => {
     console.log();
 
@@ -51,43 +38,57 @@ export const listCommand = new Command("list")
       console.log(chalk.cyan.bold("  DevKitX Projects"));
       console.log(chalk.gray("  " + "─".repeat(50)));
       console.log();
-      console.log(chalk.gray("  Searching for projects..."));
     }
 
-    const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-    const searchDepth = parseInt(options.depth, 10) || 2;
-    const projects: ProjectInfo[] = [];
-
-    // Determine search paths
-    let pathsToSearch: string[] = [];
+    // Scan on first run, on --refresh, for an explicit --path, or with
+    // --all (plain package.json projects are only registered by a scan)
+    if (options.refresh || options.path || options.all || !registryExists()) {
+      if (!options.json) {
+        console.log(chalk.gray("  Searching for projects..."));
+      }
 
-    if (options.path) {
-      pathsToSearch = [options.path];
-    } else {
-      pathsToSearch = SEARCH_PATHS.map((p) => join(homeDir, p)).filter((p) =>
-        existsSync(p),
-      );
-      // Also add current directory
-      pathsToSearch.unshift(process.cwd());
-    }
+      const roots = options.path
+        ? [options.path]
+        : [process.cwd(), ...defaultSearchRoots()];
+      const scan = scanForProjects({
+        roots,
+        depth: parseInt(options.depth, 10) || defaultScanDepth(),
+        includeAll: options.all,
+      });
 
-    // Search for projects
-    for (const searchPath of pathsToSearch) {
-      await findProjects(searchPath, projects, searchDepth, options.all);
+      if (!options.json) {
+        console.log(
+          chalk.gray(
+            `  Scanned ${scan.scannedDirs} folder(s), ${scan.cachedDirs} unchanged`,
+          ),
+        );
+        if (scan.added.length > 0) {
+          console.log(
+            chalk.green(`  ✓ Registered ${scan.added.length} new project(s)`),
+          );
+        }
+      }
     }
 
-    // Remove duplicates by path
-    const uniqueProjects = projects.filter(
-      (project, index, self) =>
-        index === self.findIndex((p) => p.path === project.path),
-    );
+    const { projects, pruned } = loadProjects({ includeAll: options.all });
 
-    // Sort by last modified (most recent first)
-    uniqueProjects.sort(
-      (a, b) => b.lastModified.getTime() - a.lastModified.getTime(),
-    );
+    // --path narrows the listing to that folder
+    const scope = options.path ? resolve(options.path) : null;
+    const uniqueProjects = scope
+      ? projects.filter(
+          (project) =>
+            project.path === scope || project.path.startsWith(scope + sep),
+        )
+      : projects;
 
     if (!options.json) {
+      if (pruned.length > 0) {
+        console.log(
+          chalk.yellow(
+            `  ! Removed ${pruned.length} stale project(s): ${pruned.map((p) => p.name).join(", ")}`,
+          ),
+        );
+      }
       console.log(chalk.green(`  ✓ Found ${uniqueProjects.length} project(s)`));
       console.log();
     }
@@ -98,6 +99,8 @@ export const listCommand = new Command("list")
         console.log();
         console.log(chalk.gray("  Create a new project with:"));
         console.log(chalk.cyan("    dx create my-app"));
+        console.log(chalk.gray("  Or add an existing one with:"));
+        console.log(chalk.cyan("    dx register <path>"));
       } else {
         console.log("[]");
       }
@@ -105,7 +108,17 @@ export const listCommand = new Command("list")
     }
 
     if (options.json) {
-      console.log(JSON.stringify(uniqueProjects, null, 2));
+      console.log(
+        JSON.stringify(
+          uniqueProjects.map((project) => ({
+            ...project,
+            hasNodeModules: existsSync(join(project.path, "node_modules")),
+            isGitRepo: existsSync(join(project.path, ".git")),
+          })),
+          null,
+          2,
+        ),
+      );
       return;
     }
 
@@ -121,11 +134,13 @@ export const listCommand = new Command("list")
     for (const project of uniqueProjects) {
       const name = project.name.padEnd(maxNameLen);
       const template = project.template.padEnd(maxTemplateLen);
-      const timeAgo = formatTimeAgo(project.lastModified);
+      const timeAgo = formatTimeAgo(new Date(project.lastModified));
 
       // Status indicators
-      const gitIcon = project.isGitRepo ? chalk.green("●") : chalk.gray("○");
-      const depsIcon = project.hasNodeModules
+      const gitIcon = existsSync(join(project.path, ".git"))
+        ? chalk.green("●")
+        : chalk.gray("○");
+      const depsIcon = existsSync(join(project.path, "node_modules"))
         ? chalk.green("●")
         : chalk.yellow("○");
 
@@ -161,127 +176,13 @@ export const listCommand = new Command("list")
     console.log(
       chalk.gray("    dx open          ") + chalk.gray("Open in editor"),
     );
+    console.log(
+      chalk.gray("    dx list -r       ") +
+        chalk.gray("Rescan for new projects"),
+    );
     console.log();
   });
 
-/**
- * Recursively find projects in a directory
- */
-async function findProjects(
-  dir: string,
-  projects: ProjectInfo[],
-  depth: number,
-  includeAll: boolean,
-): Promise<void> {
-  if (depth < 0) return;
-  if (!existsSync(dir)) return;
-
-  try {
-    // Check if this directory is a project
-    const hasProjectYaml = existsSync(join(dir, "project.yaml"));
-    const hasPackageJson = existsSync(join(dir, "package.json"));
-
-    if (hasProjectYaml || (includeAll && hasPackageJson)) {
-      const projectInfo = await getProjectInfo(dir, hasProjectYaml);
-      if (projectInfo) {
-        projects.push(projectInfo);
-      }
-      // Don't search subdirectories of a project
-      return;
-    }
-
-    // Search subdirectories
-    const entries = readdirSync(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      // Skip hidden directories and common non-project directories
-      if (entry.name.startsWith(".")) continue;
-      if (
-        ["node_modules", "dist", ".next", ".turbo", "build"].includes(
-          entry.name,
-        )
-      )
-        continue;
-
-      if (entry.isDirectory()) {
-        const subPath = join(dir, entry.name);
-        await findProjects(subPath, projects, depth - 1, includeAll);
-      }
-    }
-  } catch {
-    // Skip directories we can't access
-  }
-}
-
-/**
- * Get project information from a directory
- */
-async function getProjectInfo(
-  dir: string,
-  hasProjectYaml: boolean,
-): Promise<ProjectInfo | null> {
-  try {
-    const stats = statSync(dir);
-    const name = basename(dir);
-
-    let template = "unknown";
-    let backend = "none";
-
-    if (hasProjectYaml) {
-      try {
-        const yamlContent = readFileSync(join(dir, "project.yaml"), "utf-8");
-        const config = parse(yamlContent);
-
-        if (config.stack?.monorepo) {
-          template = "turbo-monorepo";
-        } else if (config.stack?.apps?.web?.framework) {
-          const framework = config.stack.apps.web.framework;
-          if (framework.includes("next")) template = "next-only";
-          else if (framework.includes("vite")) template = "vite-only";
-        }
-
-        if (config.stack?.backend?.primary) {
-          backend = config.stack.backend.primary;
-        }
-      } catch {
-        template = "devkitx";
-      }
-    } else {
-      // Try to detect from package.json
-      try {
-        const pkgJson = JSON.parse(
-          readFileSync(join(dir, "package.json"), "utf-8"),
-        );
-        if (pkgJson.dependencies?.next || pkgJson.devDependencies?.next) {
-          template = "next.js";
-        } else if (pkgJson.devDependencies?.vite) {
-          template = "vite";
-        } else if (pkgJson.dependencies?.expo) {
-          template = "expo";
-        } else if (pkgJson.workspaces || existsSync(join(dir, "turbo.json"))) {
-          template = "monorepo";
-        } else {
-          template = "node";
-        }
-      } catch {
-        template = "node";
-      }
-    }
-
-    return {
-      name,
-      path: dir,
-      template,
-      backend,
-      lastModified: stats.mtime,
-      hasNodeModules: existsSync(join(dir, "node_modules")),
-      isGitRepo: existsSync(join(dir, ".git")),
-    };
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Format a date as relative time
  */
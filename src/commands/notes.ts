@@ -0,0 +1,224 @@
+/**
+ * notes command - Maintain agent_notes in project.yaml and AGENT-EDITABLE.md
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { dirname } from "path";
+import type { Document } from "yaml";
+import {
+  loadProjectDocument,
+  saveProjectDocument,
+} from "../lib/project-yaml.js";
+import {
+  AGENT_EDITABLE_FILENAME,
+  appendNote,
+  findTodo,
+  readAgentNotes,
+  syncAgentEditable,
+} from "../lib/agent-notes.js";
+import { today } from "../lib/features.js";
+import * as ui from "../ui/theme.js";
+
+export const notesCommand = new Command("notes")
+  .description("Maintain agent notes (todos, conventions, context, sessions)")
+  .addCommand(
+    new Command("show")
+      .description("Show agent notes from project.yaml")
+      .option("--json", "Output as JSON")
+      .action(showNotes),
+    { isDefault: true },
+  )
+  .addCommand(
+    new Command("todo")
+      .description("Manage agent todos")
+      .addCommand(
+        new Command("add")
+          .description("Add a todo")
+          .argument("<text...>", "Todo text")
+          .action((text: string[]) => addTodo(text.join(" "))),
+      )
+      .addCommand(
+        new Command("done")
+          .description("Complete a todo (removes it)")
+          .argument("<todo...>", "Todo number or text")
+          .action((query: string[]) => completeTodo(query.join(" "))),
+      ),
+  )
+  .addCommand(
+    new Command("convention")
+      .description("Manage project conventions")
+      .addCommand(
+        new Command("add")
+          .description("Add a convention agents should follow")
+          .argument("<text...>", "Convention text")
+          .action((text: string[]) => addConvention(text.join(" "))),
+      ),
+  )
+  .addCommand(
+    new Command("context").description("Manage the active context").addCommand(
+      new Command("set")
+        .description("Replace what is currently being worked on")
+        .argument("<text...>", "Context text")
+        .action((text: string[]) => setContext(text.join(" "))),
+    ),
+  )
+  .addCommand(
+    new Command("session")
+      .description("Log a dated session entry and update last_session")
+      .argument("<summary...>", "What happened in this session")
+      .action((summary: string[]) => logSession(summary.join(" "))),
+  )
+  .addCommand(
+    new Command("sync")
+      .description(`Regenerate the notes block in ${AGENT_EDITABLE_FILENAME}`)
+      .action(syncNotes),
+  );
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Save project.yaml, then regenerate AGENT-EDITABLE.md
+ */
+async function save(doc: Document, yamlPath: string): Promise<boolean> {
+  try {
+    await saveProjectDocument(doc, yamlPath);
+  } catch (error) {
+    ui.configError(error);
+    return false;
+  }
+  await syncAgentEditable(dirname(yamlPath), readAgentNotes(doc));
+  return true;
+}
+
+// ============================================================================
+// SUBCOMMANDS
+// ============================================================================
+
+async function showNotes(options: { json?: boolean }) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+
+  const notes = readAgentNotes(loaded.doc);
+
+  if (options.json) {
+    console.log(JSON.stringify(notes, null, 2));
+    return;
+  }
+
+  console.log();
+  ui.header("Agent Notes");
+
+  console.log(`  ${chalk.gray("Last session:")} ${notes.last_session ?? "-"}`);
+  console.log(`  ${chalk.gray("Context:")}      ${notes.context || "-"}`);
+
+  console.log();
+  console.log(chalk.bold("  Todos"));
+  if (notes.todos?.length) {
+    notes.todos.forEach((todo, i) => {
+      console.log(
+        `    ${chalk.gray(`${i + 1}.`)} ${chalk.yellow("○")} ${todo}`,
+      );
+    });
+  } else {
+    console.log(chalk.gray("    Nothing pending"));
+  }
+
+  if (notes.conventions?.length) {
+    console.log();
+    console.log(chalk.bold("  Conventions"));
+    for (const convention of notes.conventions) {
+      console.log(`    ${chalk.gray("•")} ${convention}`);
+    }
+  }
+
+  if (notes.sessions?.length) {
+    console.log();
+    console.log(chalk.bold("  Recent Sessions"));
+    for (const session of notes.sessions.slice(-5).reverse()) {
+      console.log(`    ${chalk.gray(session.date)} ${session.summary}`);
+    }
+  }
+  console.log();
+}
+
+async function addTodo(text: string) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+
+  appendNote(loaded.doc, "todos", text);
+  if (!(await save(loaded.doc, loaded.yamlPath))) return;
+
+  const count = readAgentNotes(loaded.doc).todos?.length ?? 0;
+  ui.success(`Added todo ${count}: ${text}`);
+}
+
+async function completeTodo(query: string) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+  const { doc, yamlPath } = loaded;
+
+  const notes = readAgentNotes(doc);
+  const index = findTodo(notes, query);
+  if (index === -1) {
+    ui.error(`No single todo matches "${query}"`);
+    console.log(chalk.gray("  Run 'dx notes' to see numbered todos"));
+    process.exitCode = 1;
+    return;
+  }
+
+  doc.deleteIn(["agent_notes", "todos", index]);
+  if (!(await save(doc, yamlPath))) return;
+
+  ui.success(`Done: ${notes.todos![index]}`);
+}
+
+async function addConvention(text: string) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+
+  appendNote(loaded.doc, "conventions", text);
+  if (!(await save(loaded.doc, loaded.yamlPath))) return;
+
+  ui.success(`Added convention: ${text}`);
+}
+
+async function setContext(text: string) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+
+  loaded.doc.setIn(["agent_notes", "context"], text);
+  if (!(await save(loaded.doc, loaded.yamlPath))) return;
+
+  ui.success("Context updated");
+}
+
+async function logSession(summary: string) {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+  const { doc, yamlPath } = loaded;
+
+  const date = today();
+  appendNote(doc, "sessions", { date, summary });
+  doc.setIn(["agent_notes", "last_session"], date);
+  if (!(await save(doc, yamlPath))) return;
+
+  ui.success(`Logged session ${date}`);
+}
+
+async function syncNotes() {
+  const loaded = await loadProjectDocument().catch(ui.configError);
+  if (!loaded) return;
+
+  const changed = await syncAgentEditable(
+    dirname(loaded.yamlPath),
+    readAgentNotes(loaded.doc),
+  );
+  if (changed) {
+    ui.success(`${AGENT_EDITABLE_FILENAME} updated`);
+  } else {
+    ui.info(`${AGENT_EDITABLE_FILENAME} is already up to date`);
+  }
+}
@@ -9,6 +9,7 @@ import { join, basename } from "path";
 import { parse } from "yaml";
 import { findProjectYaml } from "../lib/project-yaml.js";
 import { openUrl } from "../lib/browser.js";
+import { buildCommand, readGlobalConfigSafe } from "../lib/global-config.js";
 import * as ui from "../ui/theme.js";
 
 export const openCommand = new Command("open")
@@ -159,6 +160,25 @@ async function getAvailableTargets(projectPath: string) {
  * Open project in VS Code
  */
 async function openInEditor(projectPath: string) {
+  const editor = readGlobalConfigSafe().editor;
+
+  if (editor) {
+    const command = buildCommand(editor, projectPath);
+    console.log(chalk.gray(`  Opening in ${command[0]}...`));
+
+    try {
+      const proc = Bun.spawn(command, { stdout: "ignore", stderr: "ignore" });
+      await proc.exited;
+      console.log(chalk.green(`  ✓ Opened in ${command[0]}`));
+    } catch {
+      ui.error(`Failed to run editor: ${editor}`);
+      console.log(
+        chalk.gray("  Change it with: dx config --global set editor <command>"),
+      );
+    }
+    return;
+  }
+
   console.log(chalk.gray("  Opening in VS Code..."));
 
   try {
@@ -174,6 +194,11 @@ async function openInEditor(projectPath: string) {
     console.log(
       chalk.gray("  VS Code > Cmd+Shift+P > 'Shell Command: Install code'"),
     );
+    console.log(
+      chalk.gray(
+        "  Or use another editor: dx config --global set editor cursor",
+      ),
+    );
   }
 }
 
@@ -334,6 +359,27 @@ async function openSupabase(projectPath: string) {
 async function openTerminal(projectPath: string) {
   console.log(chalk.gray("  Opening new terminal..."));
 
+  const terminal = readGlobalConfigSafe().terminal;
+  if (terminal) {
+    try {
+      // Started in the project folder; use {path} for terminals that need it
+      Bun.spawn(buildCommand(terminal, projectPath, false), {
+        cwd: projectPath,
+        stdout: "ignore",
+        stderr: "ignore",
+      });
+      console.log(chalk.green(`  ✓ Opened ${terminal.split(" ")[0]}`));
+    } catch {
+      ui.error(`Failed to run terminal: ${terminal}`);
+      console.log(
+        chalk.gray(
+          "  Change it with: dx config --global set terminal <command>",
+        ),
+      );
+    }
+    return;
+  }
+
   try {
     // Windows Terminal
     const proc = Bun.spawn(["wt", "-d", projectPath], {
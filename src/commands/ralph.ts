@@ -19,6 +19,10 @@ import {
   writeFileSync,
 } from "fs";
 import { spawn } from "child_process";
+import { featureSlug } from "../lib/features.js";
+import { detectPackageManager, findConfigFile } from "../lib/project-detect.js";
+import { LINTER_LABELS, type Linter } from "../lib/lint-scaffold.js";
+import { readProjectConfig, type LintConfig } from "../lib/project-yaml.js";
 
 // ============================================================================
 // MODEL SELECTOR FOR OPENCODE
@@ -1363,28 +1367,20 @@ tasks:
 // HELPER FUNCTIONS
 // ============================================================================
 
-function detectProjectStack(projectPath: string): {
+async function detectProjectStack(projectPath: string): Promise<{
   stack: string;
   testCommand: string;
   buildCommand: string;
   typecheckCommand: string;
   lintCommand: string;
   structure: string;
-} {
-  const hasPackageJson = existsSync(join(projectPath, "package.json"));
-  const hasNextConfig =
-    existsSync(join(projectPath, "next.config.js")) ||
-    existsSync(join(projectPath, "next.config.ts")) ||
-    existsSync(join(projectPath, "next.config.mjs"));
-  const hasViteConfig =
-    existsSync(join(projectPath, "vite.config.ts")) ||
-    existsSync(join(projectPath, "vite.config.js"));
+}> {
+  const hasNextConfig = findConfigFile(projectPath, "next.config") !== null;
+  const hasViteConfig = findConfigFile(projectPath, "vite.config") !== null;
   const hasTurbo = existsSync(join(projectPath, "turbo.json"));
   const hasConvex = existsSync(join(projectPath, "convex"));
-  const hasBunLock = existsSync(join(projectPath, "bun.lock"));
-  const hasPnpmLock = existsSync(join(projectPath, "pnpm-lock.yaml"));
 
-  const pm = hasBunLock ? "bun" : hasPnpmLock ? "pnpm" : "npm";
+  const pm = detectPackageManager(projectPath);
   const pmRun = pm === "npm" ? "npm run" : pm;
 
   let stack = "";
@@ -1432,16 +1428,39 @@ function detectProjectStack(projectPath: string): {
     stack += " + Convex";
   }
 
+  // With a recorded formatter, formatting is checked along with the lint
+  const lint = await readLintConfig(projectPath);
+  if (lint) {
+    stack += ` + ${LINTER_LABELS[lint.linter as Linter] ?? lint.linter}`;
+  }
+
   return {
     stack,
     testCommand: `${pmRun} test`,
     buildCommand: `${pmRun} build`,
     typecheckCommand: `${pmRun} typecheck`,
-    lintCommand: `${pmRun} lint`,
+    lintCommand: lint?.formatter
+      ? `${pmRun} lint && ${pmRun} format:check`
+      : `${pmRun} lint`,
     structure,
   };
 }
 
+/**
+ * stack.lint from project.yaml, as written by `dx create --lint`, with
+ * project.local.yaml and the active profile merged in
+ */
+async function readLintConfig(
+  projectPath: string,
+): Promise<LintConfig | undefined> {
+  try {
+    const config = await readProjectConfig(join(projectPath, "project.yaml"));
+    return config?.stack.lint;
+  } catch {
+    return undefined;
+  }
+}
+
 function findGitBash(): string | null {
   const paths = [
     "C:\\Program Files\\Git\\bin\\bash.exe",
@@ -1469,7 +1488,7 @@ async function initRalph(projectPath: string, options: { force?: boolean }) {
     typecheckCommand,
     lintCommand,
     structure,
-  } = detectProjectStack(projectPath);
+  } = await detectProjectStack(projectPath);
 
   const date = new Date().toISOString().split("T")[0];
 
@@ -2051,13 +2070,10 @@ async function createNewPrd(
   }
 
   const { testCommand, buildCommand, typecheckCommand } =
-    detectProjectStack(projectPath);
+    await detectProjectStack(projectPath);
 
   // Sanitize feature name for filename
-  const filename = featureName
-    .toLowerCase()
-    .replace(/\s+/g, "-")
-    .replace(/[^a-z0-9-]/g, "");
+  const filename = featureSlug(featureName);
 
   const ext = options.yaml ? ".yaml" : ".prd.md";
   const filePath = join(prdDir, `${filename}${ext}`);
@@ -2426,7 +2442,7 @@ ralphCommand
     p.intro(chalk.bgMagenta(chalk.white(" Ralphy - Status ")));
 
     const projectPath = options.path || process.cwd();
-    const { stack } = detectProjectStack(projectPath);
+    const { stack } = await detectProjectStack(projectPath);
 
     console.log(chalk.gray(`  Project: ${basename(projectPath)}`));
     console.log(chalk.gray(`  Stack: ${stack}`));
@@ -0,0 +1,75 @@
+/**
+ * register / unregister commands - Manage the project registry
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import {
+  REGISTRY_PATH,
+  findProjectByName,
+  loadProjects,
+  registerProject,
+  unregisterProject,
+} from "../lib/registry.js";
+import * as ui from "../ui/theme.js";
+
+export const registerCommand = new Command("register")
+  .description("Add a project to the registry used by list, go and delete")
+  .argument("[path]", "Project directory (default: current directory)")
+  .action((pathArg: string | undefined) => {
+    const projectPath = resolve(pathArg ?? process.cwd());
+
+    if (!existsSync(projectPath)) {
+      ui.error(`Directory not found: ${projectPath}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const entry = registerProject(projectPath, "register");
+    if (!entry) {
+      ui.error(`Not a project: ${projectPath}`);
+      console.log(chalk.gray("  No project.yaml or package.json found"));
+      process.exitCode = 1;
+      return;
+    }
+
+    ui.success(`Registered ${entry.name} (${entry.template})`);
+    console.log(chalk.gray(`  ${entry.path}`));
+    if (!entry.devkitx) {
+      console.log(
+        chalk.gray("  No project.yaml - shown with 'dx list --all' only"),
+      );
+    }
+  });
+
+export const unregisterCommand = new Command("unregister")
+  .description("Remove a project from the registry (files are not touched)")
+  .argument("[project]", "Project path or name (default: current directory)")
+  .action((target: string | undefined) => {
+    let projectPath = resolve(target ?? process.cwd());
+
+    // Not a path on disk: look it up by name
+    if (target && !existsSync(projectPath)) {
+      const match = findProjectByName(
+        loadProjects({ includeAll: true }).projects,
+        target,
+      );
+      if (match) projectPath = match.path;
+    }
+
+    const removed = unregisterProject(projectPath, { ignore: true });
+    if (!removed) {
+      ui.error(`Not registered: ${target ?? projectPath}`);
+      console.log(chalk.gray(`  Registry: ${REGISTRY_PATH}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    ui.success(`Unregistered ${removed.name}`);
+    console.log(chalk.gray(`  ${removed.path}`));
+    console.log(
+      chalk.gray("  Rescans will skip it; 'dx register' adds it back"),
+    );
+  });
@@ -6,17 +6,29 @@ import { Command } from "commander";
 import * as p from "@clack/prompts";
 import chalk from "chalk";
 import { existsSync, mkdirSync } from "fs";
-import { join } from "path";
+import { dirname, join } from "path";
 import { findProjectYaml, readProjectConfig } from "../lib/project-yaml.js";
+import { isFinished, readJournal } from "../lib/create-transaction.js";
+import {
+  createPackageFiles,
+  SHARED_PACKAGES,
+  sharedPackageOptions,
+} from "../lib/monorepo-packages.js";
+import type { PackageManager } from "../lib/shadcn-config.js";
+import {
+  printStepSummary,
+  runCommand,
+  runSteps,
+  type Step,
+  type StepResult,
+} from "../lib/step-runner.js";
+import { resumeCreate } from "./create.js";
 import { logger } from "../lib/logger.js";
 import * as ui from "../ui/theme.js";
 
 interface RepairIssue {
   type:
-    | "missing_package"
-    | "missing_file"
-    | "missing_directory"
-    | "install_failed";
+    "missing_package" | "missing_file" | "missing_directory" | "install_failed";
   path: string;
   description: string;
   fix: () => Promise<void>;
@@ -45,6 +57,16 @@ export const repairCommand = new Command("repair")
       console.log(chalk.gray("  Looking for project.yaml..."));
       const yamlPath = findProjectYaml();
 
+      // A create kept with --keep-on-failure may not have reached project.yaml
+      const createPath = [
+        process.cwd(),
+        yamlPath ? dirname(yamlPath) : null,
+      ].find((dir) => dir && readJournal(dir));
+      if (createPath) {
+        await resumeIncompleteCreate(createPath, options);
+        return;
+      }
+
       if (!yamlPath) {
         ui.error(
           "No project.yaml found. This doesn't appear to be a DevKitX project.",
@@ -74,11 +96,8 @@ export const repairCommand = new Command("repair")
 
       // Read config with feedback
       console.log(chalk.gray("  Reading project configuration..."));
-      const config = await readProjectConfig(yamlPath);
-      if (!config) {
-        ui.error("Failed to read project.yaml");
-        return;
-      }
+      const config = await readProjectConfig(yamlPath).catch(ui.configError);
+      if (!config) return;
       console.log(chalk.green("  ✓ Configuration loaded"));
 
       // Scan for issues
@@ -139,131 +158,148 @@ export const repairCommand = new Command("repair")
         return;
       }
 
-      // Fix issues with progress
+      // Fix issues, then reinstall if anything was missing
       console.log();
       console.log(chalk.cyan("Fixing issues..."));
-      let fixed = 0;
-      let failed = 0;
-
-      for (let i = 0; i < issues.length; i++) {
-        const issue = issues[i];
-        const progress = `[${i + 1}/${issues.length}]`;
-
-        console.log(
-          chalk.gray(`  ${progress} Fixing: ${issue.description}...`),
-        );
-
-        try {
-          logger.step(`Fixing: ${issue.description}`);
+      // The schema limits package_manager to the supported managers
+      const pm = config.stack.package_manager as PackageManager;
+      const steps: Step[] = issues.map((issue) => ({
+        id: issue.path,
+        label: `Fixing: ${issue.description}`,
+        done: `Fixed: ${issue.description}`,
+        run: async () => {
           await issue.fix();
-          logger.stepComplete(issue.description);
-          console.log(
-            chalk.green(`  ${progress} ✓ Fixed: ${issue.description}`),
-          );
-          fixed++;
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          logger.stepFailed(issue.description, error);
-          console.log(
-            chalk.red(`  ${progress} ✗ Failed: ${issue.description}`),
-          );
-          if (options.verbose) {
-            console.log(chalk.red(`      Error: ${errorMessage}`));
-          }
-          failed++;
-        }
-      }
-
-      console.log();
-      console.log(
-        chalk.cyan(
-          `Fixed ${fixed} issue(s)${failed > 0 ? `, ${failed} failed` : ""}`,
-        ),
-      );
-
-      // Reinstall dependencies if needed
+        },
+      }));
       if (
         !options.skipInstall &&
         issues.some(
           (i) => i.type === "missing_package" || i.type === "install_failed",
         )
       ) {
-        console.log();
-        console.log(chalk.cyan("Reinstalling dependencies..."));
-        console.log(chalk.gray("  This may take a few minutes..."));
-
-        try {
-          const installProc = Bun.spawn(["pnpm", "install"], {
-            cwd: projectPath,
-            stdout: "inherit",
-            stderr: "inherit",
-          });
+        steps.push({
+          id: "install",
+          label: `Reinstalling dependencies (${pm} install)`,
+          done: "Dependencies installed successfully",
+          run: async () => {
+            await runCommand([pm, "install"], { cwd: projectPath });
+          },
+        });
+      }
 
-          const exitCode = await installProc.exited;
-
-          if (exitCode === 0) {
-            console.log(chalk.green("  ✓ Dependencies installed successfully"));
-            logger.success("pnpm install completed");
-          } else {
-            console.log(chalk.yellow("  ! Dependency installation had issues"));
-            console.log(
-              chalk.gray("    Run 'pnpm install' manually to see details"),
-            );
-            logger.error("pnpm install failed");
-          }
-        } catch (error) {
-          console.log(chalk.red("  ✗ Failed to run pnpm install"));
-          logger.error("pnpm install error", error);
-        }
+      let results: StepResult[];
+      try {
+        results = await runSteps(steps, { interactive: !options.yes });
+      } catch {
+        p.outro(chalk.red("Repair aborted"));
+        console.log(chalk.gray("Check the log file for details:"));
+        console.log(chalk.gray(`  ${logger.file}`));
+        process.exitCode = 1;
+        return;
       }
+      printStepSummary(results, logger.file ?? undefined);
 
+      const failed = results.filter((result) => result.outcome === "failed");
       console.log();
-      if (failed === 0) {
+      if (failed.length === 0) {
         p.outro(chalk.green("Project repaired successfully!"));
       } else {
         p.outro(
-          chalk.yellow(`Repair completed with ${failed} issue(s) remaining`),
-        );
-        console.log();
-        console.log(chalk.gray("Check the log file for details:"));
-        console.log(
-          chalk.gray(`  ${join(projectPath, ".devkitx", "setup.log")}`),
+          chalk.yellow(
+            `Repair completed with ${failed.length} issue(s) remaining`,
+          ),
         );
       }
     },
   );
 
+/**
+ * Re-run the steps of an unfinished dx create, using the choices saved in
+ * its create-journal.json
+ */
+async function resumeIncompleteCreate(
+  projectPath: string,
+  options: { yes?: boolean; skipInstall?: boolean },
+): Promise<void> {
+  const journal = readJournal(projectPath)!;
+  const { inputs } = journal;
+  const pending = journal.steps.filter((step) => !isFinished(step));
+
+  console.log(chalk.yellow(`  ! dx create did not finish for ${inputs.name}`));
+  console.log();
+  ui.header("Create Steps");
+  for (const step of journal.steps) {
+    const icon =
+      step.status === "done"
+        ? chalk.green("✓")
+        : step.status === "skipped"
+          ? chalk.gray("-")
+          : step.status === "failed"
+            ? chalk.red("✗")
+            : chalk.gray("○");
+    console.log(`  ${icon} ${step.label}`);
+    if (step.error) console.log(`    ${chalk.gray(step.error)}`);
+  }
+  console.log();
+  console.log(
+    chalk.gray(
+      `  Template: ${inputs.plugin ?? inputs.template}, backend: ${inputs.backend}, theme: ${inputs.theme}, font: ${inputs.font}, state: ${inputs.stateManager}`,
+    ),
+  );
+  console.log();
+
+  if (!options.yes) {
+    const confirmResult = await p.confirm({
+      message: `Re-run ${pending.length} incomplete step(s)?`,
+    });
+
+    if (p.isCancel(confirmResult) || !confirmResult) {
+      p.cancel("Repair cancelled");
+      return;
+    }
+  }
+
+  console.log();
+  console.log(chalk.cyan("Resuming project creation..."));
+
+  logger.init(projectPath);
+  let results: StepResult[];
+  try {
+    results = await resumeCreate(projectPath, journal, {
+      interactive: !options.yes,
+      skipInstall: options.skipInstall,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.log();
+    ui.error(errorMessage);
+    console.log(
+      chalk.gray("  Fix the problem and run 'dx repair' again to retry"),
+    );
+    process.exitCode = 1;
+    return;
+  }
+  printStepSummary(results, logger.file ?? undefined);
+
+  console.log();
+  if (results.some((result) => result.outcome === "failed")) {
+    p.outro(
+      chalk.yellow("Some steps failed again - run 'dx repair' to retry them"),
+    );
+    process.exitCode = 1;
+    return;
+  }
+  p.outro(chalk.green("Project created successfully!"));
+}
+
 async function scanMonorepoIssues(
   projectPath: string,
   config: any,
   issues: RepairIssue[],
 ): Promise<void> {
   // Check required packages
-  const requiredPackages = [
-    {
-      name: "@repo/shared",
-      path: "packages/shared",
-      files: ["package.json", "src/index.ts"],
-    },
-    {
-      name: "@repo/ui",
-      path: "packages/ui",
-      files: ["package.json", "src/index.ts"],
-    },
-    {
-      name: "@repo/config-typescript",
-      path: "packages/config-typescript",
-      files: ["package.json", "base.json"],
-    },
-    {
-      name: "@repo/config-tailwind",
-      path: "packages/config-tailwind",
-      files: ["package.json", "tailwind.config.ts"],
-    },
-  ];
-
-  for (const pkg of requiredPackages) {
+  const packageOptions = sharedPackageOptions(config);
+  for (const pkg of SHARED_PACKAGES) {
     const pkgPath = join(projectPath, pkg.path);
 
     if (!existsSync(pkgPath)) {
@@ -273,7 +309,12 @@ async function scanMonorepoIssues(
         description: `Missing package directory: ${pkg.name}`,
         fix: async () => {
           mkdirSync(pkgPath, { recursive: true });
-          await createPackageFiles(projectPath, pkg.name, pkg.path);
+          await createPackageFiles(
+            projectPath,
+            pkg.name,
+            pkg.path,
+            packageOptions,
+          );
         },
       });
     } else {
@@ -286,7 +327,12 @@ async function scanMonorepoIssues(
             path: join(pkg.path, file),
             description: `Missing file in ${pkg.name}: ${file}`,
             fix: async () => {
-              await createPackageFiles(projectPath, pkg.name, pkg.path);
+              await createPackageFiles(
+                projectPath,
+                pkg.name,
+                pkg.path,
+                packageOptions,
+              );
             },
           });
         }
@@ -356,252 +402,3 @@ async function scanStandaloneIssues(
     });
   }
 }
-
-async function createPackageFiles(
-  projectPath: string,
-  packageName: string,
-  packagePath: string,
-): Promise<void> {
-  const fullPath = join(projectPath, packagePath);
-  mkdirSync(fullPath, { recursive: true });
-
-  switch (packageName) {
-    case "@repo/config-typescript":
-      await createConfigTypescriptPackage(fullPath);
-      break;
-    case "@repo/config-tailwind":
-      await createConfigTailwindPackage(fullPath);
-      break;
-    case "@repo/ui":
-      await createUiPackage(fullPath);
-      break;
-    case "@repo/shared":
-      await createSharedPackage(fullPath);
-      break;
-  }
-}
-
-async function createConfigTypescriptPackage(pkgPath: string): Promise<void> {
-  const packageJson = {
-    name: "@repo/config-typescript",
-    version: "0.1.0",
-    private: true,
-    license: "MIT",
-    publishConfig: { access: "public" },
-  };
-
-  const baseJson = {
-    $schema: "https://json.schemastore.org/tsconfig",
-    compilerOptions: {
-      strict: true,
-      strictNullChecks: true,
-      esModuleInterop: true,
-      skipLibCheck: true,
-      forceConsistentCasingInFileNames: true,
-      moduleResolution: "bundler",
-      module: "ESNext",
-      target: "ES2022",
-      lib: ["ES2022"],
-      resolveJsonModule: true,
-      isolatedModules: true,
-      incremental: true,
-      declaration: true,
-      declarationMap: true,
-    },
-  };
-
-  const nextJson = {
-    $schema: "https://json.schemastore.org/tsconfig",
-    extends: "./base.json",
-    compilerOptions: {
-      lib: ["dom", "dom.iterable", "ES2022"],
-      jsx: "preserve",
-      noEmit: true,
-      plugins: [{ name: "next" }],
-    },
-  };
-
-  const reactLibraryJson = {
-    $schema: "https://json.schemastore.org/tsconfig",
-    extends: "./base.json",
-    compilerOptions: {
-      lib: ["dom", "dom.iterable", "ES2022"],
-      jsx: "react-jsx",
-    },
-  };
-
-  await Promise.all([
-    Bun.write(
-      join(pkgPath, "package.json"),
-      JSON.stringify(packageJson, null, 2),
-    ),
-    Bun.write(join(pkgPath, "base.json"), JSON.stringify(baseJson, null, 2)),
-    Bun.write(join(pkgPath, "nextjs.json"), JSON.stringify(nextJson, null, 2)),
-    Bun.write(
-      join(pkgPath, "react-library.json"),
-      JSON.stringify(reactLibraryJson, null, 2),
-    ),
-  ]);
-}
-
-async function createConfigTailwindPackage(pkgPath: string): Promise<void> {
-  const packageJson = {
-    name: "@repo/config-tailwind",
-    version: "0.1.0",
-    private: true,
-    exports: { ".": "./tailwind.config.ts" },
-    devDependencies: { tailwindcss: "^3.4.0" },
-  };
-
-  const tailwindConfig = `import type { Config } from "tailwindcss";
-
-const config: Omit<Config, "content"> = {
-  darkMode: ["class"],
-  theme: {
-    extend: {
-      colors: {
-        background: "hsl(var(--background))",
-        foreground: "hsl(var(--foreground))",
-        muted: {
-          DEFAULT: "hsl(var(--muted))",
-          foreground: "hsl(var(--muted-foreground))",
-        },
-        primary: {
-          DEFAULT: "hsl(var(--primary))",
-          foreground: "hsl(var(--primary-foreground))",
-        },
-      },
-    },
-  },
-  plugins: [],
-};
-
-export default config;
-`;
-
-  await Promise.all([
-    Bun.write(
-      join(pkgPath, "package.json"),
-      JSON.stringify(packageJson, null, 2),
-    ),
-    Bun.write(join(pkgPath, "tailwind.config.ts"), tailwindConfig),
-  ]);
-}
-
-async function createUiPackage(pkgPath: string): Promise<void> {
-  mkdirSync(join(pkgPath, "src"), { recursive: true });
-
-  const packageJson = {
-    name: "@repo/ui",
-    version: "0.1.0",
-    private: true,
-    exports: {
-      ".": "./src/index.ts",
-      "./components/*": "./src/components/*.tsx",
-    },
-    devDependencies: {
-      "@repo/config-typescript": "workspace:*",
-      "@types/react": "^19.0.0",
-      "@types/react-dom": "^19.0.0",
-      typescript: "^5.7.0",
-    },
-    peerDependencies: {
-      react: "^18.0.0 || ^19.0.0",
-      "react-dom": "^18.0.0 || ^19.0.0",
-    },
-  };
-
-  const indexTs = `// Shared UI components
-
-export function cn(...classes: (string | undefined | null | false)[]): string {
-  return classes.filter(Boolean).join(" ");
-}
-`;
-
-  const tsconfig = {
-    extends: "@repo/config-typescript/react-library.json",
-    compilerOptions: { outDir: "./dist", rootDir: "./src" },
-    include: ["src"],
-    exclude: ["node_modules", "dist"],
-  };
-
-  await Promise.all([
-    Bun.write(
-      join(pkgPath, "package.json"),
-      JSON.stringify(packageJson, null, 2),
-    ),
-    Bun.write(join(pkgPath, "src/index.ts"), indexTs),
-    Bun.write(
-      join(pkgPath, "tsconfig.json"),
-      JSON.stringify(tsconfig, null, 2),
-    ),
-  ]);
-}
-
-async function createSharedPackage(pkgPath: string): Promise<void> {
-  mkdirSync(join(pkgPath, "src/types"), { recursive: true });
-  mkdirSync(join(pkgPath, "src/utils"), { recursive: true });
-
-  const packageJson = {
-    name: "@repo/shared",
-    version: "0.1.0",
-    private: true,
-    main: "./src/index.ts",
-    types: "./src/index.ts",
-    exports: {
-      ".": "./src/index.ts",
-      "./utils": "./src/utils/index.ts",
-      "./types": "./src/types/index.ts",
-    },
-    devDependencies: {
-      "@repo/config-typescript": "workspace:*",
-      typescript: "^5.7.0",
-    },
-  };
-
-  const indexTs = `export * from "./types";
-export * from "./utils";
-`;
-
-  const typesIndex = `export interface User {
-  id: string;
-  email: string;
-  name?: string;
-  createdAt: Date;
-}
-`;
-
-  const utilsIndex = `export function formatDate(date: Date): string {
-  return new Intl.DateTimeFormat("en-US", {
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  }).format(date);
-}
-
-export function cn(...classes: (string | undefined | null | false)[]): string {
-  return classes.filter(Boolean).join(" ");
-}
-`;
-
-  const tsconfig = {
-    extends: "@repo/config-typescript/base.json",
-    compilerOptions: { outDir: "./dist", rootDir: "./src" },
-    include: ["src"],
-    exclude: ["node_modules", "dist"],
-  };
-
-  await Promise.all([
-    Bun.write(
-      join(pkgPath, "package.json"),
-      JSON.stringify(packageJson, null, 2),
-    ),
-    Bun.write(join(pkgPath, "src/index.ts"), indexTs),
-    Bun.write(join(pkgPath, "src/types/index.ts"), typesIndex),
-    Bun.write(join(pkgPath, "src/utils/index.ts"), utilsIndex),
-    Bun.write(
-      join(pkgPath, "tsconfig.json"),
-      JSON.stringify(tsconfig, null, 2),
-    ),
-  ]);
-}
@@ -7,7 +7,19 @@ import chalk from "chalk";
 import { existsSync, readFileSync, statSync, readdirSync } from "fs";
 import { join, basename } from "path";
 import { parse } from "yaml";
-import { findProjectYaml, readProjectConfig } from "../lib/project-yaml.js";
+import {
+  LOCAL_YAML_FILENAME,
+  findProjectYaml,
+  getActiveProfile,
+  readProjectConfig,
+  type ProjectConfig,
+} from "../lib/project-yaml.js";
+import { validateProjectYaml } from "../lib/project-schema.js";
+import {
+  LINTER_LABELS,
+  findLintConfig,
+  type Linter,
+} from "../lib/lint-scaffold.js";
 import * as ui from "../ui/theme.js";
 
 interface HealthCheck {
@@ -51,11 +63,23 @@ export const statusCommand = new Command("status")
     // 1. Check project.yaml
     const hasProjectYaml = existsSync(join(projectPath, "project.yaml"));
     if (hasProjectYaml) {
-      checks.push({
-        name: "DevKitX Project",
-        status: "ok",
-        message: "Valid project.yaml found",
-      });
+      const issues = validateProjectYaml(
+        readFileSync(join(projectPath, "project.yaml"), "utf-8"),
+      );
+      if (issues.length === 0) {
+        checks.push({
+          name: "DevKitX Project",
+          status: "ok",
+          message: "Valid project.yaml found",
+        });
+      } else {
+        checks.push({
+          name: "DevKitX Project",
+          status: "error",
+          message: `project.yaml has ${issues.length} validation issue(s)`,
+          details: "Run 'dx config validate' for details",
+        });
+      }
     } else {
       checks.push({
         name: "DevKitX Project",
@@ -64,6 +88,30 @@ export const statusCommand = new Command("status")
       });
     }
 
+    // Merged view (project.local.yaml + --profile); issues are reported above
+    let config: ProjectConfig | null = null;
+    if (hasProjectYaml) {
+      config = await readProjectConfig(join(projectPath, "project.yaml")).catch(
+        () => null,
+      );
+
+      const profile = getActiveProfile();
+      const hasLocal = existsSync(join(projectPath, LOCAL_YAML_FILENAME));
+      if (profile || hasLocal) {
+        checks.push({
+          name: "Overrides",
+          status: config ? "info" : "error",
+          message: [
+            hasLocal ? LOCAL_YAML_FILENAME : null,
+            profile ? `profile "${profile}"` : null,
+          ]
+            .filter(Boolean)
+            .join(" + "),
+          details: config ? undefined : "Run 'dx info' to see the merge errors",
+        });
+      }
+    }
+
     // 2. Check package.json and dependencies
     const packageJsonPath = join(projectPath, "package.json");
     if (existsSync(packageJsonPath)) {
@@ -209,7 +257,27 @@ export const statusCommand = new Command("status")
       }
     }
 
-    // 6. Check for lock file consistency
+    // 6. Check the lint tooling project.yaml records
+    const lint = config?.stack.lint;
+    if (lint) {
+      const label = LINTER_LABELS[lint.linter as Linter] ?? lint.linter;
+      const configFile = findLintConfig(projectPath, lint.linter);
+      checks.push(
+        configFile
+          ? { name: "Lint", status: "ok", message: label, details: configFile }
+          : {
+              name: "Lint",
+              status: "warn",
+              message: `${label} recorded but not configured`,
+              details:
+                lint.linter === "biome"
+                  ? "No biome.json found"
+                  : "No eslint.config.* or packages/config-eslint found",
+            },
+      );
+    }
+
+    // 7. Check for lock file consistency
     const hasPackageLock = existsSync(join(projectPath, "package-lock.json"));
     const hasPnpmLock = existsSync(join(projectPath, "pnpm-lock.yaml"));
     const hasYarnLock = existsSync(join(projectPath, "yarn.lock"));
@@ -250,7 +318,7 @@ export const statusCommand = new Command("status")
       });
     }
 
-    // 7. Check .env files
+    // 8. Check .env files
     const envFiles = [
       ".env",
       ".env.local",
@@ -272,7 +340,7 @@ export const statusCommand = new Command("status")
       });
     }
 
-    // 8. Check disk usage
+    // 9. Check disk usage
     const projectSize = await getDirSizeQuick(projectPath);
     checks.push({
       name: "Disk Usage",
@@ -284,8 +352,8 @@ export const statusCommand = new Command("status")
           : undefined,
     });
 
-    // 9. Check for running dev servers
-    await checkDevServers(projectPath, checks);
+    // 10. Check for running dev servers
+    await checkDevServers(projectPath, checks, config);
 
     // Output results
     if (options.json) {
@@ -332,10 +400,19 @@ export const statusCommand = new Command("status")
 /**
  * Check for running development servers
  */
-async function checkDevServers(projectPath: string, checks: HealthCheck[]) {
+async function checkDevServers(
+  projectPath: string,
+  checks: HealthCheck[],
+  config: ProjectConfig | null,
+) {
   try {
-    // Check common dev server ports
-    const ports = [3000, 3001, 5173, 5174, 4000, 8080];
+    // Check configured app ports first, then common dev server ports
+    const configuredPorts = Object.values(config?.stack.apps ?? {})
+      .map((app) => app.port)
+      .filter((port): port is number => port !== undefined);
+    const ports = [
+      ...new Set([...configuredPorts, 3000, 3001, 5173, 5174, 4000, 8080]),
+    ];
 
     for (const port of ports) {
       try {
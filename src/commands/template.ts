@@ -0,0 +1,158 @@
+/**
+ * template command - Install and manage template plugins for dx create
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import {
+  BUILTIN_TEMPLATES,
+  MANIFEST_FILENAME,
+  TEMPLATES_DIR,
+  disposeTemplate,
+  fetchTemplate,
+  isBuiltinTemplate,
+  installTemplate,
+  listTemplatePlugins,
+  loadTemplatePlugin,
+  removeTemplate,
+} from "../lib/templates.js";
+import * as ui from "../ui/theme.js";
+
+export const templateCommand = new Command("template")
+  .description("Manage template plugins used by dx create")
+  .addCommand(
+    new Command("list")
+      .description("List built-in and installed templates")
+      .option("--json", "Output as JSON")
+      .action(listTemplates),
+    { isDefault: true },
+  )
+  .addCommand(
+    new Command("add")
+      .description(`Install a template into ${TEMPLATES_DIR}`)
+      .argument(
+        "<source>",
+        "Local folder, github:user/repo, git URL or npm:package",
+      )
+      .action(addTemplate),
+  )
+  .addCommand(
+    new Command("remove")
+      .description("Uninstall a template")
+      .argument("<name>", "Template name")
+      .action(uninstallTemplate),
+  )
+  .addCommand(
+    new Command("validate")
+      .description(`Check a template folder's ${MANIFEST_FILENAME}`)
+      .argument("[dir]", "Template folder (default: current directory)")
+      .action(validateTemplate),
+  );
+
+// ============================================================================
+// SUBCOMMANDS
+// ============================================================================
+
+function listTemplates(options: { json?: boolean }) {
+  const { plugins, errors } = listTemplatePlugins();
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          builtin: BUILTIN_TEMPLATES,
+          plugins: plugins.map((t) => ({ ...t.manifest, dir: t.dir })),
+          errors: errors.map(({ dir, error }) => ({
+            dir,
+            error: error instanceof Error ? error.message : String(error),
+          })),
+        },
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+
+  console.log();
+  ui.header("Templates");
+
+  console.log(chalk.bold("  Built-in"));
+  for (const name of BUILTIN_TEMPLATES) {
+    console.log(`    ${chalk.cyan(name)}`);
+  }
+
+  console.log();
+  console.log(chalk.bold("  Plugins"));
+  if (plugins.length === 0) {
+    console.log(chalk.gray(`    None installed in ${TEMPLATES_DIR}`));
+    console.log(chalk.gray("    Add one with: dx template add <source>"));
+  }
+  for (const { manifest } of plugins) {
+    const base = manifest.base ?? "none";
+    const shadowed = isBuiltinTemplate(manifest.name)
+      ? chalk.yellow(" (hidden by the built-in of the same name)")
+      : "";
+    console.log(
+      `    ${chalk.cyan(manifest.name)} ${chalk.gray(`base: ${base}`)}${shadowed}`,
+    );
+    if (manifest.description) {
+      console.log(chalk.gray(`      ${manifest.description}`));
+    }
+  }
+
+  for (const { error } of errors) {
+    console.log();
+    ui.configError(error);
+  }
+  console.log();
+}
+
+async function addTemplate(source: string) {
+  console.log();
+  console.log(chalk.gray(`  Fetching ${source}...`));
+
+  try {
+    const fetched = await fetchTemplate(source);
+    const installed = installTemplate(fetched);
+    disposeTemplate(fetched);
+
+    ui.success(`Installed template ${installed.manifest.name}`);
+    console.log(chalk.gray(`  ${installed.dir}`));
+    console.log(
+      chalk.gray(
+        `  Use it with: dx create my-app --template ${installed.manifest.name}`,
+      ),
+    );
+  } catch (error) {
+    ui.configError(error);
+    process.exitCode = 1;
+  }
+}
+
+function uninstallTemplate(name: string) {
+  let removed: boolean;
+  try {
+    removed = removeTemplate(name);
+  } catch (error) {
+    ui.configError(error);
+    return;
+  }
+  if (!removed) {
+    ui.error(`Template not installed: ${name}`);
+    console.log(chalk.gray("  Run 'dx template list' to see installed ones"));
+    process.exitCode = 1;
+    return;
+  }
+  ui.success(`Removed template ${name}`);
+}
+
+function validateTemplate(dir: string | undefined) {
+  try {
+    const { manifest } = loadTemplatePlugin(dir ?? process.cwd());
+    ui.success(`${manifest.name}: ${MANIFEST_FILENAME} is valid`);
+  } catch (error) {
+    ui.configError(error);
+    process.exitCode = 1;
+  }
+}
@@ -19,6 +19,15 @@ import { statusCommand } from "./commands/status.js";
 import { openCommand } from "./commands/open.js";
 import { goCommand } from "./commands/go.js";
 import { ralphCommand } from "./commands/ralph.js";
+import { configCommand } from "./commands/config.js";
+import { featuresCommand } from "./commands/features.js";
+import { notesCommand } from "./commands/notes.js";
+import { ciCommand } from "./commands/ci.js";
+import { containerCommand } from "./commands/container.js";
+import { registerCommand, unregisterCommand } from "./commands/register.js";
+import { adoptCommand } from "./commands/adopt.js";
+import { templateCommand } from "./commands/template.js";
+import { setActiveProfile } from "./lib/project-yaml.js";
 
 const VERSION = "0.1.2-beta";
 
@@ -36,8 +45,20 @@ program
   .name("devkitx")
   .description("Developer toolkit for modern web development")
   .version(VERSION)
+  .option(
+    "--profile <name>",
+    "Apply a named profile from project.yaml (or set DEVKITX_PROFILE)",
+  )
   .addHelpText("beforeAll", banner);
 
+// Make --profile visible to every command that reads project.yaml
+program.hook("preAction", () => {
+  const { profile } = program.opts<{ profile?: string }>();
+  if (profile) {
+    setActiveProfile(profile);
+  }
+});
+
 // Alias support - dx is the shortcut
 if (process.argv[1]?.includes("dx")) {
   program.name("dx");
@@ -46,6 +67,8 @@ if (process.argv[1]?.includes("dx")) {
 // Register commands
 program.addCommand(docsCommand);
 program.addCommand(createCommand);
+program.addCommand(adoptCommand);
+program.addCommand(templateCommand);
 program.addCommand(infoCommand);
 program.addCommand(envCommand);
 program.addCommand(deployCommand);
@@ -53,17 +76,27 @@ program.addCommand(repairCommand);
 program.addCommand(deleteCommand);
 program.addCommand(undoCommand);
 program.addCommand(listCommand);
+program.addCommand(registerCommand);
+program.addCommand(unregisterCommand);
 program.addCommand(cleanCommand);
 program.addCommand(statusCommand);
 program.addCommand(openCommand);
 program.addCommand(goCommand);
 program.addCommand(ralphCommand);
+program.addCommand(configCommand);
+program.addCommand(featuresCommand);
+program.addCommand(notesCommand);
+program.addCommand(ciCommand);
+program.addCommand(containerCommand);
 
 // Default action - show help with banner
 program.action(() => {
   console.log(banner);
   console.log(chalk.white("Project Commands:"));
   console.log(chalk.cyan("  create <name>") + "   Create a new project");
+  console.log(
+    chalk.cyan("  adopt [path]") + "    Add project.yaml to an existing repo",
+  );
   console.log(chalk.cyan("  info") + "            Show project information");
   console.log(chalk.cyan("  status") + "          Check project health");
   console.log(
@@ -73,9 +106,23 @@ program.action(() => {
   console.log(
     chalk.cyan("  repair") + "          Fix incomplete project setup",
   );
+  console.log(chalk.cyan("  config validate") + " Validate project.yaml");
+  console.log(chalk.cyan("  features [cmd]") + "  Manage the feature roadmap");
+  console.log(
+    chalk.cyan("  notes [cmd]") + "     Update agent notes and todos",
+  );
+  console.log(
+    chalk.cyan("  ci generate") + "     Write the GitHub Actions workflow",
+  );
+  console.log(
+    chalk.cyan("  container init") + "  Dev container, Dockerfile and compose",
+  );
   console.log();
   console.log(chalk.white("Management Commands:"));
   console.log(chalk.cyan("  list") + "            List all DevKitX projects");
+  console.log(
+    chalk.cyan("  register [path]") + " Add a project to the registry",
+  );
   console.log(chalk.cyan("  go [name]") + "       Switch to a project");
   console.log(chalk.cyan("  open [target]") + "   Open in editor/browser");
   console.log(chalk.cyan("  clean") + "           Remove build artifacts");
@@ -84,6 +131,9 @@ program.action(() => {
   console.log();
   console.log(chalk.white("Other Commands:"));
   console.log(chalk.cyan("  docs <topic>") + "    Open documentation");
+  console.log(
+    chalk.cyan("  template [cmd]") + "  Manage dx create template plugins",
+  );
   console.log(
     chalk.cyan("  ralph [cmd]") + "     Ralph Loop setup and PRD management",
   );
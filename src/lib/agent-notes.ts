@@ -0,0 +1,171 @@
+/**
+ * Agent Notes
+ * Edits agent_notes in a project.yaml Document and renders the matching
+ * block of AGENT-EDITABLE.md, so agents reading either see the same state
+ */
+
+import { existsSync } from "fs";
+import { join } from "path";
+import { isSeq, type Document } from "yaml";
+import type { AgentNotes } from "./project-yaml.js";
+
+export const AGENT_EDITABLE_FILENAME = "AGENT-EDITABLE.md";
+
+const BLOCK_START = "<!-- devkitx:agent-notes:start -->";
+const BLOCK_END = "<!-- devkitx:agent-notes:end -->";
+
+// Older session entries stay in project.yaml; the markdown shows the latest
+const MAX_RENDERED_SESSIONS = 10;
+
+// ============================================================================
+// PROJECT.YAML EDITS
+// ============================================================================
+
+export function readAgentNotes(doc: Document): AgentNotes {
+  return (doc.toJS()?.agent_notes ?? {}) as AgentNotes;
+}
+
+/**
+ * Append to an agent_notes list, switching "[]" to block style
+ */
+export function appendNote(
+  doc: Document,
+  key: "todos" | "conventions" | "sessions",
+  value: unknown,
+): void {
+  const list = doc.getIn(["agent_notes", key], true);
+  if (isSeq(list)) {
+    list.flow = false;
+    list.add(doc.createNode(value));
+  } else {
+    doc.setIn(["agent_notes", key], doc.createNode([value]));
+  }
+}
+
+/**
+ * Find a todo by 1-based number or by (case-insensitive) text match
+ */
+export function findTodo(notes: AgentNotes, query: string): number {
+  const todos = notes.todos ?? [];
+
+  if (/^\d+$/.test(query)) {
+    const index = Number(query) - 1;
+    return index >= 0 && index < todos.length ? index : -1;
+  }
+
+  const needle = query.toLowerCase();
+  const exact = todos.findIndex((todo) => todo.toLowerCase() === needle);
+  if (exact !== -1) return exact;
+
+  const partial = todos
+    .map((todo, index) => ({ todo, index }))
+    .filter(({ todo }) => todo.toLowerCase().includes(needle));
+  return partial.length === 1 ? partial[0].index : -1;
+}
+
+// ============================================================================
+// AGENT-EDITABLE.MD
+// ============================================================================
+
+/**
+ * Render the generated section of AGENT-EDITABLE.md
+ */
+export function renderAgentNotes(notes: AgentNotes): string {
+  const lines = [
+    BLOCK_START,
+    "<!-- Generated from agent_notes in project.yaml - update with `dx notes` -->",
+    "",
+    "## Current Session",
+    "",
+    `**Last Updated:** ${notes.last_session ?? "-"}`,
+    "",
+    "## Active Context",
+    "",
+    notes.context || "_No context recorded_",
+    "",
+    "## TODOs",
+    "",
+    ...list(notes.todos, (todo) => `- [ ] ${todo}`, "_Nothing pending_"),
+    "",
+    "## Conventions",
+    "",
+    ...list(notes.conventions, (c) => `- ${c}`, "_None recorded_"),
+    "",
+    "## Session Log",
+    "",
+    ...list(
+      notes.sessions?.slice(-MAX_RENDERED_SESSIONS).reverse(),
+      (session) => `- **${session.date}** - ${session.summary}`,
+      "_No sessions yet_",
+    ),
+    "",
+    BLOCK_END,
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Full AGENT-EDITABLE.md for a new project
+ */
+export function createAgentEditable(notes: AgentNotes): string {
+  return `# Agent Workspace
+
+> This file is for AI coding agents to maintain context between sessions.
+
+${renderAgentNotes(notes)}
+
+---
+
+*Anything outside the generated block is yours to edit and is kept in sync*
+`;
+}
+
+/**
+ * Rewrite the generated block of AGENT-EDITABLE.md, keeping everything
+ * around it. Files without the block get it inserted after the title.
+ * Returns false when the file did not need to change.
+ */
+export async function syncAgentEditable(
+  projectPath: string,
+  notes: AgentNotes,
+): Promise<boolean> {
+  const filePath = join(projectPath, AGENT_EDITABLE_FILENAME);
+
+  if (!existsSync(filePath)) {
+    await Bun.write(filePath, createAgentEditable(notes));
+    return true;
+  }
+
+  const current = await Bun.file(filePath).text();
+  const block = renderAgentNotes(notes);
+  const start = current.indexOf(BLOCK_START);
+  const end = current.indexOf(BLOCK_END);
+
+  let next: string;
+  if (start !== -1 && end > start) {
+    next =
+      current.slice(0, start) + block + current.slice(end + BLOCK_END.length);
+  } else {
+    // Files from older versions of `dx create`: keep them and add the block
+    const titleEnd = current.startsWith("# ") ? current.indexOf("\n") + 1 : 0;
+    next =
+      current.slice(0, titleEnd) +
+      "\n" +
+      block +
+      "\n\n" +
+      current.slice(titleEnd).replace(/^\n+/, "");
+  }
+
+  if (next === current) return false;
+  await Bun.write(filePath, next);
+  return true;
+}
+
+function list<T>(
+  items: T[] | undefined,
+  format: (item: T) => string,
+  empty: string,
+): string[] {
+  return items && items.length > 0 ? items.map(format) : [empty];
+}
@@ -0,0 +1,170 @@
+/**
+ * API Scaffold
+ * The `api` template: a Hono server on Bun with env validated by zod at
+ * startup, typed routes (the AppType export feeds hono/client) and a
+ * /health route. Used for standalone projects and for apps/<name> in a
+ * Turborepo project.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+export interface ApiOptions {
+  /** package.json name */
+  packageName: string;
+  /** Default PORT when the environment has none */
+  port: number;
+}
+
+const VERSIONS: Record<string, string> = {
+  hono: "^4.9.0",
+  zod: "^4.1.0",
+  "@hono/zod-validator": "^0.7.3",
+  "@types/bun": "^1.2.20",
+  typescript: "^5.9.2",
+};
+
+/**
+ * Every file of the API, keyed by path relative to its folder
+ */
+export function apiFiles(options: ApiOptions): Record<string, string> {
+  const { port } = options;
+
+  return {
+    "package.json": json({
+      name: options.packageName,
+      version: "0.1.0",
+      private: true,
+      type: "module",
+      scripts: {
+        dev: "bun run --hot src/index.ts",
+        start: "bun run src/index.ts",
+        build: "bun build src/index.ts --target bun --outdir dist",
+        test: "bun test",
+        typecheck: "tsc --noEmit",
+      },
+      dependencies: versions(["@hono/zod-validator", "hono", "zod"]),
+      devDependencies: versions(["@types/bun", "typescript"]),
+    }),
+    "tsconfig.json": json({
+      compilerOptions: {
+        target: "ESNext",
+        lib: ["ESNext"],
+        module: "Preserve",
+        moduleResolution: "bundler",
+        moduleDetection: "force",
+        types: ["bun"],
+        strict: true,
+        noUncheckedIndexedAccess: true,
+        skipLibCheck: true,
+        verbatimModuleSyntax: true,
+        noEmit: true,
+      },
+      include: ["src"],
+    }),
+    "src/env.ts": `import { z } from "zod";
+
+/**
+ * Environment variables, checked once at startup so a bad value fails
+ * fast instead of on the first request
+ */
+const envSchema = z.object({
+  NODE_ENV: z
+    .enum(["development", "test", "production"])
+    .default("development"),
+  PORT: z.coerce.number().int().positive().default(${port}),
+});
+
+const parsed = envSchema.safeParse(process.env);
+if (!parsed.success) {
+  console.error("Invalid environment variables:");
+  console.error(z.prettifyError(parsed.error));
+  process.exit(1);
+}
+
+export const env = parsed.data;
+`,
+    "src/app.ts": `import { Hono } from "hono";
+import { logger } from "hono/logger";
+import { hello } from "./routes/hello";
+
+// Chained so AppType carries every route for hono/client
+export const app = new Hono()
+  .use(logger())
+  .get("/health", (c) =>
+    c.json({ status: "ok" as const, uptime: process.uptime() }),
+  )
+  .route("/hello", hello);
+
+export type AppType = typeof app;
+`,
+    "src/routes/hello.ts": `import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+
+export const hello = new Hono().get(
+  "/",
+  zValidator("query", z.object({ name: z.string().min(1).default("world") })),
+  (c) => {
+    const { name } = c.req.valid("query");
+    return c.json({ message: \`Hello, \${name}!\` });
+  },
+);
+`,
+    "src/index.ts": `import { app } from "./app";
+import { env } from "./env";
+
+export default {
+  port: env.PORT,
+  fetch: app.fetch,
+};
+`,
+    "src/app.test.ts": `import { describe, expect, it } from "bun:test";
+import { testClient } from "hono/testing";
+import { app } from "./app";
+
+const client = testClient(app);
+
+describe("api", () => {
+  it("reports health", async () => {
+    const res = await client.health.$get();
+    expect(res.status).toBe(200);
+    expect((await res.json()).status).toBe("ok");
+  });
+
+  it("validates the query", async () => {
+    const res = await client.hello.$get({ query: { name: "Ada" } });
+    expect(await res.json()).toEqual({ message: "Hello, Ada!" });
+  });
+});
+`,
+    ".env.example": `PORT=${port}
+`,
+    ".gitignore": `node_modules/
+dist/
+.env
+`,
+  };
+}
+
+/**
+ * Write the API into `dir` (created if needed). Returns the written
+ * paths (relative).
+ */
+export function writeApi(dir: string, options: ApiOptions): string[] {
+  const files = apiFiles(options);
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(dir, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+  return Object.keys(files);
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function versions(packages: string[]): Record<string, string> {
+  return Object.fromEntries(packages.map((name) => [name, VERSIONS[name]]));
+}
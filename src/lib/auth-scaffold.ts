@@ -0,0 +1,736 @@
+/**
+ * Auth Scaffold
+ * Sign-in and sign-up pages built from the installed shadcn/ui components,
+ * a protected /dashboard, route protection in middleware.ts and a server
+ * helper, for Convex Auth or Supabase Auth (@supabase/ssr). Next.js apps
+ * only: the web app of next-only and turbo-monorepo projects.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+export const AUTH_PROVIDERS = ["convex", "supabase", "none"] as const;
+export type AuthProvider = (typeof AUTH_PROVIDERS)[number];
+
+export const AUTH_LABELS: Record<AuthProvider, string> = {
+  convex: "Convex Auth",
+  supabase: "Supabase Auth",
+  none: "None",
+};
+
+/**
+ * Providers that work with a backend choice
+ */
+export function authProvidersFor(
+  backend: "convex" | "supabase" | "both" | "none",
+): AuthProvider[] {
+  switch (backend) {
+    case "convex":
+      return ["convex", "none"];
+    case "supabase":
+      return ["supabase", "none"];
+    case "both":
+      return ["convex", "supabase", "none"];
+    case "none":
+      return ["none"];
+  }
+}
+
+/**
+ * Packages the web app needs on top of the backend's own
+ */
+export function authDependencies(auth: AuthProvider): string[] {
+  switch (auth) {
+    case "convex":
+      return ["@convex-dev/auth", "@auth/core"];
+    case "supabase":
+      return ["@supabase/ssr"];
+    case "none":
+      return [];
+  }
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/**
+ * Write the auth files into the Next.js app at `appPath` (and convex/ at
+ * the project root for Convex Auth). Returns what could not be wired.
+ */
+export function writeAuth(
+  projectPath: string,
+  appPath: string,
+  auth: Exclude<AuthProvider, "none">,
+): string[] {
+  const skipped: string[] = [];
+  // middleware.ts sits next to app/, in src/ when the app uses one
+  const srcDir = existsSync(join(appPath, "src", "app")) ? "src" : "";
+
+  const files = auth === "convex" ? convexAppFiles() : supabaseAppFiles();
+  writeFiles(join(appPath, srcDir), files);
+
+  if (auth === "convex") {
+    writeFiles(join(projectPath, "convex"), convexFunctionFiles());
+
+    const layoutPath = join(appPath, srcDir, "app", "layout.tsx");
+    const layout = existsSync(layoutPath)
+      ? wrapConvexLayout(readFileSync(layoutPath, "utf-8"))
+      : undefined;
+    if (layout) writeFileSync(layoutPath, layout);
+    else skipped.push("ConvexAuthNextjsServerProvider in app/layout.tsx");
+  }
+
+  appendEnvExample(
+    join(appPath, ".env.example"),
+    auth === "convex"
+      ? [
+          "# Convex Auth - these live on the Convex deployment, not in this file.",
+          "# `npx @convex-dev/auth` generates and sets them:",
+          "# JWT_PRIVATE_KEY=",
+          "# JWKS=",
+          "# SITE_URL=http://localhost:3000",
+        ]
+      : [
+          "# Supabase Auth",
+          "NEXT_PUBLIC_SUPABASE_URL=",
+          "NEXT_PUBLIC_SUPABASE_ANON_KEY=",
+          "# Base URL for email confirmation links",
+          "NEXT_PUBLIC_SITE_URL=http://localhost:3000",
+        ],
+  );
+
+  return skipped;
+}
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(dir, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+}
+
+/**
+ * Append a section to .env.example with the variables it does not have
+ * yet; nothing when all of them are there
+ */
+function appendEnvExample(path: string, lines: string[]): void {
+  const existing = existsSync(path) ? readFileSync(path, "utf-8") : "";
+  const keys = new Set(existing.split(/\r?\n/).map(envKey));
+
+  const variables = lines.filter((line) => !line.startsWith("#"));
+  const missing = variables.filter((line) => !keys.has(envKey(line)));
+  if (variables.length > 0 && missing.length === 0) return;
+  if (variables.length === 0 && existing.includes(lines[0])) return;
+
+  const section = lines.filter(
+    (line) => line.startsWith("#") || missing.includes(line),
+  );
+  const separator = existing && !existing.endsWith("\n\n") ? "\n" : "";
+  writeFileSync(path, `${existing}${separator}${section.join("\n")}\n`);
+}
+
+function envKey(line: string): string {
+  return line.split("=")[0].trim();
+}
+
+/**
+ * Wrap the root layout in ConvexAuthNextjsServerProvider and its children
+ * in ConvexClientProvider. Undefined when the layout has an unexpected
+ * shape.
+ */
+export function wrapConvexLayout(source: string): string | undefined {
+  if (source.includes("ConvexAuthNextjsServerProvider")) return source;
+
+  const html = source.match(/^([ \t]*)<html[\s\S]*?<\/html>$/m);
+  const imports = [...source.matchAll(/^import .*;$/gm)].at(-1);
+  if (!html || !imports || !/^[ \t]*\{children\}$/m.test(source)) {
+    return undefined;
+  }
+
+  const [block, indent] = html;
+  const wrapped = [
+    `${indent}<ConvexAuthNextjsServerProvider>`,
+    ...block.split("\n").map((line) => (line ? `  ${line}` : line)),
+    `${indent}</ConvexAuthNextjsServerProvider>`,
+  ].join("\n");
+
+  const importEnd = imports.index! + imports[0].length;
+  const withImports =
+    source.slice(0, importEnd) +
+    '\nimport { ConvexAuthNextjsServerProvider } from "@convex-dev/auth/nextjs/server";' +
+    '\nimport { ConvexClientProvider } from "@/components/convex-client-provider";' +
+    source.slice(importEnd);
+
+  return withImports
+    .replace(block, () => wrapped)
+    .replace(
+      /^([ \t]*)\{children\}$/m,
+      "$1<ConvexClientProvider>{children}</ConvexClientProvider>",
+    );
+}
+
+// ============================================================================
+// SHARED PAGES
+// ============================================================================
+
+const PAGE_FILES: Record<string, string> = {
+  "app/(auth)/sign-in/page.tsx": `import { AuthForm } from "@/components/auth-form";
+
+export default function SignInPage() {
+  return (
+    <main className="flex min-h-svh items-center justify-center p-6">
+      <AuthForm mode="sign-in" />
+    </main>
+  );
+}
+`,
+  "app/(auth)/sign-up/page.tsx": `import { AuthForm } from "@/components/auth-form";
+
+export default function SignUpPage() {
+  return (
+    <main className="flex min-h-svh items-center justify-center p-6">
+      <AuthForm mode="sign-up" />
+    </main>
+  );
+}
+`,
+};
+
+/**
+ * components/auth-form.tsx: the card markup is shared, the submit logic
+ * comes from the provider
+ */
+function authFormSource(options: {
+  imports: string;
+  setup: string;
+  formProps: string;
+  feedback: string;
+}): string {
+  return `"use client";
+
+${options.imports}
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export function AuthForm({ mode }: { mode: "sign-in" | "sign-up" }) {
+  const signingUp = mode === "sign-up";
+${options.setup}
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>{signingUp ? "Create an account" : "Sign in"}</CardTitle>
+        <CardDescription>
+          {signingUp
+            ? "Enter an email and a password of at least 8 characters"
+            : "Enter your email and password"}
+        </CardDescription>
+      </CardHeader>
+      <form ${options.formProps}>
+        <CardContent className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" name="email" type="email" autoComplete="email" required />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete={signingUp ? "new-password" : "current-password"}
+              minLength={8}
+              required
+            />
+          </div>
+${options.feedback}
+        </CardContent>
+        <CardFooter className="mt-6 flex flex-col gap-4">
+          <Button type="submit" className="w-full" disabled={pending}>
+            {signingUp ? "Sign up" : "Sign in"}
+          </Button>
+          <p className="text-sm text-muted-foreground">
+            {signingUp ? "Already have an account? " : "No account yet? "}
+            <Link
+              href={signingUp ? "/sign-in" : "/sign-up"}
+              className="underline underline-offset-4"
+            >
+              {signingUp ? "Sign in" : "Sign up"}
+            </Link>
+          </p>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+`;
+}
+
+function dashboardSource(options: {
+  imports: string;
+  setup: string;
+  description: string;
+  signOut: string;
+}): string {
+  return `${options.imports}
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+// Protected: middleware.ts redirects signed-out visitors to /sign-in
+export default async function DashboardPage() {
+${options.setup}
+
+  return (
+    <main className="flex min-h-svh items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Dashboard</CardTitle>
+          <CardDescription>${options.description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+${options.signOut}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
+`;
+}
+
+// ============================================================================
+// CONVEX AUTH
+// ============================================================================
+
+function convexAppFiles(): Record<string, string> {
+  return {
+    ...PAGE_FILES,
+    "components/convex-client-provider.tsx": `"use client";
+
+import { ConvexAuthNextjsProvider } from "@convex-dev/auth/nextjs";
+import { ConvexReactClient } from "convex/react";
+import type { ReactNode } from "react";
+
+const convex = new ConvexReactClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+
+export function ConvexClientProvider({ children }: { children: ReactNode }) {
+  return (
+    <ConvexAuthNextjsProvider client={convex}>
+      {children}
+    </ConvexAuthNextjsProvider>
+  );
+}
+`,
+    "components/auth-form.tsx": authFormSource({
+      imports: `import { useAuthActions } from "@convex-dev/auth/react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";`,
+      setup: `  const { signIn } = useAuthActions();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setPending(true);
+    const formData = new FormData(event.currentTarget);
+    formData.set("flow", signingUp ? "signUp" : "signIn");
+    try {
+      await signIn("password", formData);
+      router.push("/dashboard");
+    } catch {
+      setError(
+        signingUp ? "Could not create the account" : "Invalid email or password",
+      );
+    } finally {
+      setPending(false);
+    }
+  }`,
+      formProps: "onSubmit={onSubmit}",
+      feedback: `          {error && <p className="text-sm text-destructive">{error}</p>}`,
+    }),
+    "components/sign-out-button.tsx": `"use client";
+
+import { useAuthActions } from "@convex-dev/auth/react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+
+export function SignOutButton() {
+  const { signOut } = useAuthActions();
+  const router = useRouter();
+
+  return (
+    <Button
+      variant="outline"
+      onClick={() => void signOut().then(() => router.push("/sign-in"))}
+    >
+      Sign out
+    </Button>
+  );
+}
+`,
+    "app/dashboard/page.tsx": dashboardSource({
+      imports: `import { SignOutButton } from "@/components/sign-out-button";
+import { requireAuth } from "@/lib/auth";`,
+      setup: `  // The token also authenticates fetchQuery/preloadQuery calls
+  await requireAuth();`,
+      description: "You are signed in.",
+      signOut: `          <SignOutButton />`,
+    }),
+    "lib/auth.ts": `import {
+  convexAuthNextjsToken,
+  isAuthenticatedNextjs,
+} from "@convex-dev/auth/nextjs/server";
+import { redirect } from "next/navigation";
+
+/**
+ * The signed-in user's Convex token, or a redirect to /sign-in. Call it at
+ * the top of protected server components and pass the token to
+ * fetchQuery/preloadQuery.
+ */
+export async function requireAuth(): Promise<string> {
+  const token = await convexAuthNextjsToken();
+  if (!token || !(await isAuthenticatedNextjs())) redirect("/sign-in");
+  return token;
+}
+`,
+    "middleware.ts": `import {
+  convexAuthNextjsMiddleware,
+  createRouteMatcher,
+  nextjsMiddlewareRedirect,
+} from "@convex-dev/auth/nextjs/server";
+
+// Routes that need a signed-in user
+const isProtectedRoute = createRouteMatcher(["/dashboard(.*)"]);
+const isAuthPage = createRouteMatcher(["/sign-in", "/sign-up"]);
+
+export default convexAuthNextjsMiddleware(async (request, { convexAuth }) => {
+  const signedIn = await convexAuth.isAuthenticated();
+  if (isProtectedRoute(request) && !signedIn) {
+    return nextjsMiddlewareRedirect(request, "/sign-in");
+  }
+  if (isAuthPage(request) && signedIn) {
+    return nextjsMiddlewareRedirect(request, "/dashboard");
+  }
+});
+
+export const config = {
+  matcher: ["/((?!.*\\\\..*|_next).*)", "/", "/(api|trpc)(.*)"],
+};
+`,
+  };
+}
+
+/**
+ * convex/: the Password provider, its HTTP routes and the auth tables
+ */
+function convexFunctionFiles(): Record<string, string> {
+  return {
+    "auth.ts": `import { Password } from "@convex-dev/auth/providers/Password";
+import { convexAuth } from "@convex-dev/auth/server";
+
+export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
+  providers: [Password],
+});
+`,
+    "auth.config.ts": `export default {
+  providers: [
+    {
+      domain: process.env.CONVEX_SITE_URL,
+      applicationID: "convex",
+    },
+  ],
+};
+`,
+    "http.ts": `import { httpRouter } from "convex/server";
+import { auth } from "./auth";
+
+const http = httpRouter();
+
+auth.addHttpRoutes(http);
+
+export default http;
+`,
+    "schema.ts": `import { authTables } from "@convex-dev/auth/server";
+import { defineSchema } from "convex/server";
+
+export default defineSchema({
+  // users, sessions and accounts tables used by Convex Auth
+  ...authTables,
+  // Add your own tables here
+});
+`,
+  };
+}
+
+// ============================================================================
+// SUPABASE AUTH
+// ============================================================================
+
+function supabaseAppFiles(): Record<string, string> {
+  return {
+    ...PAGE_FILES,
+    "lib/supabase/client.ts": `import { createBrowserClient } from "@supabase/ssr";
+
+export function createClient() {
+  return createBrowserClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  );
+}
+`,
+    "lib/supabase/url.ts": `/**
+ * Server code reaches Supabase at SUPABASE_URL when it is set (inside a
+ * container), the browser at NEXT_PUBLIC_SUPABASE_URL
+ */
+export function serverUrl(): string {
+  return process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL!;
+}
+
+/**
+ * The session cookie is named after the URL; server clients keep the name
+ * the browser client uses
+ */
+export function sessionCookieName(): string {
+  const { hostname } = new URL(process.env.NEXT_PUBLIC_SUPABASE_URL!);
+  return \`sb-\${hostname.split(".")[0]}-auth-token\`;
+}
+`,
+    "lib/supabase/server.ts": `import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import { serverUrl, sessionCookieName } from "./url";
+
+export async function createClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient(
+    serverUrl(),
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookieOptions: { name: sessionCookieName() },
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options),
+            );
+          } catch {
+            // Server components cannot set cookies; middleware.ts refreshes
+            // the session instead
+          }
+        },
+      },
+    },
+  );
+}
+`,
+    "lib/supabase/middleware.ts": `import { createServerClient } from "@supabase/ssr";
+import { NextResponse, type NextRequest } from "next/server";
+import { serverUrl, sessionCookieName } from "./url";
+
+// Routes that need a signed-in user
+const PROTECTED_PREFIXES = ["/dashboard"];
+const AUTH_PAGES = ["/sign-in", "/sign-up"];
+
+/**
+ * Refresh the session cookie and redirect between the auth pages and the
+ * protected routes
+ */
+export async function updateSession(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    serverUrl(),
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookieOptions: { name: sessionCookieName() },
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) =>
+            request.cookies.set(name, value),
+          );
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) =>
+            response.cookies.set(name, value, options),
+          );
+        },
+      },
+    },
+  );
+
+  // Keep getUser() right after createServerClient: it refreshes the session
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { pathname } = request.nextUrl;
+  const target =
+    !user && PROTECTED_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+      ? "/sign-in"
+      : user && AUTH_PAGES.includes(pathname)
+        ? "/dashboard"
+        : undefined;
+  if (target) {
+    const url = request.nextUrl.clone();
+    url.pathname = target;
+    return NextResponse.redirect(url);
+  }
+
+  return response;
+}
+`,
+    "middleware.ts": `import type { NextRequest } from "next/server";
+import { updateSession } from "@/lib/supabase/middleware";
+
+export async function middleware(request: NextRequest) {
+  return updateSession(request);
+}
+
+export const config = {
+  matcher: [
+    "/((?!_next/static|_next/image|favicon.ico|.*\\\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+  ],
+};
+`,
+    "lib/auth.ts": `import type { User } from "@supabase/supabase-js";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * The signed-in user, or a redirect to /sign-in. Call it at the top of
+ * protected server components, server actions and route handlers.
+ */
+export async function requireUser(): Promise<User> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) redirect("/sign-in");
+  return user;
+}
+`,
+    "app/(auth)/actions.ts": `"use server";
+
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+
+export type AuthState = { error?: string; message?: string } | undefined;
+
+function credentials(formData: FormData) {
+  return {
+    email: String(formData.get("email") ?? ""),
+    password: String(formData.get("password") ?? ""),
+  };
+}
+
+export async function signIn(
+  _state: AuthState,
+  formData: FormData,
+): Promise<AuthState> {
+  const supabase = await createClient();
+  const { error } = await supabase.auth.signInWithPassword(
+    credentials(formData),
+  );
+  if (error) return { error: error.message };
+  redirect("/dashboard");
+}
+
+export async function signUp(
+  _state: AuthState,
+  formData: FormData,
+): Promise<AuthState> {
+  const supabase = await createClient();
+  const origin =
+    process.env.NEXT_PUBLIC_SITE_URL ?? (await headers()).get("origin") ?? "";
+  const { data, error } = await supabase.auth.signUp({
+    ...credentials(formData),
+    options: { emailRedirectTo: \`\${origin}/auth/callback\` },
+  });
+  if (error) return { error: error.message };
+  // No session until the email is confirmed (when confirmations are on)
+  if (!data.session) {
+    return { message: "Check your email to confirm your account" };
+  }
+  redirect("/dashboard");
+}
+
+export async function signOut(): Promise<void> {
+  const supabase = await createClient();
+  await supabase.auth.signOut();
+  redirect("/sign-in");
+}
+`,
+    "app/auth/callback/route.ts": `import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * Email confirmation links land here with a one-time code
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+  const code = searchParams.get("code");
+  // Only redirect within the app
+  const next = searchParams.get("next") ?? "/dashboard";
+  const target = next.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+  if (code) {
+    const supabase = await createClient();
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (!error) return NextResponse.redirect(\`\${origin}\${target}\`);
+  }
+  return NextResponse.redirect(\`\${origin}/sign-in\`);
+}
+`,
+    "components/auth-form.tsx": authFormSource({
+      imports: `import { useActionState } from "react";
+import { signIn, signUp } from "@/app/(auth)/actions";`,
+      setup: `  const [state, formAction, pending] = useActionState(
+    signingUp ? signUp : signIn,
+    undefined,
+  );`,
+      formProps: "action={formAction}",
+      feedback: `          {state?.error && (
+            <p className="text-sm text-destructive">{state.error}</p>
+          )}
+          {state?.message && (
+            <p className="text-sm text-muted-foreground">{state.message}</p>
+          )}`,
+    }),
+    "app/dashboard/page.tsx": dashboardSource({
+      imports: `import { signOut } from "@/app/(auth)/actions";
+import { Button } from "@/components/ui/button";
+import { requireUser } from "@/lib/auth";`,
+      setup: `  const user = await requireUser();`,
+      description: "Signed in as {user.email}",
+      signOut: `          <form action={signOut}>
+            <Button type="submit" variant="outline">
+              Sign out
+            </Button>
+          </form>`,
+    }),
+  };
+}
@@ -0,0 +1,433 @@
+/**
+ * CI Workflow
+ * Renders a GitHub Actions workflow from project.yaml: package manager
+ * setup with caching, install, Convex/Supabase type generation, then
+ * typecheck, lint, test and build - per app through turbo in a Turborepo
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join, posix } from "path";
+import { Document, isMap, type Node } from "yaml";
+import type { ProjectConfig } from "./project-yaml.js";
+import {
+  buildBinCommand,
+  buildExecCommand,
+  buildFrozenInstallCommand,
+  buildRunCommand,
+  yarnFlavor,
+  type PackageManager,
+} from "./shadcn-config.js";
+
+export const CI_WORKFLOW_PATH = ".github/workflows/ci.yml";
+
+const NODE_VERSION = 22;
+
+/** What the check job runs, in this order, when the project has it */
+const CHECK_TASKS: Record<string, string> = {
+  typecheck: "Typecheck",
+  lint: "Lint",
+  "format:check": "Check formatting",
+  test: "Test",
+};
+
+/** Turbo only looks at what changed since the base branch on pull requests */
+const AFFECTED =
+  "${{ github.event_name == 'pull_request' && '--affected' || '' }}";
+
+export interface CiWorkflow {
+  content: string;
+  /** Repository secrets the workflow reads */
+  secrets: string[];
+}
+
+type Step = Record<string, unknown>;
+type Job = Record<string, unknown>;
+
+/** The fields read from package.json and turbo.json */
+interface JsonFile {
+  scripts?: Record<string, string>;
+  packageManager?: string;
+  tasks?: Record<string, unknown>;
+}
+
+/**
+ * Render the workflow for the project at projectPath. Scripts and turbo
+ * tasks are read from disk so only steps the project can run are added.
+ */
+export function renderCiWorkflow(
+  projectPath: string,
+  config: ProjectConfig,
+): CiWorkflow {
+  const packageManager = config.stack.package_manager as PackageManager;
+  const secrets = new Set<string>();
+  const setup = [
+    ...setupSteps(projectPath, config, packageManager),
+    ...codegenSteps(projectPath, config, packageManager, secrets),
+  ];
+
+  const jobs =
+    config.stack.monorepo === "turborepo"
+      ? turborepoJobs(projectPath, config, packageManager, setup)
+      : projectJobs(projectPath, packageManager, setup);
+
+  const doc = new Document(
+    {
+      name: "CI",
+      on: {
+        push: { branches: ["main"] },
+        pull_request: { branches: ["main"] },
+      },
+      concurrency: {
+        group: "ci-${{ github.ref }}",
+        "cancel-in-progress": true,
+      },
+      jobs,
+    },
+    // Jobs share their setup steps; Actions workflows should not use anchors
+    { aliasDuplicateObjects: false },
+  );
+  doc.commentBefore =
+    " Generated from project.yaml by `dx ci generate`. Re-run it after\n changing the stack; local edits are overwritten.";
+  // A blank line between the top-level sections and between jobs
+  if (isMap(doc.contents)) {
+    for (const pair of doc.contents.items.slice(1)) {
+      (pair.key as Node).spaceBefore = true;
+    }
+    const jobNodes = doc.get("jobs", true);
+    if (isMap(jobNodes)) {
+      for (const pair of jobNodes.items.slice(1)) {
+        (pair.key as Node).spaceBefore = true;
+      }
+    }
+  }
+
+  return {
+    content: doc.toString({ lineWidth: 0 }),
+    secrets: [...secrets],
+  };
+}
+
+/**
+ * Render the workflow and write it into the project
+ */
+export function writeCiWorkflow(
+  projectPath: string,
+  config: ProjectConfig,
+): CiWorkflow {
+  const workflow = renderCiWorkflow(projectPath, config);
+  const target = join(projectPath, CI_WORKFLOW_PATH);
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileSync(target, workflow.content);
+  return workflow;
+}
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+/**
+ * Single projects: one job running the package.json scripts, plus
+ * Playwright when the project has end-to-end tests
+ */
+function projectJobs(
+  projectPath: string,
+  packageManager: PackageManager,
+  setup: Step[],
+): Record<string, Job> {
+  const scripts = readScripts(projectPath);
+  const run = (script: string) =>
+    buildRunCommand(packageManager, script).join(" ");
+
+  const steps: Step[] = [{ uses: "actions/checkout@v4" }, ...setup];
+  for (const [task, label] of Object.entries(CHECK_TASKS)) {
+    if (scripts[task]) steps.push({ name: label, run: run(task) });
+  }
+  if (scripts.build) steps.push({ name: "Build", run: run("build") });
+
+  const jobs: Record<string, Job> = {
+    ci: { name: "CI", "runs-on": "ubuntu-latest", steps },
+  };
+  if (scripts["test:e2e"]) {
+    jobs.e2e = e2eJob("ci", setup, [
+      playwrightInstall(packageManager),
+      { name: "End-to-end tests", run: run("test:e2e") },
+    ]);
+  }
+  return jobs;
+}
+
+/**
+ * Turborepo: one check job over every workspace, then a build job per app
+ * filtered to that app and what it depends on
+ */
+function turborepoJobs(
+  projectPath: string,
+  config: ProjectConfig,
+  packageManager: PackageManager,
+  setup: Step[],
+): Record<string, Job> {
+  const scripts = readScripts(projectPath);
+  const turboJson = readJson(join(projectPath, "turbo.json"));
+  const tasks = new Set(Object.keys(turboJson.tasks ?? {}));
+  const turbo = buildBinCommand(packageManager, "turbo").join(" ");
+  const run = (script: string) =>
+    buildRunCommand(packageManager, script).join(" ");
+
+  // Root scripts that do not go through turbo (Biome, Prettier) run as is
+  const turboTasks: string[] = [];
+  const rootSteps: Step[] = [];
+  for (const [task, label] of Object.entries(CHECK_TASKS)) {
+    const script = scripts[task];
+    if (script && !script.startsWith("turbo")) {
+      rootSteps.push({ name: label, run: run(task) });
+    } else if (tasks.has(task)) {
+      turboTasks.push(task);
+    }
+  }
+
+  const checkSteps: Step[] = [
+    { uses: "actions/checkout@v4", with: { "fetch-depth": 0 } },
+    ...setup,
+    turboCache("check"),
+    ...rootSteps,
+  ];
+  if (turboTasks.length > 0) {
+    checkSteps.push({
+      name: listLabels(turboTasks.map((task) => CHECK_TASKS[task])),
+      run: `${turbo} run ${turboTasks.join(" ")} ${AFFECTED}`,
+    });
+  }
+
+  const jobs: Record<string, Job> = {
+    check: {
+      name: "Check",
+      "runs-on": "ubuntu-latest",
+      steps: checkSteps,
+    },
+  };
+
+  const apps = Object.entries(config.stack.apps)
+    .filter(([, app]) => readScripts(join(projectPath, app.path)).build)
+    .map(([name, app]) => ({ app: name, path: posix.normalize(app.path) }));
+  if (tasks.has("build") && apps.length > 0) {
+    jobs.build = {
+      name: "Build ${{ matrix.app }}",
+      needs: "check",
+      "runs-on": "ubuntu-latest",
+      strategy: { "fail-fast": false, matrix: { include: apps } },
+      steps: [
+        { uses: "actions/checkout@v4" },
+        ...setup,
+        turboCache("build-${{ matrix.app }}"),
+        {
+          name: "Build",
+          run: `${turbo} run build --filter=./\${{ matrix.path }}`,
+        },
+      ],
+    };
+  }
+
+  const web = config.stack.apps.web;
+  if (tasks.has("test:e2e") && web) {
+    jobs.e2e = e2eJob("check", setup, [
+      { ...playwrightInstall(packageManager), "working-directory": web.path },
+      { name: "End-to-end tests", run: `${turbo} run test:e2e` },
+    ]);
+  }
+  return jobs;
+}
+
+function e2eJob(needs: string, setup: Step[], steps: Step[]): Job {
+  return {
+    name: "End-to-end tests",
+    needs,
+    "runs-on": "ubuntu-latest",
+    steps: [{ uses: "actions/checkout@v4" }, ...setup, ...steps],
+  };
+}
+
+// ============================================================================
+// STEPS
+// ============================================================================
+
+/**
+ * Install the package manager with its download cache, then the
+ * dependencies from the lockfile
+ */
+function setupSteps(
+  projectPath: string,
+  config: ProjectConfig,
+  packageManager: PackageManager,
+): Step[] {
+  const packageJson = readJson(join(projectPath, "package.json"));
+  const nodeFile = [".nvmrc", ".node-version"].find((file) =>
+    existsSync(join(projectPath, file)),
+  );
+  const node = (cache?: string): Step => ({
+    name: "Set up Node.js",
+    uses: "actions/setup-node@v4",
+    with: {
+      ...(nodeFile
+        ? { "node-version-file": nodeFile }
+        : { "node-version": NODE_VERSION }),
+      ...(cache && { cache }),
+    },
+  });
+
+  const steps: Step[] = [];
+  switch (packageManager) {
+    case "pnpm":
+      steps.push(
+        {
+          name: "Set up pnpm",
+          uses: "pnpm/action-setup@v4",
+          // The action reads the version from packageManager when it is set
+          ...(!packageJson.packageManager && { with: { version: 10 } }),
+        },
+        node("pnpm"),
+      );
+      break;
+    case "yarn":
+      // Yarn Berry comes through Corepack; setup-node needs it to find the cache
+      if (yarnFlavor(projectPath) === "berry") {
+        steps.push({ name: "Enable Corepack", run: "corepack enable" });
+      }
+      steps.push(node("yarn"));
+      break;
+    case "bun":
+      steps.push(bunSetup(), {
+        name: "Cache Bun packages",
+        uses: "actions/cache@v4",
+        with: {
+          path: "~/.bun/install/cache",
+          key: "bun-${{ runner.os }}-${{ hashFiles('bun.lock') }}",
+          "restore-keys": "bun-${{ runner.os }}-",
+        },
+      });
+      break;
+    case "npm":
+    default:
+      steps.push(node("npm"));
+  }
+
+  // Hono apps run their tests and builds on Bun
+  const bunApps = Object.values(config.stack.apps).some((app) =>
+    app.framework.startsWith("hono"),
+  );
+  if (bunApps && packageManager !== "bun") steps.push(bunSetup());
+
+  steps.push({
+    name: "Install dependencies",
+    run: buildFrozenInstallCommand(packageManager, projectPath).join(" "),
+  });
+  return steps;
+}
+
+/**
+ * Backend types the app imports, generated before anything compiles
+ */
+function codegenSteps(
+  projectPath: string,
+  config: ProjectConfig,
+  packageManager: PackageManager,
+  secrets: Set<string>,
+): Step[] {
+  const { primary, secondary } = config.stack.backend ?? {};
+  const backends = [primary, secondary];
+  const steps: Step[] = [];
+
+  if (backends.includes("convex") && existsSync(join(projectPath, "convex"))) {
+    secrets.add("CONVEX_DEPLOY_KEY");
+    steps.push({
+      name: "Generate Convex types",
+      run: `${buildExecCommand(packageManager, projectPath).join(" ")} convex codegen`,
+      env: { CONVEX_DEPLOY_KEY: "${{ secrets.CONVEX_DEPLOY_KEY }}" },
+    });
+  }
+
+  if (backends.includes("supabase")) {
+    secrets.add("SUPABASE_ACCESS_TOKEN");
+    secrets.add("SUPABASE_PROJECT_ID");
+    steps.push(
+      {
+        name: "Set up Supabase CLI",
+        uses: "supabase/setup-cli@v1",
+        with: { version: "latest" },
+      },
+      {
+        name: "Generate Supabase types",
+        run: `supabase gen types typescript --project-id "$SUPABASE_PROJECT_ID" > ${supabaseTypesPath(projectPath, config)}`,
+        env: {
+          SUPABASE_ACCESS_TOKEN: "${{ secrets.SUPABASE_ACCESS_TOKEN }}",
+          SUPABASE_PROJECT_ID: "${{ secrets.SUPABASE_PROJECT_ID }}",
+        },
+      },
+    );
+  }
+
+  return steps;
+}
+
+/**
+ * database.types.ts goes next to the Supabase client in the web app
+ */
+function supabaseTypesPath(projectPath: string, config: ProjectConfig): string {
+  const web = config.stack.apps.web;
+  const appPath = web?.path ?? ".";
+  const libDir =
+    ["lib", "src/lib"].find((dir) =>
+      existsSync(join(projectPath, appPath, dir, "supabase.ts")),
+    ) ?? (web?.framework.startsWith("vite") ? "src/lib" : "lib");
+  return posix.join(appPath, libDir, "database.types.ts");
+}
+
+function playwrightInstall(packageManager: PackageManager): Step {
+  return {
+    name: "Install Playwright browsers",
+    run: `${buildBinCommand(packageManager, "playwright").join(" ")} install --with-deps chromium`,
+  };
+}
+
+function turboCache(scope: string): Step {
+  return {
+    name: "Cache Turborepo",
+    uses: "actions/cache@v4",
+    with: {
+      path: ".turbo/cache",
+      key: `turbo-${scope}-\${{ runner.os }}-\${{ github.sha }}`,
+      "restore-keys": `turbo-${scope}-\${{ runner.os }}-`,
+    },
+  };
+}
+
+function bunSetup(): Step {
+  return { name: "Set up Bun", uses: "oven-sh/setup-bun@v2" };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * "Typecheck, lint and test"
+ */
+function listLabels(labels: string[]): string {
+  const [first, ...rest] = labels.map((label, i) =>
+    i === 0 ? label : label.toLowerCase(),
+  );
+  const last = rest.pop();
+  return [first, ...rest].join(", ") + (last ? ` and ${last}` : "");
+}
+
+function readScripts(path: string): Record<string, string> {
+  return readJson(join(path, "package.json")).scripts ?? {};
+}
+
+function readJson(path: string): JsonFile {
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    return {};
+  }
+}
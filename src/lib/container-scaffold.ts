@@ -0,0 +1,748 @@
+/**
+ * Container Scaffold
+ * Dev container, production Dockerfile and docker-compose.yml from
+ * project.yaml: Next.js standalone output, a static Vite build behind
+ * nginx, Hono on Bun, and `turbo prune` for Turborepo apps. Supabase
+ * projects get its local stack in the compose file.
+ */
+
+import { createHmac } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { basename, join, posix } from "path";
+import { Document, isMap, type Node } from "yaml";
+import type { AppConfig, ProjectConfig } from "./project-yaml.js";
+import {
+  buildBinCommand,
+  buildExecCommand,
+  buildFrozenInstallCommand,
+  buildRunCommand,
+  yarnFlavor,
+  type PackageManager,
+} from "./shadcn-config.js";
+
+const NODE_IMAGE = "node:22-alpine";
+const BUN_IMAGE = "oven/bun:1-alpine";
+const NGINX_IMAGE = "nginx:1.27-alpine";
+const DEV_IMAGE =
+  "mcr.microsoft.com/devcontainers/typescript-node:1-22-bookworm";
+
+/** The images of the Supabase self-hosting compose file this stack trims */
+const SUPABASE_IMAGES = {
+  db: "supabase/postgres:15.8.1.060",
+  auth: "supabase/gotrue:v2.177.0",
+  rest: "postgrest/postgrest:v12.2.12",
+  kong: "kong:2.8.1",
+  meta: "supabase/postgres-meta:v0.91.0",
+  studio: "supabase/studio:2025.06.30-sha-6f5982d",
+};
+
+/**
+ * The JWT secret the Supabase CLI uses for `supabase start`, so the keys
+ * match the ones it prints. Local development only.
+ */
+const SUPABASE_JWT_SECRET =
+  "super-secret-jwt-token-with-at-least-32-characters-long";
+const SUPABASE_URL = "http://localhost:54321";
+/** The same API as seen from the other containers */
+const SUPABASE_INTERNAL_URL = "http://kong:8000";
+
+export type ContainerTarget = "next" | "vite" | "api" | "turborepo";
+
+/** How each app is built and served */
+interface ServedApp {
+  name: string;
+  app: AppConfig;
+  kind: "next" | "vite" | "api";
+  /** Package name, for turbo prune and --filter */
+  packageName: string;
+  /** Port inside the container */
+  containerPort: number;
+  /** Dockerfile path (relative) */
+  dockerfile: string;
+}
+
+interface DockerContext {
+  projectPath: string;
+  packageManager: PackageManager;
+  monorepo: boolean;
+  supabase: boolean;
+}
+
+/**
+ * What the production image is built for; null for projects with nothing
+ * to serve (libraries)
+ */
+export function containerTarget(config: ProjectConfig): ContainerTarget | null {
+  if (config.stack.monorepo === "turborepo") return "turborepo";
+  const [app] = Object.values(config.stack.apps);
+  return app ? appKind(app) : null;
+}
+
+/**
+ * The files for the project at projectPath, by relative path
+ */
+export function containerFiles(
+  projectPath: string,
+  config: ProjectConfig,
+): Record<string, string> {
+  const { backend } = config.stack;
+  const context: DockerContext = {
+    projectPath,
+    packageManager: config.stack.package_manager as PackageManager,
+    monorepo: config.stack.monorepo === "turborepo",
+    supabase: [backend?.primary, backend?.secondary].includes("supabase"),
+  };
+  const apps = servedApps(projectPath, config, context.monorepo);
+
+  const files: Record<string, string> = {
+    ".devcontainer/devcontainer.json": devcontainer(
+      projectPath,
+      config,
+      context,
+      apps,
+    ),
+  };
+  if (apps.length === 0) return files;
+
+  for (const served of apps) {
+    files[served.dockerfile] =
+      served.kind === "next"
+        ? nextDockerfile(context, served)
+        : served.kind === "vite"
+          ? viteDockerfile(context, served)
+          : apiDockerfile(context, served);
+    if (served.kind === "vite") files["docker/nginx.conf"] = NGINX_CONF;
+  }
+  files[".dockerignore"] = DOCKERIGNORE;
+  files["docker-compose.yml"] = compose(config, context, apps);
+  if (context.supabase) {
+    files["docker/supabase/kong.yml"] = KONG_CONFIG;
+    files["docker/supabase/roles.sql"] = SUPABASE_ROLES;
+  }
+  return files;
+}
+
+/**
+ * Next.js only emits the standalone server with `output: "standalone"`.
+ * Returns false when next.config has to be edited by hand.
+ */
+export function enableStandaloneOutput(appPath: string): boolean {
+  const nextConfigPath = ["next.config.ts", "next.config.mjs", "next.config.js"]
+    .map((file) => join(appPath, file))
+    .find((path) => existsSync(path));
+  if (!nextConfigPath) return false;
+
+  const nextConfig = readFileSync(nextConfigPath, "utf-8");
+  if (/output:\s*["']standalone["']/.test(nextConfig)) return true;
+
+  const configObject =
+    /(const nextConfig(?:: NextConfig)? = \{)(\s*\/\*.*?\*\/)?/;
+  if (!configObject.test(nextConfig)) return false;
+  writeFileSync(
+    nextConfigPath,
+    nextConfig.replace(configObject, `$1\n  output: "standalone",`),
+  );
+  return true;
+}
+
+// ============================================================================
+// APPS
+// ============================================================================
+
+function appKind(app: AppConfig): ServedApp["kind"] | null {
+  if (app.framework.startsWith("next")) return "next";
+  if (app.framework.startsWith("vite")) return "vite";
+  if (app.framework.startsWith("hono")) return "api";
+  return null;
+}
+
+/**
+ * Apps that get an image: the web app at the root Dockerfile, APIs next
+ * to their code in a Turborepo
+ */
+function servedApps(
+  projectPath: string,
+  config: ProjectConfig,
+  monorepo: boolean,
+): ServedApp[] {
+  const apps: ServedApp[] = [];
+  for (const [name, app] of Object.entries(config.stack.apps)) {
+    const kind = appKind(app);
+    const appPath = join(projectPath, app.path);
+    if (!kind || !existsSync(join(appPath, "package.json"))) continue;
+
+    const packageJson = JSON.parse(
+      readFileSync(join(appPath, "package.json"), "utf-8"),
+    );
+    apps.push({
+      name,
+      app,
+      kind,
+      packageName: packageJson.name ?? basename(app.path),
+      containerPort: kind === "vite" ? 80 : (app.port ?? 3000),
+      dockerfile:
+        kind === "api" && monorepo
+          ? posix.join(app.path, "Dockerfile")
+          : "Dockerfile",
+    });
+  }
+  // Web first: it owns the root Dockerfile
+  return apps.sort(
+    (a, b) => Number(a.kind === "api") - Number(b.kind === "api"),
+  );
+}
+
+// ============================================================================
+// DOCKERFILES
+// ============================================================================
+
+/**
+ * Base image and install for the package manager. Bun projects build on
+ * the Bun image; the others on Node with Corepack where needed.
+ */
+function packageManagerImage(context: DockerContext): {
+  image: string;
+  setup: string[];
+  lockfiles: string[];
+  install: string;
+} {
+  const { packageManager, projectPath } = context;
+  const install = buildFrozenInstallCommand(packageManager, projectPath).join(
+    " ",
+  );
+  switch (packageManager) {
+    case "pnpm":
+      return {
+        image: NODE_IMAGE,
+        setup: ["RUN corepack enable pnpm"],
+        lockfiles: ["pnpm-lock.yaml"],
+        install,
+      };
+    case "yarn":
+      return yarnFlavor(projectPath) === "berry"
+        ? {
+            image: NODE_IMAGE,
+            setup: ["RUN corepack enable"],
+            lockfiles: ["yarn.lock", ".yarnrc.yml"],
+            install,
+          }
+        : { image: NODE_IMAGE, setup: [], lockfiles: ["yarn.lock"], install };
+    case "bun":
+      return { image: BUN_IMAGE, setup: [], lockfiles: ["bun.lock"], install };
+    case "npm":
+    default:
+      return {
+        image: NODE_IMAGE,
+        setup: [],
+        lockfiles: ["package-lock.json"],
+        install,
+      };
+  }
+}
+
+/**
+ * Stages that end in a `builder` stage holding the installed sources:
+ * the whole project, or the workspaces turbo prune kept for the app
+ */
+function installStages(context: DockerContext, served: ServedApp): string[] {
+  const pm = packageManagerImage(context);
+  const base = [
+    `FROM ${pm.image} AS base`,
+    ...(pm.image === NODE_IMAGE ? ["RUN apk add --no-cache libc6-compat"] : []),
+    ...pm.setup,
+    "WORKDIR /app",
+  ];
+
+  if (!context.monorepo) {
+    return [
+      ...base,
+      "",
+      "# Dependencies, cached until package.json or the lockfile changes",
+      "FROM base AS deps",
+      `COPY package.json ${pm.lockfiles.join(" ")} ./`,
+      `RUN ${pm.install}`,
+      "",
+      "FROM base AS builder",
+      "COPY --from=deps /app/node_modules ./node_modules",
+      "COPY . .",
+    ];
+  }
+
+  const prune = buildExecCommand(
+    context.packageManager,
+    context.projectPath,
+  ).join(" ");
+  const [lockfile, ...config] = pm.lockfiles;
+  return [
+    ...base,
+    "",
+    `# Only the workspaces ${served.packageName} depends on`,
+    "FROM base AS pruner",
+    "COPY . .",
+    `RUN ${prune} turbo@^2 prune ${served.packageName} --docker`,
+    "",
+    "# Dependencies first, cached until a package.json or the lockfile changes",
+    "FROM base AS builder",
+    "COPY --from=pruner /app/out/json/ .",
+    `COPY --from=pruner /app/out/${lockfile} ./${lockfile}`,
+    ...config.map((file) => `COPY --from=pruner /app/${file} ./${file}`),
+    `RUN ${pm.install}`,
+    "COPY --from=pruner /app/out/full/ .",
+  ];
+}
+
+/**
+ * Build the app: through turbo in a Turborepo so its packages build first
+ */
+function buildCommand(context: DockerContext, served: ServedApp): string {
+  return context.monorepo
+    ? `${buildBinCommand(context.packageManager, "turbo").join(" ")} run build --filter=${served.packageName}`
+    : buildRunCommand(context.packageManager, "build").join(" ");
+}
+
+function nextDockerfile(context: DockerContext, served: ServedApp): string {
+  const appDir = served.app.path === "." ? "" : `${served.app.path}/`;
+  const hasPublic = existsSync(
+    join(context.projectPath, served.app.path, "public"),
+  );
+  const port = served.containerPort;
+
+  return dockerfile(`a Next.js app (standalone output)`, [
+    ...installStages(context, served),
+    ...buildArgs(context, served),
+    "ENV NEXT_TELEMETRY_DISABLED=1",
+    `RUN ${buildCommand(context, served)}`,
+    "",
+    "# Only the standalone server and the static assets ship",
+    `FROM ${NODE_IMAGE} AS runner`,
+    "WORKDIR /app",
+    "ENV NODE_ENV=production",
+    "ENV NEXT_TELEMETRY_DISABLED=1",
+    "RUN addgroup --system --gid 1001 nodejs && adduser --system --uid 1001 nextjs",
+    ...(hasPublic
+      ? [`COPY --from=builder /app/${appDir}public ./${appDir}public`]
+      : []),
+    `COPY --from=builder --chown=nextjs:nodejs /app/${appDir}.next/standalone ./`,
+    `COPY --from=builder --chown=nextjs:nodejs /app/${appDir}.next/static ./${appDir}.next/static`,
+    "USER nextjs",
+    `EXPOSE ${port}`,
+    `ENV PORT=${port}`,
+    "ENV HOSTNAME=0.0.0.0",
+    `CMD ["node", "${appDir}server.js"]`,
+  ]);
+}
+
+function viteDockerfile(context: DockerContext, served: ServedApp): string {
+  const appDir = served.app.path === "." ? "" : `${served.app.path}/`;
+
+  return dockerfile("a Vite app (static files behind nginx)", [
+    ...installStages(context, served),
+    ...buildArgs(context, served),
+    `RUN ${buildCommand(context, served)}`,
+    "",
+    "# nginx serves the build, falling back to index.html for client routes",
+    `FROM ${NGINX_IMAGE} AS runner`,
+    "COPY docker/nginx.conf /etc/nginx/conf.d/default.conf",
+    `COPY --from=builder /app/${appDir}dist /usr/share/nginx/html`,
+    "EXPOSE 80",
+  ]);
+}
+
+function apiDockerfile(context: DockerContext, served: ServedApp): string {
+  const appDir = served.app.path === "." ? "" : `${served.app.path}/`;
+  const port = served.containerPort;
+  // Hono apps are bundled and run by Bun whatever installs them
+  const bundle =
+    context.packageManager === "bun"
+      ? [`RUN ${buildCommand(context, served)}`]
+      : [
+          "",
+          `FROM ${BUN_IMAGE} AS bundler`,
+          "WORKDIR /app",
+          "COPY --from=builder /app .",
+          ...(appDir ? [`WORKDIR /app/${served.app.path}`] : []),
+          "RUN bun run build",
+        ];
+
+  return dockerfile("a Hono API on Bun", [
+    ...installStages(context, served),
+    ...bundle,
+    "",
+    "# The bundle has every dependency inlined",
+    `FROM ${BUN_IMAGE} AS runner`,
+    "WORKDIR /app",
+    "ENV NODE_ENV=production",
+    `COPY --from=${context.packageManager === "bun" ? "builder" : "bundler"} /app/${appDir}dist ./dist`,
+    "USER bun",
+    `EXPOSE ${port}`,
+    `ENV PORT=${port}`,
+    'CMD ["bun", "dist/index.js"]',
+  ]);
+}
+
+/**
+ * Public env variables are inlined at build time, so they come in as
+ * build arguments
+ */
+function buildArgs(context: DockerContext, served: ServedApp): string[] {
+  const names = publicEnvNames(context.projectPath, served);
+  return names.flatMap((name) => [`ARG ${name}`, `ENV ${name}=$${name}`]);
+}
+
+/**
+ * NEXT_PUBLIC_* / VITE_* names from the app's .env.example
+ */
+function publicEnvNames(projectPath: string, served: ServedApp): string[] {
+  const envExample = join(projectPath, served.app.path, ".env.example");
+  if (!existsSync(envExample)) return [];
+  const prefix = served.kind === "vite" ? "VITE_" : "NEXT_PUBLIC_";
+  return readFileSync(envExample, "utf-8")
+    .split(/\r?\n/)
+    .map((line) => line.split("=")[0].trim())
+    .filter((name) => name.startsWith(prefix));
+}
+
+function dockerfile(description: string, lines: string[]): string {
+  return `# syntax=docker/dockerfile:1
+# Production image for ${description}, generated by \`dx container init\`
+
+${lines.join("\n")}
+`;
+}
+
+// ============================================================================
+// DEV CONTAINER
+// ============================================================================
+
+function devcontainer(
+  projectPath: string,
+  config: ProjectConfig,
+  context: DockerContext,
+  apps: ServedApp[],
+): string {
+  const { packageManager } = context;
+  const bun =
+    packageManager === "bun" || apps.some((served) => served.kind === "api");
+
+  const ports = [
+    ...Object.entries(config.stack.apps)
+      .filter(([, app]) => app.port)
+      .map(([name, app]) => [app.port!, name] as const),
+    ...(context.supabase
+      ? ([
+          [54321, "Supabase API"],
+          [54323, "Supabase Studio"],
+        ] as const)
+      : []),
+  ];
+
+  // Corepack ships with Node but is not enabled in the image
+  const corepack =
+    packageManager === "pnpm" ||
+    (packageManager === "yarn" && yarnFlavor(projectPath) === "berry");
+  const install = `${packageManager} install`;
+
+  const extensionsPath = join(projectPath, ".vscode", "extensions.json");
+  const recommended: string[] = existsSync(extensionsPath)
+    ? (JSON.parse(readFileSync(extensionsPath, "utf-8")).recommendations ?? [])
+    : [];
+  const extensions = [
+    ...recommended,
+    ...(config.stack.styling?.framework === "tailwindcss"
+      ? ["bradlc.vscode-tailwindcss"]
+      : []),
+  ];
+
+  return json({
+    name: config.project.name,
+    image: DEV_IMAGE,
+    features: {
+      // docker compose and `supabase start` run against the host's Docker
+      "ghcr.io/devcontainers/features/docker-outside-of-docker:1": {},
+      ...(bun && { "ghcr.io/shyim/devcontainers-features/bun:0": {} }),
+      ...(context.supabase && {
+        "ghcr.io/devcontainers-extra/features/supabase-cli:1": {},
+      }),
+    },
+    forwardPorts: ports.map(([port]) => port),
+    portsAttributes: Object.fromEntries(
+      ports.map(([port, label]) => [String(port), { label }]),
+    ),
+    postCreateCommand: corepack
+      ? `sudo corepack enable && ${install}`
+      : install,
+    customizations: {
+      vscode: { extensions: [...new Set(extensions)] },
+    },
+  });
+}
+
+// ============================================================================
+// COMPOSE
+// ============================================================================
+
+function compose(
+  config: ProjectConfig,
+  context: DockerContext,
+  apps: ServedApp[],
+): string {
+  const anonKey = supabaseKey("anon");
+  const serviceKey = supabaseKey("service_role");
+  const services: Record<string, unknown> = {};
+
+  for (const served of apps) {
+    const publishedPort = served.app.port ?? served.containerPort;
+    const args = Object.fromEntries(
+      publicEnvNames(context.projectPath, served).map((name) => [
+        name,
+        name.endsWith("SUPABASE_URL") && context.supabase
+          ? SUPABASE_URL
+          : name.endsWith("SUPABASE_ANON_KEY") && context.supabase
+            ? anonKey
+            : `\${${name}:-}`,
+      ]),
+    );
+    const envFile = posix.join(served.app.path, ".env.local");
+
+    services[served.name] = {
+      build: {
+        context: ".",
+        dockerfile: served.dockerfile,
+        ...(Object.keys(args).length > 0 && { args }),
+      },
+      ports: [`${publishedPort}:${served.containerPort}`],
+      ...(served.kind !== "vite" && {
+        env_file: [{ path: envFile, required: false }],
+      }),
+      // The browser reaches Supabase on localhost, server code through kong
+      ...(context.supabase &&
+        served.kind === "next" && {
+          environment: { SUPABASE_URL: SUPABASE_INTERNAL_URL },
+          depends_on: ["kong"],
+        }),
+    };
+  }
+
+  if (context.supabase) {
+    Object.assign(services, supabaseServices(config, anonKey, serviceKey));
+  }
+
+  // YAML 1.1 quotes values like "off" that Compose would read as booleans
+  const doc = new Document(
+    {
+      name: config.project.name,
+      services,
+      ...(context.supabase && { volumes: { "supabase-db": {} } }),
+    },
+    { version: "1.1", aliasDuplicateObjects: false },
+  );
+  const serviceNodes = doc.get("services", true);
+  if (isMap(serviceNodes)) {
+    for (const pair of serviceNodes.items.slice(1)) {
+      (pair.key as Node).spaceBefore = true;
+    }
+  }
+  doc.commentBefore = context.supabase
+    ? " Generated by `dx container init`. The Supabase services are a trimmed\n local stack (database, auth, REST, Studio) with the Supabase CLI demo\n keys - never expose them beyond localhost."
+    : " Generated by `dx container init`";
+  return doc.toString({ lineWidth: 0 });
+}
+
+function supabaseServices(
+  config: ProjectConfig,
+  anonKey: string,
+  serviceKey: string,
+): Record<string, unknown> {
+  const password = "postgres";
+  const dbHealthy = { db: { condition: "service_healthy" } };
+  const siteUrl = `http://localhost:${config.stack.apps.web?.port ?? 3000}`;
+
+  return {
+    db: {
+      image: SUPABASE_IMAGES.db,
+      ports: ["54322:5432"],
+      environment: {
+        POSTGRES_HOST: "/var/run/postgresql",
+        POSTGRES_PASSWORD: password,
+        POSTGRES_DB: "postgres",
+        PGPORT: 5432,
+        PGDATABASE: "postgres",
+        JWT_SECRET: SUPABASE_JWT_SECRET,
+        JWT_EXP: 3600,
+      },
+      volumes: [
+        "./docker/supabase/roles.sql:/docker-entrypoint-initdb.d/init-scripts/99-roles.sql:ro",
+        "supabase-db:/var/lib/postgresql/data",
+      ],
+      healthcheck: {
+        test: ["CMD", "pg_isready", "-U", "postgres", "-h", "localhost"],
+        interval: "5s",
+        timeout: "5s",
+        retries: 10,
+      },
+    },
+    auth: {
+      image: SUPABASE_IMAGES.auth,
+      depends_on: dbHealthy,
+      environment: {
+        GOTRUE_API_HOST: "0.0.0.0",
+        GOTRUE_API_PORT: 9999,
+        API_EXTERNAL_URL: SUPABASE_URL,
+        GOTRUE_DB_DRIVER: "postgres",
+        GOTRUE_DB_DATABASE_URL: `postgres://supabase_auth_admin:${password}@db:5432/postgres`,
+        GOTRUE_SITE_URL: siteUrl,
+        GOTRUE_JWT_SECRET: SUPABASE_JWT_SECRET,
+        GOTRUE_JWT_EXP: 3600,
+        GOTRUE_JWT_AUD: "authenticated",
+        GOTRUE_JWT_DEFAULT_GROUP_NAME: "authenticated",
+        GOTRUE_JWT_ADMIN_ROLES: "service_role",
+        GOTRUE_EXTERNAL_EMAIL_ENABLED: "true",
+        // No mail server locally: new accounts are confirmed right away
+        GOTRUE_MAILER_AUTOCONFIRM: "true",
+      },
+    },
+    rest: {
+      image: SUPABASE_IMAGES.rest,
+      depends_on: dbHealthy,
+      environment: {
+        PGRST_DB_URI: `postgres://authenticator:${password}@db:5432/postgres`,
+        PGRST_DB_SCHEMAS: "public,graphql_public",
+        PGRST_DB_ANON_ROLE: "anon",
+        PGRST_JWT_SECRET: SUPABASE_JWT_SECRET,
+        PGRST_DB_USE_LEGACY_GUCS: "false",
+      },
+    },
+    kong: {
+      image: SUPABASE_IMAGES.kong,
+      ports: ["54321:8000"],
+      depends_on: ["auth", "rest"],
+      environment: {
+        KONG_DATABASE: "off",
+        KONG_DECLARATIVE_CONFIG: "/home/kong/kong.yml",
+        KONG_DNS_ORDER: "LAST,A,CNAME",
+        KONG_PLUGINS: "cors",
+      },
+      volumes: ["./docker/supabase/kong.yml:/home/kong/kong.yml:ro"],
+    },
+    meta: {
+      image: SUPABASE_IMAGES.meta,
+      depends_on: dbHealthy,
+      environment: {
+        PG_META_PORT: 8080,
+        PG_META_DB_HOST: "db",
+        PG_META_DB_PORT: 5432,
+        PG_META_DB_NAME: "postgres",
+        PG_META_DB_USER: "supabase_admin",
+        PG_META_DB_PASSWORD: password,
+      },
+    },
+    studio: {
+      image: SUPABASE_IMAGES.studio,
+      ports: ["54323:3000"],
+      depends_on: ["meta", "kong"],
+      environment: {
+        STUDIO_PG_META_URL: "http://meta:8080",
+        POSTGRES_PASSWORD: password,
+        DEFAULT_ORGANIZATION_NAME: "Local",
+        DEFAULT_PROJECT_NAME: config.project.name,
+        SUPABASE_URL: SUPABASE_INTERNAL_URL,
+        SUPABASE_PUBLIC_URL: SUPABASE_URL,
+        SUPABASE_ANON_KEY: anonKey,
+        SUPABASE_SERVICE_KEY: serviceKey,
+        AUTH_JWT_SECRET: SUPABASE_JWT_SECRET,
+      },
+    },
+  };
+}
+
+/**
+ * Sign the anon or service_role key the way the Supabase CLI does
+ */
+function supabaseKey(role: "anon" | "service_role"): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({
+    iss: "supabase-demo",
+    role,
+    exp: 1983812996,
+  })}`;
+  const signature = createHmac("sha256", SUPABASE_JWT_SECRET)
+    .update(unsigned)
+    .digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+// ============================================================================
+// STATIC FILES
+// ============================================================================
+
+const DOCKERIGNORE = `# Generated by \`dx container init\`
+**/node_modules
+**/.next
+**/dist
+**/.turbo
+**/.expo
+**/coverage
+**/test-results
+**/playwright-report
+.git
+.devcontainer
+.devkitx
+.vscode
+**/*.log
+**/.env*
+!**/.env.example
+`;
+
+const NGINX_CONF = `server {
+  listen 80;
+  root /usr/share/nginx/html;
+
+  location / {
+    try_files $uri $uri/ /index.html;
+  }
+
+  # Vite fingerprints everything in assets/
+  location /assets/ {
+    expires 1y;
+    add_header Cache-Control "public, immutable";
+  }
+}
+`;
+
+const KONG_CONFIG = `# API gateway of the local Supabase stack: one URL for auth and REST
+_format_version: "2.1"
+_transform: true
+
+services:
+  - name: auth-v1
+    url: http://auth:9999/
+    routes:
+      - name: auth-v1-all
+        strip_path: true
+        paths:
+          - /auth/v1/
+    plugins:
+      - name: cors
+  - name: rest-v1
+    url: http://rest:3000/
+    routes:
+      - name: rest-v1-all
+        strip_path: true
+        paths:
+          - /rest/v1/
+    plugins:
+      - name: cors
+`;
+
+const SUPABASE_ROLES = `-- The Supabase roles log in with the database password
+\\set pgpass \`echo "$POSTGRES_PASSWORD"\`
+
+ALTER USER authenticator WITH PASSWORD :'pgpass';
+ALTER USER supabase_auth_admin WITH PASSWORD :'pgpass';
+ALTER USER supabase_admin WITH PASSWORD :'pgpass';
+`;
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
@@ -0,0 +1,154 @@
+/**
+ * Create Answers
+ * Replayable `dx create` choices: written with --save-answers and read
+ * back with --from, which also accepts an existing project.yaml
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { basename } from "path";
+import { Document, parse } from "yaml";
+import { validateYaml, type JsonSchema } from "./project-schema.js";
+import {
+  ProjectConfigError,
+  readProjectConfig,
+  type ProjectConfig,
+} from "./project-yaml.js";
+import { GLOBAL_CONFIG_SCHEMA, type GlobalConfig } from "./global-config.js";
+import { SHARED_PACKAGES } from "./monorepo-packages.js";
+
+export const DEFAULT_ANSWERS_FILE = "devkitx-answers.yaml";
+
+/**
+ * Same keys as the `defaults` section of ~/.devkitx/config.yaml, plus the
+ * create flags
+ */
+export interface CreateAnswers extends NonNullable<GlobalConfig["defaults"]> {
+  /** Turborepo workspaces in --with form, e.g. "api:api" */
+  workspaces?: string[];
+  skip_install?: boolean;
+  skip_git?: boolean;
+  offline?: boolean;
+  /** Add the GitHub Actions workflow */
+  ci?: boolean;
+}
+
+export const ANSWERS_SCHEMA: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "DevKitX answers file",
+  type: "object",
+  properties: {
+    ...GLOBAL_CONFIG_SCHEMA.properties!.defaults.properties,
+    workspaces: {
+      type: "array",
+      items: {
+        type: "string",
+        pattern: "^(library|api)(:[a-z0-9][a-z0-9-]*)?$",
+      },
+    },
+    skip_install: { type: "boolean" },
+    skip_git: { type: "boolean" },
+    offline: { type: "boolean" },
+    ci: { type: "boolean" },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Read an answers file, or derive answers from a project.yaml. Throws
+ * ProjectConfigError when the file is malformed.
+ */
+export async function readAnswers(path: string): Promise<CreateAnswers> {
+  if (!existsSync(path)) {
+    throw new Error(`Answers file not found: ${path}`);
+  }
+
+  const content = readFileSync(path, "utf-8");
+  let data: unknown = null;
+  try {
+    data = parse(content);
+  } catch {
+    // Syntax errors are reported by validateYaml below
+  }
+
+  if (data && typeof data === "object" && "stack" in data) {
+    const config = await readProjectConfig(path, { local: false });
+    return config ? answersFromProject(config) : {};
+  }
+
+  const issues = validateYaml(content, ANSWERS_SCHEMA);
+  if (issues.length > 0) {
+    throw new ProjectConfigError(path, issues);
+  }
+  return (data ?? {}) as CreateAnswers;
+}
+
+export function writeAnswers(path: string, answers: CreateAnswers): void {
+  const doc = new Document(answers);
+  doc.commentBefore =
+    " DevKitX answers file\n Replay with: dx create <name> --from <this file>";
+  writeFileSync(path, doc.toString());
+}
+
+/**
+ * The choices a project.yaml records. Template plugins and create flags
+ * are not part of it.
+ */
+function answersFromProject(config: ProjectConfig): CreateAnswers {
+  const { stack } = config;
+  const answers: CreateAnswers = {
+    package_manager: stack.package_manager as CreateAnswers["package_manager"],
+    theme: stack.styling?.theme as CreateAnswers["theme"],
+    font: stack.styling?.font as CreateAnswers["font"],
+    state_manager: stack.state?.manager as CreateAnswers["state_manager"],
+  };
+
+  const web = stack.apps.web?.framework ?? "";
+  if (stack.monorepo === "turborepo") {
+    answers.template = "turbo-monorepo";
+    answers.workspaces = turborepoWorkspaces(config);
+  } else if (web.startsWith("next")) answers.template = "next-only";
+  else if (web.startsWith("vite")) answers.template = "vite-only";
+  else if (stack.apps.api?.framework.startsWith("hono"))
+    answers.template = "api";
+  else if (stack.packages?.some((pkg) => pkg.path === ".")) {
+    answers.template = "library";
+  }
+
+  const { primary, secondary } = stack.backend ?? {};
+  answers.backend =
+    primary === "convex" && secondary === "supabase"
+      ? "both"
+      : primary === "convex" || primary === "supabase"
+        ? primary
+        : "none";
+  answers.auth = stack.auth?.provider as CreateAnswers["auth"];
+  if (stack.testing?.unit) {
+    answers.testing = stack.testing.e2e ? "vitest-playwright" : "vitest";
+  }
+  answers.lint = stack.lint?.linter as CreateAnswers["lint"];
+
+  // Drop what the project.yaml did not say
+  return Object.fromEntries(
+    Object.entries(answers).filter(([, value]) => value !== undefined),
+  ) as CreateAnswers;
+}
+
+/**
+ * Hono apps and packages the Turborepo template does not generate itself
+ */
+function turborepoWorkspaces(config: ProjectConfig): string[] | undefined {
+  const { apps, packages = [] } = config.stack;
+  const shared = new Set(SHARED_PACKAGES.map((pkg) => pkg.path));
+
+  const workspaces = [
+    ...packages
+      .filter(
+        (pkg) => pkg.path.startsWith("packages/") && !shared.has(pkg.path),
+      )
+      .map((pkg) => `library:${basename(pkg.path)}`),
+    ...Object.values(apps)
+      .filter((app) => app.framework.startsWith("hono"))
+      .map((app) => `api:${basename(app.path)}`),
+  ];
+  return workspaces.length > 0 ? workspaces : undefined;
+}
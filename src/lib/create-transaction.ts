@@ -0,0 +1,423 @@
+/**
+ * Create Transaction
+ * `dx create` builds the project in a hidden staging folder next to the
+ * target and journals each step, so a failure never leaves a half-built
+ * project behind under the real name. The target may also be an existing
+ * folder holding only a README, LICENSE and git files, which are kept.
+ *
+ * The journal also records the original choices: a project kept with
+ * --keep-on-failure, or finished with skipped failures, carries it in
+ * .devkitx/create-journal.json and `dx repair` re-runs what never completed.
+ */
+
+import {
+  cpSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join } from "path";
+import type {
+  AccentTheme,
+  Font,
+  PackageManager,
+  StateManager,
+} from "./shadcn-config.js";
+import type { BuiltinTemplate, ExtraWorkspace } from "./templates.js";
+import type { AuthProvider } from "./auth-scaffold.js";
+import type { TestingStack } from "./testing-scaffold.js";
+import type { Linter } from "./lint-scaffold.js";
+
+export const JOURNAL_FILENAME = "create-journal.json";
+
+const JOURNAL_VERSION = 1;
+
+export const BACKENDS = ["convex", "supabase", "both", "none"] as const;
+
+/**
+ * Everything `dx create` asked for, enough to rebuild the step list
+ */
+export interface CreateInputs {
+  name: string;
+  template: BuiltinTemplate | "none";
+  /** Plugin name or source as given to --template */
+  plugin?: string;
+  backend: (typeof BACKENDS)[number];
+  auth?: AuthProvider;
+  packageManager: PackageManager;
+  theme: AccentTheme;
+  font: Font;
+  stateManager: StateManager;
+  testing?: TestingStack;
+  lint?: Linter;
+  /** Turborepo only: libraries and APIs from --with */
+  workspaces?: ExtraWorkspace[];
+  ci?: boolean;
+  offline?: boolean;
+  skipInstall?: boolean;
+  skipGit?: boolean;
+}
+
+export interface JournalEntry {
+  id: string;
+  label: string;
+  status: "pending" | "running" | "done" | "skipped" | "failed";
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface CreateJournal {
+  version: number;
+  /** Where the project was meant to end up */
+  target: string;
+  startedAt: string;
+  inputs: CreateInputs;
+  steps: JournalEntry[];
+}
+
+export interface CreateTransaction {
+  /** Where the project ends up */
+  finalPath: string;
+  /** Hidden sibling folder holding the build and the journal */
+  stagingRoot: string;
+  /** Where the project is built (stagingRoot/<name>) */
+  projectPath: string;
+  journalPath: string;
+  journal: CreateJournal;
+  /** finalPath already exists: merge into it instead of renaming */
+  merge: boolean;
+}
+
+/**
+ * Entries of an existing folder that are in the way of `dx create`. Only a
+ * README, a LICENSE, .git and .gitignore may be there.
+ */
+export function blockingEntries(dir: string): string[] {
+  return readdirSync(dir).filter((entry) => !isMergeable(entry));
+}
+
+/**
+ * Create the staging folder. It sits in the same parent as the target so
+ * the final move is a rename on the same filesystem. The project is built
+ * under its name, which differs from the target's for `dx create .`.
+ */
+export function beginTransaction(
+  finalPath: string,
+  inputs: CreateInputs,
+): CreateTransaction {
+  const parent = dirname(finalPath);
+  mkdirSync(parent, { recursive: true });
+
+  const stagingRoot = mkdtempSync(
+    join(parent, `.devkitx-staging-${inputs.name}-`),
+  );
+  const tx: CreateTransaction = {
+    finalPath,
+    stagingRoot,
+    projectPath: join(stagingRoot, inputs.name),
+    journalPath: join(stagingRoot, JOURNAL_FILENAME),
+    journal: {
+      version: JOURNAL_VERSION,
+      target: finalPath,
+      startedAt: new Date().toISOString(),
+      inputs,
+      steps: [],
+    },
+    merge: existsSync(finalPath),
+  };
+  writeJournal(tx.journalPath, tx.journal);
+  return tx;
+}
+
+/**
+ * Record the steps the create will run, all pending
+ */
+export function planSteps(
+  tx: CreateTransaction,
+  steps: Array<{ id: string; label: string }>,
+): void {
+  tx.journal.steps = steps.map(({ id, label }) => ({
+    id,
+    label,
+    status: "pending",
+  }));
+  writeJournal(tx.journalPath, tx.journal);
+}
+
+/**
+ * Record the start of a step
+ */
+export function markStep(
+  tx: CreateTransaction,
+  step: { id: string; label: string },
+): void {
+  const entry = journalEntry(tx.journal, step);
+  entry.status = "running";
+  entry.startedAt = new Date().toISOString();
+  delete entry.finishedAt;
+  writeJournal(tx.journalPath, tx.journal);
+}
+
+/**
+ * Record how a step ended, in the journal at journalPath
+ */
+export function finishStep(
+  journal: CreateJournal,
+  journalPath: string,
+  step: { id: string; label: string },
+  status: "done" | "skipped" | "failed",
+  error?: string,
+): void {
+  const entry = journalEntry(journal, step);
+  entry.status = status;
+  entry.finishedAt = new Date().toISOString();
+  if (error) entry.error = error;
+  else delete entry.error;
+  writeJournal(journalPath, journal);
+}
+
+/**
+ * The journal of a project dx create did not finish, or null when there
+ * is none (or it was written by an incompatible version)
+ */
+export function readJournal(projectPath: string): CreateJournal | null {
+  try {
+    const journal = JSON.parse(
+      readFileSync(projectJournalPath(projectPath), "utf-8"),
+    );
+    return journal?.version === JOURNAL_VERSION &&
+      Array.isArray(journal.steps) &&
+      journal.inputs
+      ? (journal as CreateJournal)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where a kept or partly finished project carries its journal
+ */
+export function projectJournalPath(projectPath: string): string {
+  return join(projectPath, ".devkitx", JOURNAL_FILENAME);
+}
+
+/**
+ * The entry for a step, added as pending when the journal predates it
+ */
+export function journalEntry(
+  journal: CreateJournal,
+  step: { id: string; label: string },
+): JournalEntry {
+  let entry = journal.steps.find((s) => s.id === step.id);
+  if (!entry) {
+    entry = { id: step.id, label: step.label, status: "pending" };
+    journal.steps.push(entry);
+  }
+  return entry;
+}
+
+export function isFinished(entry: JournalEntry): boolean {
+  return entry.status === "done" || entry.status === "skipped";
+}
+
+/**
+ * The step that was running when the create stopped
+ */
+export function runningStep(journal: CreateJournal): JournalEntry | undefined {
+  return journal.steps.find((entry) => entry.status === "running");
+}
+
+/**
+ * Move the finished project into place and remove the staging folder. The
+ * journal goes along when a failed step was skipped, for `dx repair`.
+ */
+export function commitTransaction(tx: CreateTransaction): void {
+  moveIntoPlace(tx);
+  if (!tx.journal.steps.every(isFinished)) keepJournal(tx);
+  rmSync(tx.stagingRoot, { recursive: true, force: true });
+}
+
+export type RollbackResult =
+  | { kind: "removed" }
+  /** --keep-on-failure: the partial project (or just the journal) */
+  | { kind: "kept"; path: string; journalPath: string }
+  /** Cleanup failed and the staging folder is still there */
+  | { kind: "stuck"; path: string };
+
+/**
+ * Mark the running step as failed, then delete everything. With `keep`
+ * (--keep-on-failure) a partial project is moved to its real name instead,
+ * journal included, so it can be inspected and resumed with `dx repair`.
+ */
+export function rollbackTransaction(
+  tx: CreateTransaction,
+  error: unknown,
+  options: { keep?: boolean } = {},
+): RollbackResult {
+  const running = runningStep(tx.journal);
+  if (running) {
+    finishStep(
+      tx.journal,
+      tx.journalPath,
+      running,
+      "failed",
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  if (options.keep) {
+    if (
+      !existsSync(tx.projectPath) ||
+      (existsSync(tx.finalPath) && !tx.merge)
+    ) {
+      return {
+        kind: "kept",
+        path: tx.stagingRoot,
+        journalPath: tx.journalPath,
+      };
+    }
+
+    moveIntoPlace(tx);
+    const journalPath = keepJournal(tx);
+    rmSync(tx.stagingRoot, { recursive: true, force: true });
+    return { kind: "kept", path: tx.finalPath, journalPath };
+  }
+
+  try {
+    rmSync(tx.stagingRoot, { recursive: true, force: true });
+    return { kind: "removed" };
+  } catch {
+    // Windows keeps files locked while a killed child process exits
+    return { kind: "stuck", path: tx.stagingRoot };
+  }
+}
+
+function keepJournal(tx: CreateTransaction): string {
+  const journalPath = projectJournalPath(tx.finalPath);
+  mkdirSync(dirname(journalPath), { recursive: true });
+  cpSync(tx.journalPath, journalPath);
+  return journalPath;
+}
+
+function moveIntoPlace(tx: CreateTransaction): void {
+  if (tx.merge) {
+    mergeIntoPlace(tx);
+    return;
+  }
+  if (existsSync(tx.finalPath)) {
+    throw new Error(`${tx.finalPath} appeared while the project was created`);
+  }
+  move(tx.projectPath, tx.finalPath);
+}
+
+/**
+ * Move the project's entries into the existing folder. Its README and
+ * LICENSE win over generated ones, and .gitignore gets the missing lines.
+ * Conflicts are checked before anything moves, and a failure part-way
+ * moves the entries back, so the folder is either merged or untouched.
+ */
+function mergeIntoPlace(tx: CreateTransaction): void {
+  const existing = readdirSync(tx.finalPath);
+  const moves: Array<{ source: string; target: string }> = [];
+  let gitignore: string | null = null;
+
+  for (const entry of readdirSync(tx.projectPath)) {
+    const source = join(tx.projectPath, entry);
+    const target = join(tx.finalPath, entry);
+
+    if (entry === ".gitignore" && existsSync(target)) {
+      gitignore = readFileSync(source, "utf-8");
+    } else if (REPOSITORY_DOC.test(entry) && existing.some(sameKind(entry))) {
+      continue;
+    } else if (existsSync(target)) {
+      throw new Error(`${target} appeared while the project was created`);
+    } else {
+      moves.push({ source, target });
+    }
+  }
+
+  const gitignorePath = join(tx.finalPath, ".gitignore");
+  const original = gitignore === null ? null : readFileSync(gitignorePath);
+  const moved: typeof moves = [];
+  try {
+    for (const item of moves) {
+      if (existsSync(item.target)) {
+        throw new Error(`${item.target} appeared while the project was merged`);
+      }
+      try {
+        move(item.source, item.target);
+      } catch (error) {
+        // A failed copy can leave part of the entry behind
+        rmSync(item.target, { recursive: true, force: true });
+        throw error;
+      }
+      moved.push(item);
+    }
+    if (gitignore !== null) mergeGitignore(gitignorePath, gitignore);
+  } catch (error) {
+    if (original !== null) writeFileSync(gitignorePath, original);
+    for (const item of moved.reverse()) unmove(item.source, item.target);
+    throw error;
+  }
+}
+
+/**
+ * Undo move(): a copied entry still has its source
+ */
+function unmove(source: string, target: string): void {
+  if (existsSync(source)) rmSync(target, { recursive: true, force: true });
+  else move(target, source);
+}
+
+function mergeGitignore(path: string, generated: string): void {
+  const current = readFileSync(path, "utf-8");
+  const lines = new Set(current.split(/\r?\n/).map((line) => line.trim()));
+  // Blank lines stay so the generated sections keep their spacing
+  const missing = generated
+    .split(/\r?\n/)
+    .filter((line) => !line.trim() || !lines.has(line.trim()))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (!missing) return;
+
+  const separator = current && !current.endsWith("\n") ? "\n" : "";
+  writeFileSync(path, `${current}${separator}\n${missing}\n`);
+}
+
+const REPOSITORY_DOC = /^(readme|license|licence)(\..*)?$/i;
+
+function isMergeable(entry: string): boolean {
+  return (
+    entry === ".git" || entry === ".gitignore" || REPOSITORY_DOC.test(entry)
+  );
+}
+
+/**
+ * README.md and readme.txt are the same file as far as merging goes
+ */
+function sameKind(entry: string): (other: string) => boolean {
+  const kind = entry.toLowerCase().split(".")[0].replace("licence", "license");
+  return (other) =>
+    other.toLowerCase().split(".")[0].replace("licence", "license") === kind;
+}
+
+function move(source: string, target: string): void {
+  try {
+    renameSync(source, target);
+  } catch {
+    // Renames fail across devices and on Windows while files are locked
+    cpSync(source, target, { recursive: true });
+  }
+}
+
+function writeJournal(path: string, journal: CreateJournal): void {
+  writeFileSync(path, JSON.stringify(journal, null, 2));
+}
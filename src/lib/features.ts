@@ -0,0 +1,148 @@
+/**
+ * Feature Roadmap
+ * Moves entries between features.planned / in_progress / implemented in a
+ * project.yaml Document, stamping dates so the file stays a living roadmap
+ */
+
+import { isMap, isSeq, type Document } from "yaml";
+import type { FeatureEntry, FeatureRecord } from "./project-yaml.js";
+
+export const FEATURE_STAGES = [
+  "planned",
+  "in_progress",
+  "implemented",
+] as const;
+export type FeatureStage = (typeof FEATURE_STAGES)[number];
+
+export const STAGE_LABELS: Record<FeatureStage, string> = {
+  planned: "Planned",
+  in_progress: "In Progress",
+  implemented: "Implemented",
+};
+
+export interface LocatedFeature {
+  stage: FeatureStage;
+  index: number;
+  record: FeatureRecord;
+}
+
+export function featureName(entry: FeatureEntry): string {
+  return typeof entry === "string" ? entry : entry.name;
+}
+
+export function toFeatureRecord(entry: FeatureEntry): FeatureRecord {
+  return typeof entry === "string" ? { name: entry } : { ...entry };
+}
+
+/**
+ * Kebab-case slug used for matching names and PRD file names
+ * (docs/prd/<slug>.prd.md, as written by `dx ralph new`)
+ */
+export function featureSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9-]/g, "");
+}
+
+export function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/**
+ * Read every stage as FeatureRecords
+ */
+export function listFeatures(
+  doc: Document,
+): Record<FeatureStage, FeatureRecord[]> {
+  const result = {} as Record<FeatureStage, FeatureRecord[]>;
+  for (const stage of FEATURE_STAGES) {
+    const list = doc.getIn(["features", stage], true);
+    result[stage] = isSeq(list)
+      ? (list.toJSON() as FeatureEntry[]).map(toFeatureRecord)
+      : [];
+  }
+  return result;
+}
+
+/**
+ * Find a feature by exact name, falling back to a slug match
+ * ("Dark Mode" matches "dark-mode")
+ */
+export function findFeature(
+  doc: Document,
+  name: string,
+): LocatedFeature | null {
+  const features = listFeatures(doc);
+  const slug = featureSlug(name);
+
+  for (const matches of [
+    (record: FeatureRecord) => record.name === name,
+    (record: FeatureRecord) => featureSlug(record.name) === slug,
+  ]) {
+    for (const stage of FEATURE_STAGES) {
+      const index = features[stage].findIndex(matches);
+      if (index !== -1) {
+        return { stage, index, record: features[stage][index] };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Append a record to a stage, creating features: and the list if needed
+ */
+export function appendFeature(
+  doc: Document,
+  stage: FeatureStage,
+  record: FeatureRecord,
+): void {
+  const list = doc.getIn(["features", stage], true);
+
+  if (isSeq(list)) {
+    // createProjectConfig writes empty lists as "[]"; switch to block style
+    list.flow = false;
+    list.add(doc.createNode(record));
+  } else {
+    if (!isMap(doc.getIn(["features"], true))) {
+      doc.setIn(["features"], doc.createNode({}));
+    }
+    doc.setIn(["features", stage], doc.createNode([record]));
+  }
+}
+
+export function removeFeature(doc: Document, located: LocatedFeature): void {
+  doc.deleteIn(["features", located.stage, located.index]);
+}
+
+/**
+ * Move a feature to another stage, recording the transition date. Within
+ * its own stage (a new --prd), it is updated in place and keeps its dates.
+ */
+export function moveFeature(
+  doc: Document,
+  located: LocatedFeature,
+  stage: FeatureStage,
+): FeatureRecord {
+  const record = { ...located.record };
+  if (stage === located.stage) {
+    doc.setIn(["features", stage, located.index], doc.createNode(record));
+    return record;
+  }
+
+  if (stage === "in_progress") {
+    record.started ??= today();
+    delete record.completed;
+  } else if (stage === "implemented") {
+    record.completed = today();
+  } else {
+    delete record.started;
+    delete record.completed;
+  }
+
+  removeFeature(doc, located);
+  appendFeature(doc, stage, record);
+  return record;
+}
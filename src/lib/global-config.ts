@@ -0,0 +1,166 @@
+/**
+ * Global Config
+ * User-wide preferences in ~/.devkitx/config.yaml: scaffold defaults for
+ * `dx create`, project search roots, and the editor/terminal `dx open` uses
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join, resolve } from "path";
+import { parse } from "yaml";
+import {
+  validateYaml,
+  type JsonSchema,
+  type ValidationIssue,
+} from "./project-schema.js";
+import { ProjectConfigError } from "./project-yaml.js";
+import { AUTH_PROVIDERS, type AuthProvider } from "./auth-scaffold.js";
+import { TESTING_STACKS, type TestingStack } from "./testing-scaffold.js";
+import { LINTERS, type Linter } from "./lint-scaffold.js";
+import {
+  ACCENT_THEMES,
+  FONTS,
+  PACKAGE_MANAGERS,
+  type AccentTheme,
+  type Font,
+  type PackageManager,
+  type StateManager,
+} from "./shadcn-config.js";
+
+const HOME_DIR = process.env.HOME || process.env.USERPROFILE || "";
+
+export const GLOBAL_CONFIG_PATH = join(HOME_DIR, ".devkitx", "config.yaml");
+
+export interface GlobalConfig {
+  defaults?: {
+    /** Built-in template or installed template plugin name */
+    template?: string;
+    backend?: "convex" | "supabase" | "both" | "none";
+    auth?: AuthProvider;
+    package_manager?: PackageManager;
+    theme?: AccentTheme;
+    font?: Font;
+    state_manager?: StateManager;
+    testing?: TestingStack;
+    lint?: Linter;
+  };
+  search?: {
+    /** Folders `dx list --refresh` scans; "~" expands to the home directory */
+    roots?: string[];
+    depth?: number;
+  };
+  /** Command for `dx open code`, e.g. "cursor" or "zed {path}" */
+  editor?: string;
+  /** Command for `dx open terminal`, e.g. "wt -d {path}" */
+  terminal?: string;
+}
+
+export const GLOBAL_CONFIG_SCHEMA: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "DevKitX global config.yaml",
+  type: "object",
+  properties: {
+    defaults: {
+      type: "object",
+      description: "Used by `dx create` when no flag is given",
+      properties: {
+        template: {
+          type: "string",
+          description: "Built-in template or installed plugin name",
+        },
+        backend: {
+          type: "string",
+          enum: ["convex", "supabase", "both", "none"],
+        },
+        auth: { type: "string", enum: AUTH_PROVIDERS },
+        package_manager: { type: "string", enum: PACKAGE_MANAGERS },
+        theme: { type: "string", enum: ACCENT_THEMES },
+        font: { type: "string", enum: FONTS },
+        state_manager: { type: "string", enum: ["zustand", "jotai", "none"] },
+        testing: { type: "string", enum: TESTING_STACKS },
+        lint: { type: "string", enum: LINTERS },
+      },
+      additionalProperties: false,
+    },
+    search: {
+      type: "object",
+      properties: {
+        roots: { type: "array", items: { type: "string" } },
+        depth: { type: "integer", minimum: 0, maximum: 6 },
+      },
+      additionalProperties: false,
+    },
+    editor: { type: "string" },
+    terminal: { type: "string" },
+  },
+  additionalProperties: false,
+};
+
+let cached: GlobalConfig | undefined;
+
+/**
+ * Validate config.yaml source text against GLOBAL_CONFIG_SCHEMA
+ */
+export function validateGlobalYaml(content: string): ValidationIssue[] {
+  return validateYaml(content, GLOBAL_CONFIG_SCHEMA);
+}
+
+/**
+ * Read ~/.devkitx/config.yaml (empty when missing). Throws
+ * ProjectConfigError when the file is malformed.
+ */
+export function readGlobalConfig(): GlobalConfig {
+  if (cached) return cached;
+  if (!existsSync(GLOBAL_CONFIG_PATH)) return (cached = {});
+
+  const content = readFileSync(GLOBAL_CONFIG_PATH, "utf-8");
+  const issues = validateGlobalYaml(content);
+  if (issues.length > 0) {
+    throw new ProjectConfigError(GLOBAL_CONFIG_PATH, issues);
+  }
+
+  return (cached = (parse(content) ?? {}) as GlobalConfig);
+}
+
+/**
+ * Like readGlobalConfig, but falls back to built-in defaults when the
+ * file is broken, so a typo never blocks unrelated commands
+ */
+export function readGlobalConfigSafe(): GlobalConfig {
+  try {
+    return readGlobalConfig();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Expand "~" and resolve a search root from config.yaml
+ */
+export function expandHome(path: string): string {
+  if (path === "~") return HOME_DIR;
+  if (path.startsWith("~/") || path.startsWith("~\\")) {
+    return join(HOME_DIR, path.slice(2));
+  }
+  return resolve(path);
+}
+
+/**
+ * Split a configured command into argv, substituting {path}. Without a
+ * placeholder the path is appended unless `appendPath` is false (for
+ * terminals, which are started in the directory instead).
+ */
+export function buildCommand(
+  command: string,
+  path: string,
+  appendPath = true,
+): string[] {
+  const parts =
+    command
+      .match(/"[^"]*"|'[^']*'|\S+/g)
+      ?.map((part) => part.replace(/^["']|["']$/g, "")) ?? [];
+
+  if (parts.some((part) => part.includes("{path}"))) {
+    return parts.map((part) => part.replaceAll("{path}", path));
+  }
+  return appendPath ? [...parts, path] : parts;
+}
@@ -0,0 +1,129 @@
+/**
+ * Library Scaffold
+ * The `library` template: a TypeScript package built with tsup into ESM
+ * and CommonJS with type declarations, tested with Vitest. Used for
+ * standalone projects and for packages/<name> in a Turborepo project.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+export interface LibraryOptions {
+  /** npm package name, e.g. "my-lib" or "@repo/utils" */
+  packageName: string;
+  /** Private workspace package: no publish metadata */
+  workspace?: boolean;
+}
+
+const VERSIONS: Record<string, string> = {
+  tsup: "^8.5.0",
+  typescript: "^5.9.2",
+  vitest: "^3.2.4",
+};
+
+/**
+ * Every file of the library, keyed by path relative to its folder
+ */
+export function libraryFiles(options: LibraryOptions): Record<string, string> {
+  return {
+    "package.json": json(packageJson(options)),
+    "tsconfig.json": json({
+      compilerOptions: {
+        target: "ES2022",
+        lib: ["ES2022"],
+        module: "ESNext",
+        moduleResolution: "bundler",
+        strict: true,
+        noUncheckedIndexedAccess: true,
+        declaration: true,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        isolatedModules: true,
+        noEmit: true,
+      },
+      include: ["src", "tsup.config.ts"],
+    }),
+    "tsup.config.ts": `import { defineConfig } from "tsup";
+
+export default defineConfig({
+  entry: ["src/index.ts"],
+  format: ["esm", "cjs"],
+  dts: true,
+  sourcemap: true,
+  clean: true,
+});
+`,
+    "src/index.ts": `/**
+ * Public API of ${options.packageName}
+ */
+
+export function greet(name: string): string {
+  return \`Hello, \${name}!\`;
+}
+`,
+    "src/index.test.ts": `import { describe, expect, it } from "vitest";
+import { greet } from "./index";
+
+describe("greet", () => {
+  it("greets by name", () => {
+    expect(greet("world")).toBe("Hello, world!");
+  });
+});
+`,
+    ".gitignore": `node_modules/
+dist/
+`,
+  };
+}
+
+/**
+ * Write the library into `dir` (created if needed). Returns the written
+ * paths (relative).
+ */
+export function writeLibrary(dir: string, options: LibraryOptions): string[] {
+  const files = libraryFiles(options);
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(dir, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+  return Object.keys(files);
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function packageJson(options: LibraryOptions) {
+  return {
+    name: options.packageName,
+    version: "0.1.0",
+    ...(options.workspace ? { private: true } : { license: "MIT" }),
+    type: "module",
+    // "import" gets index.js + index.d.ts, "require" gets index.cjs + index.d.cts
+    main: "./dist/index.cjs",
+    module: "./dist/index.js",
+    types: "./dist/index.d.ts",
+    exports: {
+      ".": {
+        import: {
+          types: "./dist/index.d.ts",
+          default: "./dist/index.js",
+        },
+        require: {
+          types: "./dist/index.d.cts",
+          default: "./dist/index.cjs",
+        },
+      },
+    },
+    files: ["dist"],
+    scripts: {
+      build: "tsup",
+      dev: "tsup --watch",
+      test: "vitest run",
+      "test:watch": "vitest",
+      typecheck: "tsc --noEmit",
+    },
+    devDependencies: VERSIONS,
+  };
+}
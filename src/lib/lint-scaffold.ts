@@ -0,0 +1,587 @@
+/**
+ * Lint Scaffold
+ * ESLint + Prettier or Biome for every template: configs, lint and format
+ * scripts, and VS Code settings. A Turborepo project shares one ESLint
+ * config through packages/config-eslint, or one biome.json at the root.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join } from "path";
+import { workspaceVersion } from "./monorepo-packages.js";
+import type { PackageManager } from "./shadcn-config.js";
+
+export const LINTERS = ["eslint", "biome", "none"] as const;
+export type Linter = (typeof LINTERS)[number];
+
+export const LINTER_LABELS: Record<Linter, string> = {
+  eslint: "ESLint + Prettier",
+  biome: "Biome",
+  none: "None",
+};
+
+/**
+ * Formatter that goes with each linter, as recorded in project.yaml
+ */
+export const LINTER_FORMATTERS: Record<
+  Exclude<Linter, "none">,
+  "prettier" | "biome"
+> = {
+  eslint: "prettier",
+  biome: "biome",
+};
+
+/**
+ * Rules a package needs on top of the TypeScript ones
+ */
+export type EslintPreset = "base" | "react" | "next";
+
+export const LINT_VERSIONS: Record<string, string> = {
+  eslint: "^9.36.0",
+  "@eslint/js": "^9.36.0",
+  "typescript-eslint": "^8.44.1",
+  globals: "^16.4.0",
+  "eslint-config-prettier": "^10.1.8",
+  "eslint-plugin-react-hooks": "^5.2.0",
+  "@next/eslint-plugin-next": "^15.5.4",
+  prettier: "^3.6.2",
+  "@biomejs/biome": "^2.2.4",
+};
+
+/**
+ * Configs written by the templates (create-next-app, the Vite starter)
+ * that a DevKitX config replaces
+ */
+const TEMPLATE_ESLINT_CONFIGS = [
+  "eslint.config.js",
+  "eslint.config.mjs",
+  "eslint.config.cjs",
+  "eslint.config.ts",
+  ".eslintrc.json",
+  ".eslintrc.js",
+  ".eslintrc.cjs",
+];
+
+/**
+ * Template ESLint packages that are unused once the config is replaced
+ */
+const TEMPLATE_ESLINT_DEPS = [
+  "eslint-config-next",
+  "@eslint/eslintrc",
+  "eslint-plugin-react-refresh",
+];
+
+export interface LintOptions {
+  linter: Exclude<Linter, "none">;
+  preset: EslintPreset;
+}
+
+/**
+ * Dev dependencies of a single project's lint setup
+ */
+export function lintDependencies(
+  linter: Linter,
+  preset: EslintPreset,
+): string[] {
+  if (linter === "none") return [];
+  if (linter === "biome") return ["@biomejs/biome"];
+  return [
+    "eslint",
+    "@eslint/js",
+    "typescript-eslint",
+    "globals",
+    "eslint-config-prettier",
+    "prettier",
+    ...(preset !== "base" ? ["eslint-plugin-react-hooks"] : []),
+    ...(preset === "next" ? ["@next/eslint-plugin-next"] : []),
+  ];
+}
+
+/**
+ * The file that configures a linter in a project (relative), or null when
+ * there is none. A Turborepo project has its ESLint config in
+ * packages/config-eslint.
+ */
+export function findLintConfig(
+  projectPath: string,
+  linter: string,
+): string | null {
+  const candidates =
+    linter === "biome"
+      ? ["biome.json", "biome.jsonc"]
+      : [
+          ...TEMPLATE_ESLINT_CONFIGS.filter((file) =>
+            file.startsWith("eslint.config."),
+          ),
+          "packages/config-eslint/package.json",
+        ];
+  return candidates.find((file) => existsSync(join(projectPath, file))) ?? null;
+}
+
+// ============================================================================
+// SINGLE PROJECT
+// ============================================================================
+
+/**
+ * Write the lint setup of a single project: config, scripts, missing dev
+ * dependencies (installed by the caller) and editor settings. Returns the
+ * written paths (relative).
+ */
+export function writeLint(projectPath: string, options: LintOptions): string[] {
+  const { linter, preset } = options;
+  removeTemplateEslint(projectPath);
+
+  const files: Record<string, string> =
+    linter === "biome"
+      ? { "biome.json": biomeJson() }
+      : {
+          "eslint.config.mjs": standaloneEslintConfig(preset),
+          ".prettierrc": json({}),
+          ".prettierignore": PRETTIER_IGNORE,
+        };
+  Object.assign(files, editorFiles(linter, false));
+  writeFiles(projectPath, files);
+
+  updatePackageJson(projectPath, (pkg) => {
+    pkg.scripts = { ...pkg.scripts, ...lintScripts(linter, "eslint .") };
+    addDevDependencies(pkg, lintDependencies(linter, preset));
+  });
+  allowVscodeSettings(projectPath);
+
+  return Object.keys(files);
+}
+
+function lintScripts(
+  linter: Exclude<Linter, "none">,
+  eslintCommand: string,
+): Record<string, string> {
+  return linter === "biome"
+    ? {
+        lint: "biome lint .",
+        format: "biome format --write .",
+        "format:check": "biome format .",
+      }
+    : {
+        lint: eslintCommand,
+        format: "prettier --write .",
+        "format:check": "prettier --check .",
+      };
+}
+
+// ============================================================================
+// TURBOREPO
+// ============================================================================
+
+/**
+ * Write the lint setup of a Turborepo project. ESLint: @repo/config-eslint
+ * plus an eslint.config.mjs and lint script in every app and package, run
+ * through `turbo lint`, and Prettier at the root. Biome: one biome.json
+ * and root scripts. Returns the written paths (relative).
+ */
+export function writeMonorepoLint(
+  projectPath: string,
+  linter: Exclude<Linter, "none">,
+  packageManager: PackageManager,
+): string[] {
+  const workspaces = listWorkspaces(projectPath);
+  for (const workspace of workspaces) {
+    removeTemplateEslint(join(projectPath, workspace));
+  }
+
+  const files: Record<string, string> = editorFiles(linter, true);
+
+  if (linter === "biome") {
+    files["biome.json"] = biomeJson();
+    for (const workspace of workspaces) {
+      // Linting runs once from the root
+      updatePackageJson(join(projectPath, workspace), (pkg) => {
+        delete pkg.scripts?.lint;
+      });
+    }
+  } else {
+    files[".prettierrc"] = json({});
+    files[".prettierignore"] = PRETTIER_IGNORE;
+    Object.assign(files, configEslintPackage());
+
+    for (const workspace of workspaces) {
+      const dir = join(projectPath, workspace);
+      const preset = eslintPreset(dir);
+      files[`${workspace}/eslint.config.mjs`] =
+        `import { ${preset}Config } from "@repo/config-eslint/${preset}";
+
+export default ${preset}Config;
+`;
+      updatePackageJson(dir, (pkg) => {
+        pkg.scripts = { ...pkg.scripts, lint: "eslint ." };
+        pkg.devDependencies = {
+          ...pkg.devDependencies,
+          "@repo/config-eslint": workspaceVersion(packageManager),
+          eslint: LINT_VERSIONS.eslint,
+        };
+      });
+    }
+  }
+  writeFiles(projectPath, files);
+
+  updatePackageJson(projectPath, (pkg) => {
+    pkg.scripts = { ...pkg.scripts, ...lintScripts(linter, "turbo lint") };
+    addDevDependencies(
+      pkg,
+      linter === "biome" ? ["@biomejs/biome"] : ["prettier"],
+    );
+  });
+
+  return Object.keys(files);
+}
+
+/**
+ * apps/* and packages/* with a package.json, except the config packages
+ */
+function listWorkspaces(projectPath: string): string[] {
+  const workspaces: string[] = [];
+  for (const parent of ["apps", "packages"]) {
+    const parentPath = join(projectPath, parent);
+    if (!existsSync(parentPath)) continue;
+    for (const entry of readdirSync(parentPath, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name.startsWith("config-")) continue;
+      if (existsSync(join(parentPath, entry.name, "package.json"))) {
+        workspaces.push(`${parent}/${entry.name}`);
+      }
+    }
+  }
+  return workspaces.sort();
+}
+
+/**
+ * ESLint preset for a workspace, from the frameworks it depends on
+ */
+function eslintPreset(dir: string): EslintPreset {
+  const pkg = JSON.parse(readFileSync(join(dir, "package.json"), "utf-8"));
+  const deps = {
+    ...pkg.dependencies,
+    ...pkg.devDependencies,
+    ...pkg.peerDependencies,
+  };
+  if ("next" in deps) return "next";
+  if ("react" in deps) return "react";
+  return "base";
+}
+
+function configEslintPackage(): Record<string, string> {
+  const dir = "packages/config-eslint";
+  return {
+    [`${dir}/package.json`]: json({
+      name: "@repo/config-eslint",
+      version: "0.1.0",
+      private: true,
+      type: "module",
+      exports: {
+        "./base": "./base.js",
+        "./react": "./react.js",
+        "./next": "./next.js",
+      },
+      dependencies: versions(
+        lintDependencies("eslint", "next").filter(
+          (name) => name !== "eslint" && name !== "prettier",
+        ),
+      ),
+      peerDependencies: { eslint: LINT_VERSIONS.eslint },
+    }),
+    [`${dir}/base.js`]: configSource(
+      BASE_IMPORTS,
+      "/** TypeScript rules for every package; Prettier owns the formatting */\nexport const baseConfig =",
+      [...BASE_ENTRIES, "prettier"],
+    ),
+    [`${dir}/react.js`]: configSource(
+      [...REACT_IMPORTS, `import { baseConfig } from "./base.js";`],
+      "export const reactConfig =",
+      ["baseConfig", ...REACT_ENTRIES],
+    ),
+    [`${dir}/next.js`]: configSource(
+      [...NEXT_IMPORTS, `import { reactConfig } from "./react.js";`],
+      "export const nextConfig =",
+      ["reactConfig", ...NEXT_ENTRIES],
+    ),
+  };
+}
+
+// ============================================================================
+// FILE CONTENT
+// ============================================================================
+
+const BASE_IMPORTS = [
+  `import js from "@eslint/js";`,
+  `import prettier from "eslint-config-prettier";`,
+  `import globals from "globals";`,
+  `import tseslint from "typescript-eslint";`,
+];
+const REACT_IMPORTS = [
+  `import reactHooks from "eslint-plugin-react-hooks";`,
+  `import globals from "globals";`,
+];
+const NEXT_IMPORTS = [`import nextPlugin from "@next/eslint-plugin-next";`];
+
+const BASE_ENTRIES = [
+  `{
+    ignores: [
+      "**/dist/**",
+      "**/.next/**",
+      "**/.expo/**",
+      "**/.turbo/**",
+      "**/coverage/**",
+      "**/playwright-report/**",
+      "**/test-results/**",
+      "**/convex/_generated/**",
+      "**/next-env.d.ts",
+    ],
+  }`,
+  "js.configs.recommended",
+  "tseslint.configs.recommended",
+  `{
+    languageOptions: { globals: globals.node },
+    rules: {
+      "@typescript-eslint/no-unused-vars": [
+        "error",
+        { argsIgnorePattern: "^_", varsIgnorePattern: "^_" },
+      ],
+    },
+  }`,
+  `// Tool configs such as metro.config.js are CommonJS
+  {
+    files: ["**/*.cjs", "**/*.config.js"],
+    languageOptions: { sourceType: "commonjs" },
+    rules: { "@typescript-eslint/no-require-imports": "off" },
+  }`,
+];
+const REACT_ENTRIES = [
+  `reactHooks.configs["recommended-latest"]`,
+  "{ languageOptions: { globals: globals.browser } }",
+];
+const NEXT_ENTRIES = [
+  `{
+    plugins: { "@next/next": nextPlugin },
+    rules: {
+      ...nextPlugin.configs.recommended.rules,
+      ...nextPlugin.configs["core-web-vitals"].rules,
+    },
+  }`,
+];
+
+/**
+ * One eslint.config.mjs holding the whole preset. Prettier goes last so
+ * it turns off every rule that fights the formatter.
+ */
+function standaloneEslintConfig(preset: EslintPreset): string {
+  const react = preset !== "base";
+  const next = preset === "next";
+  return configSource(
+    [
+      ...BASE_IMPORTS,
+      ...(react ? REACT_IMPORTS : []),
+      ...(next ? NEXT_IMPORTS : []),
+    ],
+    "export default",
+    [
+      ...BASE_ENTRIES,
+      ...(react ? REACT_ENTRIES : []),
+      ...(next ? NEXT_ENTRIES : []),
+      "prettier",
+    ],
+  );
+}
+
+/**
+ * A flat config module: `<declaration> defineConfig(<entries>)`
+ */
+function configSource(
+  imports: string[],
+  declaration: string,
+  entries: string[],
+): string {
+  const lines = [
+    ...new Set([...imports, `import { defineConfig } from "eslint/config";`]),
+  ].sort(byModule);
+  return `${lines.join("\n")}
+
+${declaration} defineConfig(
+${entries.map((entry) => `  ${entry},`).join("\n")}
+);
+`;
+}
+
+/**
+ * Import lines sorted by module specifier
+ */
+function byModule(a: string, b: string): number {
+  const from = (line: string) => line.slice(line.lastIndexOf(" from ") + 6);
+  return from(a).localeCompare(from(b));
+}
+
+function biomeJson(): string {
+  return json({
+    $schema: "https://biomejs.dev/schemas/2.2.4/schema.json",
+    vcs: { enabled: true, clientKind: "git", useIgnoreFile: true },
+    files: {
+      includes: [
+        "**",
+        "!**/dist",
+        "!**/.next",
+        "!**/.expo",
+        "!**/.turbo",
+        "!**/convex/_generated",
+        "!**/next-env.d.ts",
+        // Biome 2.2 cannot parse the Tailwind v4 directives
+        "!**/*.css",
+      ],
+    },
+    formatter: { enabled: true, indentStyle: "space" },
+    linter: { enabled: true, rules: { recommended: true } },
+    assist: { actions: { source: { organizeImports: "on" } } },
+  });
+}
+
+const PRETTIER_IGNORE = `pnpm-lock.yaml
+package-lock.json
+yarn.lock
+bun.lock
+convex/_generated
+
+# Maintained by DevKitX
+project.yaml
+project.local.yaml
+PROJECT-OVERVIEW.md
+AGENT-EDITABLE.md
+`;
+
+/**
+ * Format on save with the chosen tool, and recommend its extension
+ */
+function editorFiles(
+  linter: Exclude<Linter, "none">,
+  monorepo: boolean,
+): Record<string, string> {
+  const settings =
+    linter === "biome"
+      ? {
+          "editor.defaultFormatter": "biomejs.biome",
+          "editor.formatOnSave": true,
+          "editor.codeActionsOnSave": {
+            "source.fixAll.biome": "explicit",
+            "source.organizeImports.biome": "explicit",
+          },
+        }
+      : {
+          "editor.defaultFormatter": "esbenp.prettier-vscode",
+          "editor.formatOnSave": true,
+          "editor.codeActionsOnSave": { "source.fixAll.eslint": "explicit" },
+          // Each workspace has its own eslint.config.mjs
+          ...(monorepo && {
+            "eslint.workingDirectories": [{ mode: "auto" }],
+          }),
+        };
+
+  return {
+    ".vscode/settings.json": json(settings),
+    ".vscode/extensions.json": json({
+      recommendations:
+        linter === "biome"
+          ? ["biomejs.biome"]
+          : ["dbaeumer.vscode-eslint", "esbenp.prettier-vscode"],
+    }),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Drop the ESLint setup a template came with, so only one config is found
+ */
+function removeTemplateEslint(dir: string): void {
+  for (const file of TEMPLATE_ESLINT_CONFIGS) {
+    rmSync(join(dir, file), { force: true });
+  }
+  if (!existsSync(join(dir, "package.json"))) return;
+
+  updatePackageJson(dir, (pkg) => {
+    for (const name of TEMPLATE_ESLINT_DEPS) {
+      delete pkg.dependencies?.[name];
+      delete pkg.devDependencies?.[name];
+    }
+    if (pkg.scripts?.lint === "next lint") delete pkg.scripts.lint;
+  });
+}
+
+/**
+ * The template .gitignore of Next.js and Vite ignores .vscode/* except
+ * extensions.json; the shared settings belong in git too
+ */
+function allowVscodeSettings(projectPath: string): void {
+  const path = join(projectPath, ".gitignore");
+  if (!existsSync(path)) return;
+  const gitignore = readFileSync(path, "utf-8");
+  const lines = gitignore.split(/\r?\n/);
+  if (
+    !lines.includes(".vscode/*") ||
+    lines.includes("!.vscode/settings.json")
+  ) {
+    return;
+  }
+  writeFileSync(
+    path,
+    gitignore.replace(/^\.vscode\/\*$/m, ".vscode/*\n!.vscode/settings.json"),
+  );
+}
+
+interface PackageJson {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+function updatePackageJson(
+  dir: string,
+  update: (pkg: PackageJson) => void,
+): void {
+  const path = join(dir, "package.json");
+  const pkg = JSON.parse(readFileSync(path, "utf-8"));
+  update(pkg);
+  writeFileSync(path, json(pkg));
+}
+
+/**
+ * Add what is missing; versions already installed stay
+ */
+function addDevDependencies(pkg: PackageJson, names: string[]): void {
+  const devDependencies = { ...pkg.devDependencies };
+  for (const name of names) {
+    if (!pkg.dependencies?.[name])
+      devDependencies[name] ??= LINT_VERSIONS[name];
+  }
+  pkg.devDependencies = devDependencies;
+}
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(dir, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+}
+
+function versions(packages: string[]): Record<string, string> {
+  return Object.fromEntries(
+    packages.map((name) => [name, LINT_VERSIONS[name]]),
+  );
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
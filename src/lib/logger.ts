@@ -4,7 +4,7 @@
 
 import chalk from "chalk";
 import { appendFileSync, existsSync, mkdirSync } from "fs";
-import { join } from "path";
+import { dirname, join } from "path";
 
 export type LogLevel = "debug" | "info" | "warn" | "error" | "success";
 
@@ -18,13 +18,16 @@ interface LogEntry {
 class Logger {
   private logFile: string | null = null;
   private verbose: boolean = false;
+  /** Lines waiting for the project folder to exist */
+  private pending: string[] = [];
 
+  /**
+   * Log to <projectPath>/.devkitx/setup.log. The project folder may not
+   * exist yet (dx create); lines are held until it does.
+   */
   init(projectPath: string): void {
-    const logDir = join(projectPath, ".devkitx");
-    if (!existsSync(logDir)) {
-      mkdirSync(logDir, { recursive: true });
-    }
-    this.logFile = join(logDir, "setup.log");
+    this.logFile = join(projectPath, ".devkitx", "setup.log");
+    this.pending = [];
     this.log("info", "DevKitX setup started");
   }
 
@@ -32,6 +35,14 @@ class Logger {
     this.verbose = verbose;
   }
 
+  get isVerbose(): boolean {
+    return this.verbose;
+  }
+
+  get file(): string | null {
+    return this.logFile;
+  }
+
   private formatEntry(entry: LogEntry): string {
     let line = `[${entry.timestamp}] [${entry.level.toUpperCase()}] ${entry.message}`;
     if (entry.details) {
@@ -40,16 +51,30 @@ class Logger {
     return line;
   }
 
-  private writeToFile(entry: LogEntry): void {
-    if (this.logFile) {
-      try {
-        appendFileSync(this.logFile, this.formatEntry(entry) + "\n");
-      } catch {
-        // Silently fail file logging
-      }
+  private writeToFile(text: string): void {
+    if (!this.logFile) return;
+    this.pending.push(text);
+
+    const logDir = dirname(this.logFile);
+    if (!existsSync(dirname(logDir))) return;
+    try {
+      mkdirSync(logDir, { recursive: true });
+      appendFileSync(this.logFile, this.pending.join("\n") + "\n");
+      this.pending = [];
+    } catch {
+      // Silently fail file logging
     }
   }
 
+  /**
+   * Raw command output, written to the log file only
+   */
+  output(text: string): void {
+    const trimmed = text.trimEnd();
+    if (trimmed)
+      this.writeToFile(trimmed.replace(/^/gm, "  | ").replace(/ +$/gm, ""));
+  }
+
   log(level: LogLevel, message: string, details?: unknown): void {
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
@@ -58,7 +83,7 @@ class Logger {
       details,
     };
 
-    this.writeToFile(entry);
+    this.writeToFile(this.formatEntry(entry));
 
     // Console output based on level
     switch (level) {
@@ -117,9 +142,19 @@ class Logger {
     this.log("success", `Completed: ${stepName}`);
   }
 
+  /**
+   * File only: the step runner prints failures itself
+   */
   stepFailed(stepName: string, error: unknown): void {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    this.log("error", `Failed: ${stepName}`, { error: errorMessage });
+    this.writeToFile(
+      this.formatEntry({
+        timestamp: new Date().toISOString(),
+        level: "error",
+        message: `Failed: ${stepName}`,
+        details: { error: errorMessage },
+      }),
+    );
   }
 }
 
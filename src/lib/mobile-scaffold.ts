@@ -0,0 +1,287 @@
+/**
+ * Mobile Scaffold
+ * The Expo Router app (apps/mobile) of the Turborepo template: Expo SDK 52,
+ * NativeWind v4, @repo/shared and a client for the chosen backend
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { workspaceVersion } from "./monorepo-packages.js";
+import type { PackageManager } from "./shadcn-config.js";
+
+export interface MobileAppOptions {
+  /** Root project name; used for the app name, slug and URL scheme */
+  name: string;
+  backend: "convex" | "supabase" | "both" | "none";
+  packageManager: PackageManager;
+}
+
+/**
+ * Versions matching Expo SDK 52 (what `expo install` would pick)
+ */
+const SDK_VERSIONS: Record<string, string> = {
+  expo: "~52.0.0",
+  "expo-constants": "~17.0.8",
+  "expo-linking": "~7.0.5",
+  "expo-router": "~4.0.0",
+  "expo-status-bar": "~2.0.1",
+  react: "18.3.1",
+  "react-native": "0.76.9",
+  "react-native-reanimated": "~3.16.1",
+  "react-native-safe-area-context": "4.12.0",
+  "react-native-screens": "~4.4.0",
+  "@react-native-async-storage/async-storage": "1.23.1",
+  "react-native-url-polyfill": "^2.0.0",
+  nativewind: "^4.1.23",
+  tailwindcss: "^3.4.17",
+  convex: "^1.17.4",
+  "@supabase/supabase-js": "^2.47.10",
+  "@babel/core": "^7.25.2",
+  "@types/react": "~18.3.12",
+  typescript: "~5.3.3",
+};
+
+/**
+ * Every file of apps/mobile, keyed by path relative to the app
+ */
+export function mobileAppFiles(
+  options: MobileAppOptions,
+): Record<string, string> {
+  const { name, backend } = options;
+  const convex = backend === "convex" || backend === "both";
+  const supabase = backend === "supabase" || backend === "both";
+
+  const files: Record<string, string> = {
+    "package.json": json(packageJson(options, convex, supabase)),
+    "app.json": json({
+      expo: {
+        name,
+        slug: name,
+        scheme: name,
+        version: "0.1.0",
+        orientation: "portrait",
+        userInterfaceStyle: "automatic",
+        newArchEnabled: true,
+        ios: { supportsTablet: true },
+        web: { bundler: "metro", output: "static" },
+        plugins: ["expo-router"],
+        experiments: { typedRoutes: true },
+      },
+    }),
+    "tsconfig.json": json({
+      extends: "expo/tsconfig.base",
+      compilerOptions: {
+        strict: true,
+        paths: { "@/*": ["./*"] },
+      },
+      include: [
+        "**/*.ts",
+        "**/*.tsx",
+        ".expo/types/**/*.ts",
+        "expo-env.d.ts",
+        "nativewind-env.d.ts",
+      ],
+    }),
+    "babel.config.js": `module.exports = function (api) {
+  api.cache(true);
+  return {
+    presets: [
+      ["babel-preset-expo", { jsxImportSource: "nativewind" }],
+      "nativewind/babel",
+    ],
+  };
+};
+`,
+    // Expo SDK 52 resolves workspace packages in monorepos by itself
+    "metro.config.js": `const { getDefaultConfig } = require("expo/metro-config");
+const { withNativeWind } = require("nativewind/metro");
+
+const config = getDefaultConfig(__dirname);
+
+module.exports = withNativeWind(config, { input: "./global.css" });
+`,
+    "tailwind.config.js": `/** @type {import('tailwindcss').Config} */
+module.exports = {
+  content: ["./app/**/*.{js,jsx,ts,tsx}", "./components/**/*.{js,jsx,ts,tsx}"],
+  presets: [require("nativewind/preset")],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
+`,
+    "global.css": `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+`,
+    "nativewind-env.d.ts": `/// <reference types="nativewind/types" />
+`,
+    ".gitignore": `node_modules/
+.expo/
+dist/
+web-build/
+expo-env.d.ts
+*.jks
+*.p8
+*.p12
+*.key
+*.mobileprovision
+ios/
+android/
+`,
+    "app/_layout.tsx": layoutSource(convex),
+    "app/index.tsx": `import { Text, View } from "react-native";
+import { cn } from "@repo/shared";
+
+export default function Home() {
+  return (
+    <View className="flex-1 items-center justify-center bg-white dark:bg-zinc-950">
+      <Text className={cn("text-2xl font-bold", "text-zinc-900 dark:text-white")}>
+        ${name}
+      </Text>
+      <Text className="mt-2 text-zinc-500">Edit app/index.tsx to get started</Text>
+    </View>
+  );
+}
+`,
+  };
+
+  if (supabase) {
+    files["lib/supabase.ts"] = `import "react-native-url-polyfill/auto";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createClient } from "@supabase/supabase-js";
+
+export const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!,
+  {
+    auth: {
+      storage: AsyncStorage,
+      autoRefreshToken: true,
+      persistSession: true,
+      detectSessionInUrl: false,
+    },
+  },
+);
+`;
+  }
+
+  const env = [
+    ...(convex ? ["EXPO_PUBLIC_CONVEX_URL="] : []),
+    ...(supabase
+      ? ["EXPO_PUBLIC_SUPABASE_URL=", "EXPO_PUBLIC_SUPABASE_ANON_KEY="]
+      : []),
+  ];
+  if (env.length > 0) files[".env.example"] = `${env.join("\n")}\n`;
+
+  return files;
+}
+
+/**
+ * Write apps/mobile into `dir` (created if needed). Returns the written
+ * paths (relative).
+ */
+export function writeMobileApp(
+  dir: string,
+  options: MobileAppOptions,
+): string[] {
+  const files = mobileAppFiles(options);
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(dir, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+  return Object.keys(files);
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function versions(packages: string[]): Record<string, string> {
+  return Object.fromEntries(
+    [...packages].sort().map((name) => [name, SDK_VERSIONS[name]]),
+  );
+}
+
+function packageJson(
+  options: MobileAppOptions,
+  convex: boolean,
+  supabase: boolean,
+) {
+  return {
+    name: "mobile",
+    version: "0.1.0",
+    private: true,
+    main: "expo-router/entry",
+    scripts: {
+      dev: "expo start",
+      android: "expo start --android",
+      ios: "expo start --ios",
+      web: "expo start --web",
+    },
+    dependencies: {
+      "@repo/shared": workspaceVersion(options.packageManager),
+      ...versions([
+        "expo",
+        "expo-constants",
+        "expo-linking",
+        "expo-router",
+        "expo-status-bar",
+        "nativewind",
+        "react",
+        "react-native",
+        "react-native-reanimated",
+        "react-native-safe-area-context",
+        "react-native-screens",
+        "tailwindcss",
+        ...(convex ? ["convex"] : []),
+        ...(supabase
+          ? [
+              "@supabase/supabase-js",
+              "@react-native-async-storage/async-storage",
+              "react-native-url-polyfill",
+            ]
+          : []),
+      ]),
+    },
+    devDependencies: versions(["@babel/core", "@types/react", "typescript"]),
+  };
+}
+
+function layoutSource(convex: boolean): string {
+  if (!convex) {
+    return `import "../global.css";
+import { Stack } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+
+export default function RootLayout() {
+  return (
+    <>
+      <Stack />
+      <StatusBar style="auto" />
+    </>
+  );
+}
+`;
+  }
+
+  return `import "../global.css";
+import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { Stack } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+
+const convex = new ConvexReactClient(process.env.EXPO_PUBLIC_CONVEX_URL!, {
+  unsavedChangesWarning: false,
+});
+
+export default function RootLayout() {
+  return (
+    <ConvexProvider client={convex}>
+      <Stack />
+      <StatusBar style="auto" />
+    </ConvexProvider>
+  );
+}
+`;
+}
@@ -0,0 +1,583 @@
+/**
+ * Monorepo Packages
+ * The shared packages of the Turborepo template. `dx create` writes them
+ * and `dx repair` restores missing ones.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { COMPONENT_SOURCES, UTILS_SOURCE } from "./offline-components.js";
+import { globalsCss, PINNED_VERSIONS } from "./offline-scaffold.js";
+import {
+  ACCENT_THEMES,
+  DEFAULTS,
+  FONT_LABELS,
+  FONTS,
+  PACKAGE_MANAGERS,
+  yarnFlavor,
+  type AccentTheme,
+  type Font,
+  type PackageManager,
+} from "./shadcn-config.js";
+import type { ProjectConfig } from "./project-yaml.js";
+
+export interface SharedPackage {
+  name: string;
+  path: string;
+  /** Files `dx repair` expects to find */
+  files: string[];
+}
+
+export const SHARED_PACKAGES: SharedPackage[] = [
+  {
+    name: "@repo/shared",
+    path: "packages/shared",
+    files: ["package.json", "src/index.ts"],
+  },
+  {
+    name: "@repo/ui",
+    path: "packages/ui",
+    files: ["package.json", "src/index.ts"],
+  },
+  {
+    name: "@repo/config-typescript",
+    path: "packages/config-typescript",
+    files: ["package.json", "base.json"],
+  },
+  {
+    name: "@repo/config-tailwind",
+    path: "packages/config-tailwind",
+    files: ["package.json", "globals.css"],
+  },
+];
+
+export interface SharedPackageOptions {
+  theme: AccentTheme;
+  font: Font;
+  packageManager: PackageManager;
+}
+
+/**
+ * Options recorded in a project.yaml, with defaults for anything missing
+ */
+export function sharedPackageOptions(
+  config: ProjectConfig,
+): SharedPackageOptions {
+  const { theme, font } = config.stack.styling ?? {};
+  const packageManager = config.stack.package_manager;
+  return {
+    theme: ACCENT_THEMES.includes(theme as AccentTheme)
+      ? (theme as AccentTheme)
+      : DEFAULTS.theme,
+    font: FONTS.includes(font as Font) ? (font as Font) : DEFAULTS.font,
+    packageManager: PACKAGE_MANAGERS.includes(packageManager as PackageManager)
+      ? (packageManager as PackageManager)
+      : "pnpm",
+  };
+}
+
+/**
+ * Version range for a dependency on another workspace package. npm and
+ * yarn classic have no workspace: protocol; "*" resolves to the local
+ * package.
+ */
+export function workspaceVersion(packageManager: PackageManager): string {
+  const classic =
+    packageManager === "npm" ||
+    (packageManager === "yarn" && yarnFlavor() === "classic");
+  return classic ? "*" : "workspace:*";
+}
+
+export async function createSharedPackages(
+  projectPath: string,
+  options: SharedPackageOptions,
+): Promise<void> {
+  for (const pkg of SHARED_PACKAGES) {
+    await createPackageFiles(projectPath, pkg.name, pkg.path, options);
+  }
+}
+
+export async function createPackageFiles(
+  projectPath: string,
+  packageName: string,
+  packagePath: string,
+  options: SharedPackageOptions,
+): Promise<void> {
+  const fullPath = join(projectPath, packagePath);
+  mkdirSync(fullPath, { recursive: true });
+
+  switch (packageName) {
+    case "@repo/config-typescript":
+      await createConfigTypescriptPackage(fullPath);
+      break;
+    case "@repo/config-tailwind":
+      await createConfigTailwindPackage(fullPath, options);
+      break;
+    case "@repo/ui":
+      await createUiPackage(fullPath, options);
+      break;
+    case "@repo/shared":
+      await createSharedPackage(fullPath, options);
+      break;
+  }
+}
+
+/**
+ * Make a Next.js app consume the shared packages: workspace dependencies,
+ * transpilePackages, its shadcn components moved into @repo/ui, and
+ * globals.css importing the @repo/config-tailwind stylesheet with an
+ * @source so Tailwind sees the classes used in packages/ui. Returns what
+ * could not be wired.
+ */
+export async function linkWebApp(
+  projectPath: string,
+  appPath: string,
+  packageManager: PackageManager,
+): Promise<string[]> {
+  const skipped: string[] = [];
+  const packages = ["@repo/shared", "@repo/ui"];
+
+  const packageJsonPath = join(appPath, "package.json");
+  const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+  packageJson.dependencies = { ...packageJson.dependencies };
+  for (const name of [...packages, "@repo/config-tailwind"]) {
+    packageJson.dependencies[name] = workspaceVersion(packageManager);
+  }
+  await Bun.write(packageJsonPath, JSON.stringify(packageJson, null, 2));
+
+  const nextConfigPath = ["next.config.ts", "next.config.mjs", "next.config.js"]
+    .map((file) => join(appPath, file))
+    .find((path) => existsSync(path));
+  const nextConfig = nextConfigPath
+    ? readFileSync(nextConfigPath, "utf-8")
+    : "";
+  const configObject =
+    /(const nextConfig(?:: NextConfig)? = \{)(\s*\/\*.*?\*\/)?/;
+  if (nextConfigPath && configObject.test(nextConfig)) {
+    const list = packages.map((name) => `"${name}"`).join(", ");
+    await Bun.write(
+      nextConfigPath,
+      nextConfig.replace(configObject, `$1\n  transpilePackages: [${list}],`),
+    );
+  } else {
+    skipped.push("transpilePackages in next.config");
+  }
+
+  await moveComponentsToUi(
+    projectPath,
+    appPath,
+    packageJson.dependencies as Record<string, string>,
+  );
+  shareUiImports(appPath);
+
+  const componentsJsonPath = join(appPath, "components.json");
+  if (existsSync(componentsJsonPath)) {
+    const componentsJson = JSON.parse(
+      readFileSync(componentsJsonPath, "utf-8"),
+    );
+    // `shadcn add` in the app then writes into packages/ui
+    componentsJson.tailwind = {
+      ...componentsJson.tailwind,
+      css: "../../packages/config-tailwind/globals.css",
+    };
+    componentsJson.aliases = {
+      ...componentsJson.aliases,
+      components: "@repo/ui/components",
+      ui: "@repo/ui/components",
+      utils: "@repo/ui/lib/utils",
+    };
+    await Bun.write(
+      componentsJsonPath,
+      JSON.stringify(componentsJson, null, 2),
+    );
+  } else {
+    skipped.push("@repo/ui aliases in components.json");
+  }
+
+  const cssPath = ["app/globals.css", "src/app/globals.css"]
+    .map((file) => join(appPath, file))
+    .find((path) => existsSync(path));
+  if (cssPath) {
+    const uiSource = cssPath.includes("/src/app/")
+      ? "../../../../packages/ui/src"
+      : "../../../packages/ui/src";
+    // The app loads its font through next/font; keep its variable
+    const fontSans = readFileSync(cssPath, "utf-8").match(
+      /^\s*--font-sans: var\(.*\);$/m,
+    );
+    const fontTheme = fontSans
+      ? `\n@theme inline {\n  ${fontSans[0].trim()}\n}\n`
+      : "";
+    await Bun.write(
+      cssPath,
+      `@import "@repo/config-tailwind/globals.css";\n@source "${uiSource}";\n${fontTheme}`,
+    );
+  } else {
+    skipped.push("@repo/config-tailwind import in globals.css");
+  }
+
+  return skipped;
+}
+
+/**
+ * Point the app's `@/components/ui/*` imports at @repo/ui. Runs again
+ * after the steps that write code into the app. Returns the changed
+ * paths.
+ */
+export function shareUiImports(appPath: string): string[] {
+  const changed: string[] = [];
+  for (const path of sourceFiles(appPath)) {
+    const source = readFileSync(path, "utf-8");
+    const shared = source.replace(
+      /(["'])@\/components\/ui\//g,
+      "$1@repo/ui/components/",
+    );
+    if (shared === source) continue;
+    writeFileSync(path, shared);
+    changed.push(path);
+  }
+  return changed;
+}
+
+/**
+ * Move the shadcn components an app was created with into packages/ui,
+ * listing the packages they import in its package.json
+ */
+async function moveComponentsToUi(
+  projectPath: string,
+  appPath: string,
+  appDependencies: Record<string, string>,
+): Promise<void> {
+  const componentsDir = ["components/ui", "src/components/ui"]
+    .map((dir) => join(appPath, dir))
+    .find((dir) => existsSync(dir));
+  if (!componentsDir) return;
+
+  const uiPath = join(projectPath, "packages", "ui");
+  const imported = new Set<string>();
+  for (const file of readdirSync(componentsDir)) {
+    if (!file.endsWith(".tsx")) continue;
+    const source = readFileSync(join(componentsDir, file), "utf-8")
+      .replace(/(["'])@\/lib\/utils\1/g, '"../lib/utils"')
+      .replace(/(["'])@\/components\/ui\//g, "$1./");
+    for (const [, specifier] of source.matchAll(/from "([^"./][^"]*)"/g)) {
+      imported.add(packageName(specifier));
+    }
+    await Bun.write(join(uiPath, "src/components", file), source);
+  }
+  rmSync(componentsDir, { recursive: true, force: true });
+
+  const uiPackageJsonPath = join(uiPath, "package.json");
+  const uiPackageJson = JSON.parse(readFileSync(uiPackageJsonPath, "utf-8"));
+  const dependencies: Record<string, string> = {
+    ...uiPackageJson.dependencies,
+  };
+  for (const name of imported) {
+    // react and react-dom are peer dependencies
+    if (name in uiPackageJson.peerDependencies) continue;
+    const version = appDependencies[name] ?? PINNED_VERSIONS[name];
+    if (version) dependencies[name] ??= version;
+  }
+  uiPackageJson.dependencies = Object.fromEntries(
+    Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  await Bun.write(uiPackageJsonPath, JSON.stringify(uiPackageJson, null, 2));
+}
+
+/**
+ * "@radix-ui/react-slot/x" -> "@radix-ui/react-slot", "react/jsx" -> "react"
+ */
+function packageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function sourceFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name === "node_modules" || entry.name.startsWith(".")) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...sourceFiles(path));
+    else if (/\.tsx?$/.test(entry.name)) files.push(path);
+  }
+  return files;
+}
+
+// ============================================================================
+// PACKAGES
+// ============================================================================
+
+async function createConfigTypescriptPackage(pkgPath: string): Promise<void> {
+  const packageJson = {
+    name: "@repo/config-typescript",
+    version: "0.1.0",
+    private: true,
+    license: "MIT",
+    publishConfig: { access: "public" },
+  };
+
+  const baseJson = {
+    $schema: "https://json.schemastore.org/tsconfig",
+    compilerOptions: {
+      strict: true,
+      strictNullChecks: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      forceConsistentCasingInFileNames: true,
+      moduleResolution: "bundler",
+      module: "ESNext",
+      target: "ES2022",
+      lib: ["ES2022"],
+      resolveJsonModule: true,
+      isolatedModules: true,
+      incremental: true,
+      declaration: true,
+      declarationMap: true,
+    },
+  };
+
+  const nextJson = {
+    $schema: "https://json.schemastore.org/tsconfig",
+    extends: "./base.json",
+    compilerOptions: {
+      lib: ["dom", "dom.iterable", "ES2022"],
+      jsx: "preserve",
+      noEmit: true,
+      plugins: [{ name: "next" }],
+    },
+  };
+
+  const reactLibraryJson = {
+    $schema: "https://json.schemastore.org/tsconfig",
+    extends: "./base.json",
+    compilerOptions: {
+      lib: ["dom", "dom.iterable", "ES2022"],
+      jsx: "react-jsx",
+    },
+  };
+
+  await Promise.all([
+    Bun.write(
+      join(pkgPath, "package.json"),
+      JSON.stringify(packageJson, null, 2),
+    ),
+    Bun.write(join(pkgPath, "base.json"), JSON.stringify(baseJson, null, 2)),
+    Bun.write(join(pkgPath, "nextjs.json"), JSON.stringify(nextJson, null, 2)),
+    Bun.write(
+      join(pkgPath, "react-library.json"),
+      JSON.stringify(reactLibraryJson, null, 2),
+    ),
+  ]);
+}
+
+/**
+ * Tailwind v4 stylesheet holding the accent theme's CSS variables and the
+ * font; the web app's globals.css imports it
+ */
+async function createConfigTailwindPackage(
+  pkgPath: string,
+  options: SharedPackageOptions,
+): Promise<void> {
+  const fontName = FONT_LABELS[options.font];
+
+  const packageJson = {
+    name: "@repo/config-tailwind",
+    version: "0.1.0",
+    private: true,
+    exports: { "./globals.css": "./globals.css" },
+    devDependencies: {
+      tailwindcss: `^${PINNED_VERSIONS.tailwindcss}`,
+      "tw-animate-css": `^${PINNED_VERSIONS["tw-animate-css"]}`,
+    },
+  };
+
+  await Promise.all([
+    Bun.write(
+      join(pkgPath, "package.json"),
+      JSON.stringify(packageJson, null, 2),
+    ),
+    Bun.write(
+      join(pkgPath, "globals.css"),
+      globalsCss(
+        options.theme,
+        `"${fontName}", ui-sans-serif, system-ui, sans-serif`,
+      ),
+    ),
+  ]);
+}
+
+/**
+ * shadcn/ui component library: `npx shadcn add <component>` run in
+ * packages/ui adds to it
+ */
+async function createUiPackage(
+  pkgPath: string,
+  options: SharedPackageOptions,
+): Promise<void> {
+  mkdirSync(join(pkgPath, "src/components"), { recursive: true });
+  mkdirSync(join(pkgPath, "src/lib"), { recursive: true });
+
+  const dependencies = [
+    "@radix-ui/react-slot",
+    "class-variance-authority",
+    "clsx",
+    "lucide-react",
+    "tailwind-merge",
+  ];
+
+  const packageJson = {
+    name: "@repo/ui",
+    version: "0.1.0",
+    private: true,
+    exports: {
+      ".": "./src/index.ts",
+      "./components/*": "./src/components/*.tsx",
+      "./lib/*": "./src/lib/*.ts",
+    },
+    dependencies: Object.fromEntries(
+      dependencies.map((name) => [name, PINNED_VERSIONS[name]]),
+    ),
+    devDependencies: {
+      "@repo/config-typescript": workspaceVersion(options.packageManager),
+      "@types/react": "^19.0.0",
+      "@types/react-dom": "^19.0.0",
+      typescript: "^5.7.0",
+    },
+    peerDependencies: {
+      react: "^18.0.0 || ^19.0.0",
+      "react-dom": "^18.0.0 || ^19.0.0",
+    },
+  };
+
+  const componentsJson = {
+    $schema: "https://ui.shadcn.com/schema.json",
+    style: "new-york",
+    rsc: true,
+    tsx: true,
+    tailwind: {
+      config: "",
+      css: "../config-tailwind/globals.css",
+      baseColor: "zinc",
+      cssVariables: true,
+    },
+    iconLibrary: "lucide",
+    aliases: {
+      components: "@repo/ui/components",
+      utils: "@repo/ui/lib/utils",
+      hooks: "@repo/ui/hooks",
+      lib: "@repo/ui/lib",
+      ui: "@repo/ui/components",
+    },
+  };
+
+  const indexTs = `// Shared UI components
+export { cn } from "./lib/utils";
+export { Button, buttonVariants } from "./components/button";
+`;
+
+  const tsconfig = {
+    extends: "@repo/config-typescript/react-library.json",
+    compilerOptions: { outDir: "./dist", rootDir: "./src" },
+    include: ["src"],
+    exclude: ["node_modules", "dist"],
+  };
+
+  await Promise.all([
+    Bun.write(
+      join(pkgPath, "package.json"),
+      JSON.stringify(packageJson, null, 2),
+    ),
+    Bun.write(
+      join(pkgPath, "components.json"),
+      JSON.stringify(componentsJson, null, 2),
+    ),
+    Bun.write(join(pkgPath, "src/index.ts"), indexTs),
+    Bun.write(join(pkgPath, "src/lib/utils.ts"), UTILS_SOURCE),
+    Bun.write(
+      join(pkgPath, "src/components/button.tsx"),
+      COMPONENT_SOURCES.button.replace('"@/lib/utils"', '"../lib/utils"'),
+    ),
+    Bun.write(
+      join(pkgPath, "tsconfig.json"),
+      JSON.stringify(tsconfig, null, 2),
+    ),
+  ]);
+}
+
+async function createSharedPackage(
+  pkgPath: string,
+  options: SharedPackageOptions,
+): Promise<void> {
+  mkdirSync(join(pkgPath, "src/types"), { recursive: true });
+  mkdirSync(join(pkgPath, "src/utils"), { recursive: true });
+
+  const packageJson = {
+    name: "@repo/shared",
+    version: "0.1.0",
+    private: true,
+    main: "./src/index.ts",
+    types: "./src/index.ts",
+    exports: {
+      ".": "./src/index.ts",
+      "./utils": "./src/utils/index.ts",
+      "./types": "./src/types/index.ts",
+    },
+    devDependencies: {
+      "@repo/config-typescript": workspaceVersion(options.packageManager),
+      typescript: "^5.7.0",
+    },
+  };
+
+  const indexTs = `export * from "./types";
+export * from "./utils";
+`;
+
+  const typesIndex = `export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: Date;
+}
+`;
+
+  const utilsIndex = `export function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  }).format(date);
+}
+
+export function cn(...classes: (string | undefined | null | false)[]): string {
+  return classes.filter(Boolean).join(" ");
+}
+`;
+
+  const tsconfig = {
+    extends: "@repo/config-typescript/base.json",
+    compilerOptions: { outDir: "./dist", rootDir: "./src" },
+    include: ["src"],
+    exclude: ["node_modules", "dist"],
+  };
+
+  await Promise.all([
+    Bun.write(
+      join(pkgPath, "package.json"),
+      JSON.stringify(packageJson, null, 2),
+    ),
+    Bun.write(join(pkgPath, "src/index.ts"), indexTs),
+    Bun.write(join(pkgPath, "src/types/index.ts"), typesIndex),
+    Bun.write(join(pkgPath, "src/utils/index.ts"), utilsIndex),
+    Bun.write(
+      join(pkgPath, "tsconfig.json"),
+      JSON.stringify(tsconfig, null, 2),
+    ),
+  ]);
+}
@@ -0,0 +1,733 @@
+/**
+ * Offline Scaffold
+ * Versioned Next.js and Vite starters bundled with devkitx, written by
+ * `dx create --offline` instead of running `shadcn create`. The files only
+ * depend on the options, so the output is reproducible.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import {
+  BASE_SHADCN_COMPONENTS,
+  CORE_DEPENDENCIES,
+  DEFAULTS,
+  FONT_LABELS,
+  STATE_MANAGER_DEPS,
+  type AccentTheme,
+  type Font,
+  type StateManager,
+} from "./shadcn-config.js";
+import {
+  COMPONENT_DEPENDENCIES,
+  COMPONENT_SOURCES,
+  UTILS_SOURCE,
+} from "./offline-components.js";
+import { authDependencies, type AuthProvider } from "./auth-scaffold.js";
+import { testingDependencies, type TestingStack } from "./testing-scaffold.js";
+import { lintDependencies, type Linter } from "./lint-scaffold.js";
+
+/**
+ * Bump whenever the generated files or pinned versions change
+ */
+export const OFFLINE_SCAFFOLD_VERSION = "1.3.1";
+
+/**
+ * Exact versions written to package.json
+ */
+export const PINNED_VERSIONS: Record<string, string> = {
+  next: "15.5.4",
+  react: "19.1.1",
+  "react-dom": "19.1.1",
+  vite: "7.1.7",
+  "@vitejs/plugin-react": "5.0.3",
+  typescript: "5.9.2",
+  "@types/node": "22.18.6",
+  "@types/react": "19.1.13",
+  "@types/react-dom": "19.1.9",
+  tailwindcss: "4.1.13",
+  "@tailwindcss/postcss": "4.1.13",
+  "@tailwindcss/vite": "4.1.13",
+  "tw-animate-css": "1.3.8",
+  clsx: "2.1.1",
+  "tailwind-merge": "3.3.1",
+  // Same version the online flow downgrades to (ESBuild compatibility)
+  "lucide-react": "0.475.0",
+  "framer-motion": "12.23.12",
+  "class-variance-authority": "0.7.1",
+  "@radix-ui/react-avatar": "1.1.10",
+  "@radix-ui/react-dialog": "1.1.15",
+  "@radix-ui/react-dropdown-menu": "2.1.16",
+  "@radix-ui/react-label": "2.1.7",
+  "@radix-ui/react-separator": "1.1.7",
+  "@radix-ui/react-slot": "1.2.3",
+  sonner: "2.0.7",
+  "next-themes": "0.4.6",
+  zustand: "5.0.8",
+  jotai: "2.14.0",
+  convex: "1.27.0",
+  "@supabase/supabase-js": "2.57.4",
+  "@supabase/ssr": "0.7.0",
+  "@convex-dev/auth": "0.0.90",
+  "@auth/core": "0.37.0",
+  vitest: "3.2.4",
+  jsdom: "27.0.0",
+  "@testing-library/react": "16.3.0",
+  "@testing-library/dom": "10.4.1",
+  "@testing-library/jest-dom": "6.8.0",
+  "@playwright/test": "1.55.1",
+  eslint: "9.36.0",
+  "@eslint/js": "9.36.0",
+  "typescript-eslint": "8.44.1",
+  globals: "16.4.0",
+  "eslint-config-prettier": "10.1.8",
+  "eslint-plugin-react-hooks": "5.2.0",
+  "@next/eslint-plugin-next": "15.5.4",
+  prettier: "3.6.2",
+  "@biomejs/biome": "2.2.4",
+  // Vite apps load the font from Fontsource; Next.js uses next/font
+  "@fontsource-variable/inter": "5.2.8",
+  "@fontsource-variable/outfit": "5.2.8",
+  "@fontsource-variable/dm-sans": "5.2.8",
+  "@fontsource-variable/roboto": "5.2.8",
+  "@fontsource-variable/raleway": "5.2.8",
+  "@fontsource-variable/noto-sans": "5.2.6",
+  "@fontsource-variable/nunito-sans": "5.2.7",
+  "@fontsource-variable/figtree": "5.2.10",
+  "@fontsource-variable/public-sans": "5.2.7",
+  "@fontsource-variable/jetbrains-mono": "5.2.5",
+};
+
+export interface OfflineScaffoldOptions {
+  /** package.json name */
+  name: string;
+  template: "next" | "vite";
+  theme: AccentTheme;
+  font: Font;
+  stateManager: StateManager;
+  backend: "convex" | "supabase" | "both" | "none";
+  /** Listed in package.json; the files come from the auth step */
+  auth?: AuthProvider;
+  /** Listed in package.json; the files come from the testing step */
+  testing?: TestingStack;
+  /** Listed in package.json; the configs come from the lint step */
+  lint?: Linter;
+}
+
+/**
+ * Packages a backend needs in the app
+ */
+export function backendDependencies(
+  backend: OfflineScaffoldOptions["backend"],
+  template: "next" | "vite",
+): string[] {
+  const deps: string[] = [];
+  if (backend === "convex" || backend === "both") deps.push("convex");
+  if (backend === "supabase" || backend === "both") {
+    deps.push("@supabase/supabase-js");
+    if (template === "next") deps.push("@supabase/ssr");
+  }
+  return deps;
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/**
+ * Every file of the scaffold, keyed by path relative to the app root
+ */
+export function offlineScaffoldFiles(
+  options: OfflineScaffoldOptions,
+): Record<string, string> {
+  const files =
+    options.template === "next" ? nextFiles(options) : viteFiles(options);
+  const srcDir = options.template === "next" ? "" : "src/";
+
+  files["package.json"] = json(packageJson(options));
+  files["components.json"] = json(componentsJson(options.template));
+  files[`${srcDir}lib/utils.ts`] = UTILS_SOURCE;
+  for (const component of BASE_SHADCN_COMPONENTS) {
+    let source = COMPONENT_SOURCES[component];
+    // Client directives only mean something to React Server Components
+    if (options.template === "vite") {
+      source = source.replace(/^"use client"\n\n/, "");
+    }
+    files[`${srcDir}components/ui/${component}.tsx`] = source;
+  }
+
+  return Object.fromEntries(
+    Object.entries(files).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+/**
+ * Write the scaffold into `dir` (created if needed). Returns the written
+ * paths (relative).
+ */
+export function writeOfflineScaffold(
+  dir: string,
+  options: OfflineScaffoldOptions,
+): string[] {
+  const files = offlineScaffoldFiles(options);
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(dir, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+  return Object.keys(files);
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function pinned(packages: Iterable<string>): Record<string, string> {
+  return Object.fromEntries(
+    [...new Set(packages)].sort().map((name) => [name, PINNED_VERSIONS[name]]),
+  );
+}
+
+function packageJson(options: OfflineScaffoldOptions) {
+  const { template } = options;
+  const componentDeps = BASE_SHADCN_COMPONENTS.flatMap(
+    (component) => COMPONENT_DEPENDENCIES[component],
+  );
+
+  const dependencies = pinned([
+    ...(template === "next" ? ["next"] : []),
+    "react",
+    "react-dom",
+    ...CORE_DEPENDENCIES,
+    ...componentDeps,
+    ...STATE_MANAGER_DEPS[options.stateManager],
+    ...backendDependencies(options.backend, template),
+    ...authDependencies(options.auth ?? "none"),
+  ]);
+  if (template === "vite") {
+    const fontPackage = `@fontsource-variable/${options.font}`;
+    dependencies[fontPackage] = PINNED_VERSIONS[fontPackage];
+  }
+
+  return {
+    name: options.name,
+    version: "0.1.0",
+    private: true,
+    ...(template === "vite" && { type: "module" }),
+    scripts:
+      template === "next"
+        ? {
+            dev: "next dev --turbopack",
+            build: "next build",
+            start: "next start",
+          }
+        : {
+            dev: "vite",
+            build: "tsc -b && vite build",
+            preview: "vite preview",
+          },
+    dependencies,
+    devDependencies: pinned([
+      "typescript",
+      "@types/node",
+      "@types/react",
+      "@types/react-dom",
+      "tailwindcss",
+      "tw-animate-css",
+      ...(template === "next"
+        ? ["@tailwindcss/postcss"]
+        : ["@tailwindcss/vite", "vite", "@vitejs/plugin-react"]),
+      ...testingDependencies(options.testing ?? "none", template),
+      ...lintDependencies(
+        options.lint ?? "none",
+        template === "next" ? "next" : "react",
+      ),
+    ]),
+  };
+}
+
+function componentsJson(template: "next" | "vite") {
+  return {
+    $schema: "https://ui.shadcn.com/schema.json",
+    style: "new-york",
+    rsc: template === "next",
+    tsx: true,
+    tailwind: {
+      config: "",
+      css: template === "next" ? "app/globals.css" : "src/index.css",
+      baseColor: DEFAULTS.baseColor,
+      cssVariables: true,
+      prefix: "",
+    },
+    iconLibrary: DEFAULTS.iconLibrary,
+    aliases: {
+      components: "@/components",
+      utils: "@/lib/utils",
+      ui: "@/components/ui",
+      lib: "@/lib",
+      hooks: "@/hooks",
+    },
+  };
+}
+
+// ============================================================================
+// THEME TOKENS
+// ============================================================================
+
+/**
+ * Zinc base palette (light, dark); the accent theme replaces the primary
+ */
+const BASE_TOKENS: Record<string, [string, string]> = {
+  background: ["oklch(1 0 0)", "oklch(0.141 0.005 285.823)"],
+  foreground: ["oklch(0.141 0.005 285.823)", "oklch(0.985 0 0)"],
+  card: ["oklch(1 0 0)", "oklch(0.21 0.006 285.885)"],
+  "card-foreground": ["oklch(0.141 0.005 285.823)", "oklch(0.985 0 0)"],
+  popover: ["oklch(1 0 0)", "oklch(0.21 0.006 285.885)"],
+  "popover-foreground": ["oklch(0.141 0.005 285.823)", "oklch(0.985 0 0)"],
+  primary: ["oklch(0.21 0.006 285.885)", "oklch(0.92 0.004 286.32)"],
+  "primary-foreground": ["oklch(0.985 0 0)", "oklch(0.21 0.006 285.885)"],
+  secondary: ["oklch(0.967 0.001 286.375)", "oklch(0.274 0.006 286.033)"],
+  "secondary-foreground": ["oklch(0.21 0.006 285.885)", "oklch(0.985 0 0)"],
+  muted: ["oklch(0.967 0.001 286.375)", "oklch(0.274 0.006 286.033)"],
+  "muted-foreground": [
+    "oklch(0.552 0.016 285.938)",
+    "oklch(0.705 0.015 286.067)",
+  ],
+  accent: ["oklch(0.967 0.001 286.375)", "oklch(0.274 0.006 286.033)"],
+  "accent-foreground": ["oklch(0.21 0.006 285.885)", "oklch(0.985 0 0)"],
+  destructive: ["oklch(0.577 0.245 27.325)", "oklch(0.704 0.191 22.216)"],
+  border: ["oklch(0.92 0.004 286.32)", "oklch(1 0 0 / 10%)"],
+  input: ["oklch(0.92 0.004 286.32)", "oklch(1 0 0 / 15%)"],
+  ring: ["oklch(0.705 0.015 286.067)", "oklch(0.552 0.016 285.938)"],
+  "chart-1": ["oklch(0.646 0.222 41.116)", "oklch(0.488 0.243 264.376)"],
+  "chart-2": ["oklch(0.6 0.118 184.704)", "oklch(0.696 0.17 162.48)"],
+  "chart-3": ["oklch(0.398 0.07 227.392)", "oklch(0.769 0.188 70.08)"],
+  "chart-4": ["oklch(0.828 0.189 84.429)", "oklch(0.627 0.265 303.9)"],
+  "chart-5": ["oklch(0.769 0.188 70.08)", "oklch(0.645 0.246 16.439)"],
+  sidebar: ["oklch(0.985 0 0)", "oklch(0.21 0.006 285.885)"],
+  "sidebar-foreground": ["oklch(0.141 0.005 285.823)", "oklch(0.985 0 0)"],
+  "sidebar-primary": [
+    "oklch(0.21 0.006 285.885)",
+    "oklch(0.488 0.243 264.376)",
+  ],
+  "sidebar-primary-foreground": ["oklch(0.985 0 0)", "oklch(0.985 0 0)"],
+  "sidebar-accent": [
+    "oklch(0.967 0.001 286.375)",
+    "oklch(0.274 0.006 286.033)",
+  ],
+  "sidebar-accent-foreground": [
+    "oklch(0.21 0.006 285.885)",
+    "oklch(0.985 0 0)",
+  ],
+  "sidebar-border": ["oklch(0.92 0.004 286.32)", "oklch(1 0 0 / 10%)"],
+  "sidebar-ring": ["oklch(0.705 0.015 286.067)", "oklch(0.552 0.016 285.938)"],
+};
+
+const LIGHT_TEXT = "oklch(0.985 0 0)";
+const DARK_TEXT = "oklch(0.21 0.006 285.885)";
+
+/**
+ * Accent primaries (light, dark) and the text color on top of them
+ */
+const ACCENT_TOKENS: Record<
+  Exclude<AccentTheme, "zinc">,
+  { primary: [string, string]; foreground: string }
+> = {
+  amber: {
+    primary: ["oklch(0.666 0.179 58.318)", "oklch(0.769 0.188 70.08)"],
+    foreground: DARK_TEXT,
+  },
+  blue: {
+    primary: ["oklch(0.546 0.245 262.881)", "oklch(0.623 0.214 259.815)"],
+    foreground: LIGHT_TEXT,
+  },
+  cyan: {
+    primary: ["oklch(0.609 0.126 221.723)", "oklch(0.715 0.143 215.221)"],
+    foreground: DARK_TEXT,
+  },
+  emerald: {
+    primary: ["oklch(0.596 0.145 163.225)", "oklch(0.696 0.17 162.48)"],
+    foreground: LIGHT_TEXT,
+  },
+  fuchsia: {
+    primary: ["oklch(0.591 0.293 322.896)", "oklch(0.667 0.295 322.15)"],
+    foreground: LIGHT_TEXT,
+  },
+  green: {
+    primary: ["oklch(0.627 0.194 149.214)", "oklch(0.723 0.219 149.579)"],
+    foreground: LIGHT_TEXT,
+  },
+  indigo: {
+    primary: ["oklch(0.511 0.262 276.966)", "oklch(0.585 0.233 277.117)"],
+    foreground: LIGHT_TEXT,
+  },
+  lime: {
+    primary: ["oklch(0.648 0.2 131.684)", "oklch(0.768 0.233 130.85)"],
+    foreground: DARK_TEXT,
+  },
+  orange: {
+    primary: ["oklch(0.646 0.222 41.116)", "oklch(0.705 0.213 47.604)"],
+    foreground: LIGHT_TEXT,
+  },
+  pink: {
+    primary: ["oklch(0.592 0.249 0.584)", "oklch(0.656 0.241 354.308)"],
+    foreground: LIGHT_TEXT,
+  },
+  purple: {
+    primary: ["oklch(0.558 0.288 302.321)", "oklch(0.627 0.265 303.9)"],
+    foreground: LIGHT_TEXT,
+  },
+  red: {
+    primary: ["oklch(0.577 0.245 27.325)", "oklch(0.637 0.237 25.331)"],
+    foreground: LIGHT_TEXT,
+  },
+  rose: {
+    primary: ["oklch(0.586 0.253 17.585)", "oklch(0.645 0.246 16.439)"],
+    foreground: LIGHT_TEXT,
+  },
+  sky: {
+    primary: ["oklch(0.588 0.158 241.966)", "oklch(0.685 0.169 237.323)"],
+    foreground: LIGHT_TEXT,
+  },
+  teal: {
+    primary: ["oklch(0.6 0.118 184.704)", "oklch(0.704 0.14 182.503)"],
+    foreground: LIGHT_TEXT,
+  },
+  violet: {
+    primary: ["oklch(0.541 0.281 293.009)", "oklch(0.606 0.25 292.717)"],
+    foreground: LIGHT_TEXT,
+  },
+  yellow: {
+    primary: ["oklch(0.681 0.162 75.834)", "oklch(0.795 0.184 86.047)"],
+    foreground: DARK_TEXT,
+  },
+};
+
+function themeTokens(theme: AccentTheme): Record<string, [string, string]> {
+  if (theme === "zinc") return BASE_TOKENS;
+
+  const { primary, foreground } = ACCENT_TOKENS[theme];
+  return {
+    ...BASE_TOKENS,
+    primary,
+    "primary-foreground": [foreground, foreground],
+    ring: primary,
+    "sidebar-primary": primary,
+    "sidebar-primary-foreground": [foreground, foreground],
+    "sidebar-ring": primary,
+  };
+}
+
+/**
+ * Tailwind v4 stylesheet with the shadcn/ui CSS variables for a theme
+ */
+export function globalsCss(theme: AccentTheme, fontSans: string): string {
+  const tokens = Object.entries(themeTokens(theme));
+  const colors = tokens
+    .map(([name]) => `  --color-${name}: var(--${name});`)
+    .join("\n");
+  const light = tokens
+    .map(([name, [value]]) => `  --${name}: ${value};`)
+    .join("\n");
+  const dark = tokens
+    .map(([name, [, value]]) => `  --${name}: ${value};`)
+    .join("\n");
+
+  return `@import "tailwindcss";
+@import "tw-animate-css";
+
+@custom-variant dark (&:is(.dark *));
+
+@theme inline {
+${colors}
+  --font-sans: ${fontSans};
+  --radius-sm: calc(var(--radius) - 4px);
+  --radius-md: calc(var(--radius) - 2px);
+  --radius-lg: var(--radius);
+  --radius-xl: calc(var(--radius) + 4px);
+}
+
+:root {
+  --radius: 0.625rem;
+${light}
+}
+
+.dark {
+${dark}
+}
+
+@layer base {
+  * {
+    @apply border-border outline-ring/50;
+  }
+  body {
+    @apply bg-background text-foreground;
+  }
+}
+`;
+}
+
+// ============================================================================
+// NEXT.JS
+// ============================================================================
+
+function nextFiles(options: OfflineScaffoldOptions): Record<string, string> {
+  // next/font exports one function per Google font, e.g. DM_Sans
+  const fontImport = FONT_LABELS[options.font].replace(/ /g, "_");
+
+  return {
+    ".gitignore": `# dependencies
+/node_modules
+
+# next.js
+/.next/
+/out/
+
+# production
+/build
+
+# misc
+.DS_Store
+*.pem
+
+# debug
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+.pnpm-debug.log*
+
+# env files
+.env*.local
+
+# typescript
+*.tsbuildinfo
+next-env.d.ts
+`,
+    "next.config.ts": `import type { NextConfig } from "next";
+
+const nextConfig: NextConfig = {
+  /* config options here */
+};
+
+export default nextConfig;
+`,
+    "postcss.config.mjs": `const config = {
+  plugins: ["@tailwindcss/postcss"],
+};
+
+export default config;
+`,
+    "tsconfig.json": json({
+      compilerOptions: {
+        target: "ES2017",
+        lib: ["dom", "dom.iterable", "esnext"],
+        allowJs: true,
+        skipLibCheck: true,
+        strict: true,
+        noEmit: true,
+        esModuleInterop: true,
+        module: "esnext",
+        moduleResolution: "bundler",
+        resolveJsonModule: true,
+        isolatedModules: true,
+        jsx: "preserve",
+        incremental: true,
+        plugins: [{ name: "next" }],
+        paths: { "@/*": ["./*"] },
+      },
+      include: ["next-env.d.ts", "**/*.ts", "**/*.tsx", ".next/types/**/*.ts"],
+      exclude: ["node_modules"],
+    }),
+    "app/globals.css": globalsCss(options.theme, "var(--font-primary)"),
+    "app/layout.tsx": `import type { Metadata } from "next";
+import { ${fontImport} } from "next/font/google";
+import { Toaster } from "@/components/ui/sonner";
+import "./globals.css";
+
+const fontPrimary = ${fontImport}({
+  variable: "--font-primary",
+  subsets: ["latin"],
+});
+
+export const metadata: Metadata = {
+  title: "${options.name}",
+  description: "Created with DevKitX",
+};
+
+export default function RootLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="en" suppressHydrationWarning>
+      <body className={\`\${fontPrimary.variable} font-sans antialiased\`}>
+        {children}
+        <Toaster />
+      </body>
+    </html>
+  );
+}
+`,
+    "app/page.tsx": pageSource(options.name),
+  };
+}
+
+// ============================================================================
+// VITE
+// ============================================================================
+
+function viteFiles(options: OfflineScaffoldOptions): Record<string, string> {
+  return {
+    ".gitignore": `# Logs
+logs
+*.log
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+pnpm-debug.log*
+
+node_modules
+dist
+dist-ssr
+*.local
+
+# Editor directories and files
+.vscode/*
+!.vscode/extensions.json
+.idea
+.DS_Store
+*.tsbuildinfo
+`,
+    "index.html": `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${options.name}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+    "vite.config.ts": `import path from "path";
+import tailwindcss from "@tailwindcss/vite";
+import react from "@vitejs/plugin-react";
+import { defineConfig } from "vite";
+
+// https://vite.dev/config/
+export default defineConfig({
+  plugins: [react(), tailwindcss()],
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});
+`,
+    "tsconfig.json": json({
+      files: [],
+      references: [
+        { path: "./tsconfig.app.json" },
+        { path: "./tsconfig.node.json" },
+      ],
+      compilerOptions: {
+        baseUrl: ".",
+        paths: { "@/*": ["./src/*"] },
+      },
+    }),
+    "tsconfig.app.json": json({
+      compilerOptions: {
+        tsBuildInfoFile: "./node_modules/.tmp/tsconfig.app.tsbuildinfo",
+        target: "ES2022",
+        useDefineForClassFields: true,
+        lib: ["ES2022", "DOM", "DOM.Iterable"],
+        module: "ESNext",
+        skipLibCheck: true,
+        moduleResolution: "bundler",
+        allowImportingTsExtensions: true,
+        verbatimModuleSyntax: true,
+        moduleDetection: "force",
+        noEmit: true,
+        jsx: "react-jsx",
+        strict: true,
+        noUnusedLocals: true,
+        noUnusedParameters: true,
+        noFallthroughCasesInSwitch: true,
+        baseUrl: ".",
+        paths: { "@/*": ["./src/*"] },
+      },
+      include: ["src"],
+    }),
+    "tsconfig.node.json": json({
+      compilerOptions: {
+        tsBuildInfoFile: "./node_modules/.tmp/tsconfig.node.tsbuildinfo",
+        target: "ES2023",
+        lib: ["ES2023"],
+        module: "ESNext",
+        skipLibCheck: true,
+        moduleResolution: "bundler",
+        allowImportingTsExtensions: true,
+        verbatimModuleSyntax: true,
+        moduleDetection: "force",
+        noEmit: true,
+        strict: true,
+        noUnusedLocals: true,
+        noUnusedParameters: true,
+        noFallthroughCasesInSwitch: true,
+      },
+      include: ["vite.config.ts"],
+    }),
+    "src/vite-env.d.ts": `/// <reference types="vite/client" />
+`,
+    "src/index.css": globalsCss(
+      options.theme,
+      `"${FONT_LABELS[options.font]} Variable", sans-serif`,
+    ),
+    "src/main.tsx": `import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import "@fontsource-variable/${options.font}";
+import "./index.css";
+import App from "./App";
+import { Toaster } from "@/components/ui/sonner";
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <App />
+    <Toaster />
+  </StrictMode>,
+);
+`,
+    "src/App.tsx": pageSource(options.name, "App"),
+  };
+}
+
+function pageSource(name: string, component = "Home"): string {
+  return `import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export default function ${component}() {
+  return (
+    <main className="flex min-h-svh items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>${name}</CardTitle>
+          <CardDescription>Created with DevKitX</CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Button>Get started</Button>
+          <Button variant="outline">Docs</Button>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
+`;
+}
@@ -0,0 +1,472 @@
+/**
+ * Project Detection
+ * Inspects an existing repository (package.json, lockfiles, turbo.json,
+ * workspace globs, framework configs, convex/ and supabase/) so projects
+ * not made with `dx create` can get a project.yaml
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import { parse } from "yaml";
+import { PROJECT_SCHEMA_VERSION } from "./project-schema.js";
+import type {
+  AppConfig,
+  BackendConfig,
+  LibrariesConfig,
+  PackageConfig,
+  ProjectConfig,
+  StylingConfig,
+} from "./project-yaml.js";
+import {
+  ACCENT_THEMES,
+  type AccentTheme,
+  type PackageManager,
+  type StateManager,
+} from "./shadcn-config.js";
+
+export interface DetectedProject {
+  name: string;
+  description: string;
+  version: string;
+  packageManager: PackageManager;
+  monorepo?: "turborepo";
+  /** Workspace globs from package.json or pnpm-workspace.yaml */
+  workspaces: string[];
+  apps: Record<string, AppConfig>;
+  packages: PackageConfig[];
+  backend: "convex" | "supabase" | "both" | "none";
+  styling?: StylingConfig;
+  stateManager: StateManager;
+  libraries: LibrariesConfig;
+  /** Things detection could not map onto project.yaml */
+  warnings: string[];
+}
+
+interface PackageJson {
+  name?: string;
+  description?: string;
+  version?: string;
+  workspaces?: string[] | { packages?: string[] };
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["package-lock.json", "npm"],
+];
+
+const DEFAULT_PORTS: Record<string, number> = {
+  next: 3000,
+  vite: 5173,
+  expo: 8081,
+};
+
+// ============================================================================
+// LOW-LEVEL CHECKS
+// ============================================================================
+
+export function readPackageJson(dir: string): PackageJson | null {
+  try {
+    return JSON.parse(readFileSync(join(dir, "package.json"), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Package manager from the lockfile, then the packageManager field
+ */
+export function detectLockfileManager(dir: string): PackageManager | null {
+  for (const [file, manager] of LOCKFILES) {
+    if (existsSync(join(dir, file))) return manager;
+  }
+
+  const field = (readPackageJson(dir) as { packageManager?: string } | null)
+    ?.packageManager;
+  const name = field?.split("@")[0];
+  if (name === "bun" || name === "pnpm" || name === "npm" || name === "yarn") {
+    return name;
+  }
+  return null;
+}
+
+/**
+ * Like detectLockfileManager, falling back to npm
+ */
+export function detectPackageManager(dir: string): PackageManager {
+  return detectLockfileManager(dir) ?? "npm";
+}
+
+/**
+ * First existing `<base>.{ts,mts,js,mjs,cjs}` config file, if any
+ */
+export function findConfigFile(dir: string, base: string): string | null {
+  for (const ext of ["ts", "mts", "js", "mjs", "cjs"]) {
+    const file = join(dir, `${base}.${ext}`);
+    if (existsSync(file)) return file;
+  }
+  return null;
+}
+
+function dependencyVersion(pkg: PackageJson | null, name: string) {
+  return pkg?.dependencies?.[name] ?? pkg?.devDependencies?.[name];
+}
+
+function hasDependency(pkg: PackageJson | null, name: string): boolean {
+  return dependencyVersion(pkg, name) !== undefined;
+}
+
+function majorVersion(range: string | undefined): string | null {
+  return range?.match(/(\d+)/)?.[1] ?? null;
+}
+
+/**
+ * Major version of a dependency in the package.json of `dir`
+ */
+export function dependencyMajor(dir: string, name: string): string | null {
+  return majorVersion(dependencyVersion(readPackageJson(dir), name));
+}
+
+// ============================================================================
+// APPS AND WORKSPACES
+// ============================================================================
+
+/**
+ * Framework, port and features of an app directory, or null when the
+ * directory is not a web/mobile app
+ */
+export function detectApp(dir: string, path: string): AppConfig | null {
+  const pkg = readPackageJson(dir);
+
+  let kind: "next" | "vite" | "expo";
+  if (findConfigFile(dir, "next.config") || hasDependency(pkg, "next")) {
+    kind = "next";
+  } else if (findConfigFile(dir, "vite.config") || hasDependency(pkg, "vite")) {
+    kind = "vite";
+  } else if (hasDependency(pkg, "expo")) {
+    kind = "expo";
+  } else {
+    return null;
+  }
+
+  const major = majorVersion(dependencyVersion(pkg, kind));
+  const framework = `${kind === "next" ? "next.js" : kind}${major ? `@${major}` : ""}`;
+
+  const features: string[] = [];
+  if (kind === "next") {
+    if (existsSync(join(dir, "app")) || existsSync(join(dir, "src", "app"))) {
+      features.push("app-router");
+    }
+    if (
+      existsSync(join(dir, "pages")) ||
+      existsSync(join(dir, "src", "pages"))
+    ) {
+      features.push("pages-router");
+    }
+  }
+  if (kind === "vite" && hasDependency(pkg, "react")) features.push("react");
+  if (kind === "expo" && hasDependency(pkg, "expo-router")) {
+    features.push("expo-router");
+  }
+  if (kind === "expo" && hasDependency(pkg, "nativewind")) {
+    features.push("nativewind");
+  }
+  if (existsSync(join(dir, "components.json"))) features.push("shadcn-ui");
+  if (hasDependency(pkg, "tailwindcss")) features.push("tailwind");
+
+  const app: AppConfig = { framework, path };
+  if (features.length > 0) app.features = features;
+
+  // An explicit -p/--port in the dev script beats the framework default
+  const devPort = pkg?.scripts?.dev?.match(/(?:-p|--port)[ =](\d+)/)?.[1];
+  const port = devPort ? Number(devPort) : DEFAULT_PORTS[kind];
+  if (kind !== "expo" || devPort) app.port = port;
+
+  return app;
+}
+
+/**
+ * Workspace globs from package.json "workspaces" or pnpm-workspace.yaml
+ */
+export function readWorkspaceGlobs(dir: string): string[] {
+  const workspaces = readPackageJson(dir)?.workspaces;
+  if (Array.isArray(workspaces)) return workspaces;
+  if (workspaces?.packages) return workspaces.packages;
+
+  try {
+    const pnpm = parse(
+      readFileSync(join(dir, "pnpm-workspace.yaml"), "utf-8"),
+    ) as { packages?: string[] } | null;
+    return pnpm?.packages ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Expand workspace globs to package directories (relative, forward
+ * slashes). Handles the common "dir/*" and literal forms; negations and
+ * deeper patterns are skipped.
+ */
+export function expandWorkspaces(dir: string, globs: string[]): string[] {
+  const result = new Set<string>();
+
+  for (const glob of globs) {
+    if (glob.startsWith("!")) continue;
+    const pattern = glob.replace(/^\.\//, "").replace(/\/$/, "");
+
+    if (pattern.endsWith("/*") && !pattern.slice(0, -2).includes("*")) {
+      const parent = pattern.slice(0, -2);
+      try {
+        for (const entry of readdirSync(join(dir, parent), {
+          withFileTypes: true,
+        })) {
+          if (
+            entry.isDirectory() &&
+            existsSync(join(dir, parent, entry.name, "package.json"))
+          ) {
+            result.add(`${parent}/${entry.name}`);
+          }
+        }
+      } catch {
+        // Glob points at a missing folder
+      }
+    } else if (
+      !pattern.includes("*") &&
+      existsSync(join(dir, pattern, "package.json"))
+    ) {
+      result.add(pattern);
+    }
+  }
+
+  return [...result].sort();
+}
+
+// ============================================================================
+// WHOLE PROJECT
+// ============================================================================
+
+/**
+ * Inspect a repository and describe it in project.yaml terms
+ */
+export function detectProject(dir: string): DetectedProject {
+  const rootPkg = readPackageJson(dir);
+  const warnings: string[] = [];
+
+  const workspaces = readWorkspaceGlobs(dir);
+  const workspaceDirs = expandWorkspaces(dir, workspaces);
+  const monorepo = existsSync(join(dir, "turbo.json"))
+    ? ("turborepo" as const)
+    : undefined;
+  if (!monorepo && workspaceDirs.length > 0) {
+    warnings.push("Workspaces without turbo.json - stack.monorepo left unset");
+  }
+
+  // Apps and packages: workspace members, or the root for single apps
+  const apps: Record<string, AppConfig> = {};
+  const packages: PackageConfig[] = [];
+  const pkgs: Array<PackageJson | null> = [rootPkg];
+
+  for (const relative of workspaceDirs) {
+    const memberDir = join(dir, relative);
+    const memberPkg = readPackageJson(memberDir);
+    pkgs.push(memberPkg);
+
+    const app = detectApp(memberDir, relative);
+    if (app) {
+      apps[uniqueKey(apps, basename(relative))] = app;
+    } else {
+      packages.push({
+        name: memberPkg?.name ?? basename(relative),
+        path: relative,
+        description: memberPkg?.description ?? "",
+      });
+    }
+  }
+
+  if (Object.keys(apps).length === 0) {
+    const rootApp = detectApp(dir, ".");
+    if (rootApp) {
+      apps.web = rootApp;
+    } else {
+      warnings.push("No Next.js, Vite or Expo app found - add one under apps");
+    }
+  }
+
+  const anyDependency = (name: string) =>
+    pkgs.some((pkg) => hasDependency(pkg, name));
+  const anyFile = (...parts: string[]) =>
+    existsSync(join(dir, ...parts)) ||
+    workspaceDirs.some((relative) => existsSync(join(dir, relative, ...parts)));
+
+  // Backend
+  const convex = anyFile("convex") || anyDependency("convex");
+  const supabase =
+    anyFile("supabase") ||
+    anyDependency("@supabase/supabase-js") ||
+    anyDependency("@supabase/ssr");
+  const backend =
+    convex && supabase
+      ? "both"
+      : convex
+        ? "convex"
+        : supabase
+          ? "supabase"
+          : "none";
+
+  // Styling
+  let styling: StylingConfig | undefined;
+  if (anyDependency("tailwindcss")) {
+    styling = { framework: "tailwindcss" };
+    const theme = readShadcnTheme(dir, workspaceDirs);
+    if (theme !== null) {
+      styling.ui_library = "shadcn/ui";
+      if (theme) styling.theme = theme;
+    }
+  }
+
+  const stateManager: StateManager = anyDependency("zustand")
+    ? "zustand"
+    : anyDependency("jotai")
+      ? "jotai"
+      : "none";
+
+  const libraries: LibrariesConfig = {};
+  if (anyDependency("lucide-react")) libraries.icons = "lucide-react";
+  if (anyDependency("framer-motion")) libraries.animations = "framer-motion";
+  else if (anyDependency("motion")) libraries.animations = "motion";
+  const utilities = ["clsx", "tailwind-merge", "class-variance-authority"];
+  const usedUtilities = utilities.filter(anyDependency);
+  if (usedUtilities.length > 0) libraries.utilities = usedUtilities;
+
+  return {
+    name: toProjectName(rootPkg?.name ?? basename(dir)),
+    description: rootPkg?.description ?? "",
+    version: rootPkg?.version ?? "0.1.0",
+    packageManager: detectPackageManager(dir),
+    monorepo,
+    workspaces,
+    apps,
+    packages,
+    backend,
+    styling,
+    stateManager,
+    libraries,
+    warnings,
+  };
+}
+
+/**
+ * The base color from components.json when it is a DevKitX theme.
+ * Returns null without components.json, "" for an unknown color.
+ */
+function readShadcnTheme(
+  dir: string,
+  workspaceDirs: string[],
+): AccentTheme | "" | null {
+  for (const relative of [".", ...workspaceDirs]) {
+    const file = join(dir, relative, "components.json");
+    if (!existsSync(file)) continue;
+
+    try {
+      const color = JSON.parse(readFileSync(file, "utf-8"))?.tailwind
+        ?.baseColor;
+      return ACCENT_THEMES.includes(color) ? color : "";
+    } catch {
+      return "";
+    }
+  }
+  return null;
+}
+
+function uniqueKey(record: Record<string, unknown>, key: string): string {
+  let candidate = key;
+  for (let i = 2; candidate in record; i++) candidate = `${key}-${i}`;
+  return candidate;
+}
+
+/**
+ * Coerce a folder or package name into the project.name pattern
+ */
+export function toProjectName(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/\s+/g, "-")
+      .replace(/[^a-z0-9@/._-]/g, "") || "project"
+  );
+}
+
+// ============================================================================
+// PROJECT.YAML
+// ============================================================================
+
+/**
+ * Build a complete project.yaml for a detected project
+ */
+export function toProjectConfig(detected: DetectedProject): ProjectConfig {
+  const now = new Date().toISOString().split("T")[0];
+
+  const config: ProjectConfig = {
+    schema_version: PROJECT_SCHEMA_VERSION,
+    project: {
+      name: detected.name,
+      description: detected.description,
+      created: now,
+      version: detected.version,
+    },
+    stack: {
+      ...(detected.monorepo && { monorepo: detected.monorepo }),
+      package_manager: detected.packageManager,
+      apps: detected.apps,
+    },
+    architecture: {
+      description: "",
+      key_decisions: [],
+    },
+    features: {
+      implemented: [],
+      in_progress: [],
+      planned: [],
+    },
+    agent_notes: {
+      last_session: now,
+      context: "",
+      todos: [],
+      conventions: [],
+      sessions: [
+        {
+          date: now,
+          summary: "Adopted existing project with DevKitX (dx adopt)",
+        },
+      ],
+    },
+  };
+
+  if (detected.packages.length > 0) config.stack.packages = detected.packages;
+
+  const backend = toBackendConfig(detected.backend);
+  if (backend) config.stack.backend = backend;
+
+  if (detected.styling) config.stack.styling = detected.styling;
+  config.stack.state = { manager: detected.stateManager };
+  if (Object.keys(detected.libraries).length > 0) {
+    config.stack.libraries = detected.libraries;
+  }
+
+  return config;
+}
+
+function toBackendConfig(
+  backend: DetectedProject["backend"],
+): BackendConfig | undefined {
+  if (backend === "none") return undefined;
+  return backend === "both"
+    ? { primary: "convex", secondary: "supabase" }
+    : { primary: backend };
+}
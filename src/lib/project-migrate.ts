@@ -0,0 +1,195 @@
+/**
+ * Project YAML Migrations
+ * Upgrades older project.yaml layouts to the current schema, editing the
+ * YAML document in place so comments and key order survive
+ */
+
+import { join } from "path";
+import { isMap, isNode, isScalar, type Document } from "yaml";
+import { dependencyMajor } from "./project-detect.js";
+import {
+  PROJECT_SCHEMA_VERSION,
+  detectSchemaVersion,
+} from "./project-schema.js";
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  changes: string[];
+}
+
+/**
+ * A migration step; `projectDir` lets it look at the project's files
+ */
+type Migration = (
+  doc: Document,
+  changes: string[],
+  projectDir: string | undefined,
+) => void;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  0: migrateFlatLayout,
+  1: addSchemaVersion,
+};
+
+/**
+ * Upgrade a parsed project.yaml document to PROJECT_SCHEMA_VERSION.
+ * `projectDir` is the folder holding it, for versions only the installed
+ * packages tell. Throws when the document declares a version there is no
+ * migration from.
+ */
+export function migrateProjectDocument(
+  doc: Document,
+  projectDir?: string,
+): MigrationResult {
+  const from = detectSchemaVersion(doc.toJS());
+  if (!isMigratableVersion(from)) {
+    throw new Error(
+      from > PROJECT_SCHEMA_VERSION
+        ? `schema_version ${from} is newer than this dx supports (${PROJECT_SCHEMA_VERSION}) - update dx`
+        : `schema_version ${from} is not a known version (expected 0 to ${PROJECT_SCHEMA_VERSION})`,
+    );
+  }
+
+  const changes: string[] = [];
+  for (let version = from; version < PROJECT_SCHEMA_VERSION; version++) {
+    MIGRATIONS[version](doc, changes, projectDir);
+  }
+
+  return { from, to: PROJECT_SCHEMA_VERSION, changes };
+}
+
+/**
+ * Whether migrateProjectDocument can bring a document at this version up
+ * to date (the current version included)
+ */
+function isMigratableVersion(version: number): boolean {
+  return (
+    Number.isInteger(version) &&
+    version >= 0 &&
+    version <= PROJECT_SCHEMA_VERSION
+  );
+}
+
+/**
+ * v0 -> v1: the flat layout written by early versions of `dx create`
+ */
+function migrateFlatLayout(
+  doc: Document,
+  changes: string[],
+  projectDir: string | undefined,
+): void {
+  const root = doc.contents;
+  if (!isMap(root)) return;
+
+  // Top-level name/version/created move under project:
+  const project = {
+    name: String(doc.get("name") ?? ""),
+    description: String(
+      doc.get("description") ?? "A modern web application built with DevKitX",
+    ),
+    created: String(
+      doc.get("created") ?? new Date().toISOString().split("T")[0],
+    ),
+    version: String(doc.get("version") ?? "0.1.0"),
+  };
+
+  // Keep a header comment that was attached to the first moved key
+  const firstKey = root.items[0]?.key;
+  const leadingComment = isNode(firstKey) ? firstKey.commentBefore : null;
+
+  for (const key of ["name", "description", "created", "version"]) {
+    doc.delete(key);
+  }
+  const projectPair = doc.createPair("project", project);
+  if (leadingComment && isNode(projectPair.key)) {
+    projectPair.key.commentBefore = leadingComment;
+  }
+  root.items.unshift(projectPair);
+  changes.push("Moved name, description, created and version under project:");
+
+  // stack.monorepo was a boolean
+  const monorepo = doc.getIn(["stack", "monorepo"]);
+  if (monorepo === true) {
+    doc.setIn(["stack", "monorepo"], "turborepo");
+    changes.push('stack.monorepo: true -> "turborepo"');
+  } else if (monorepo === false) {
+    doc.deleteIn(["stack", "monorepo"]);
+    changes.push("Removed stack.monorepo: false");
+  }
+
+  // Frameworks were written as "next.js 15" / "vite"
+  const apps = doc.getIn(["stack", "apps"], true);
+  if (isMap(apps)) {
+    for (const pair of apps.items) {
+      if (!isScalar(pair.key)) continue;
+      const appName = String(pair.key.value);
+      const framework = doc.getIn(["stack", "apps", appName, "framework"]);
+      if (typeof framework !== "string") continue;
+
+      const path = doc.getIn(["stack", "apps", appName, "path"]);
+      const appDir =
+        projectDir && typeof path === "string"
+          ? join(projectDir, path)
+          : undefined;
+      const normalized = normalizeFramework(framework, appDir);
+      if (normalized !== framework) {
+        doc.setIn(["stack", "apps", appName, "framework"], normalized);
+        changes.push(
+          `stack.apps.${appName}.framework: "${framework}" -> "${normalized}"`,
+        );
+      }
+    }
+  }
+
+  // backend.primary could be "none" or "both"
+  const primary = doc.getIn(["stack", "backend", "primary"]);
+  if (primary === "none") {
+    doc.deleteIn(["stack", "backend"]);
+    changes.push('Removed stack.backend (primary was "none")');
+  } else if (primary === "both") {
+    doc.setIn(["stack", "backend", "primary"], "convex");
+    doc.setIn(["stack", "backend", "secondary"], "supabase");
+    changes.push(
+      'stack.backend.primary: "both" -> primary "convex", secondary "supabase"',
+    );
+  }
+}
+
+/**
+ * v1 -> v2: introduce schema_version
+ */
+function addSchemaVersion(doc: Document, changes: string[]): void {
+  const root = doc.contents;
+  if (!isMap(root)) return;
+
+  // An explicit schema_version: 1 is updated where it is
+  if (root.has("schema_version")) {
+    root.set("schema_version", PROJECT_SCHEMA_VERSION);
+    changes.push(`schema_version: 1 -> ${PROJECT_SCHEMA_VERSION}`);
+    return;
+  }
+
+  const versionPair = doc.createPair("schema_version", PROJECT_SCHEMA_VERSION);
+  const firstKey = root.items[0]?.key;
+  if (isNode(firstKey) && firstKey.commentBefore && isNode(versionPair.key)) {
+    versionPair.key.commentBefore = firstKey.commentBefore;
+    firstKey.commentBefore = undefined;
+  }
+  root.items.unshift(versionPair);
+  changes.push(`Added schema_version: ${PROJECT_SCHEMA_VERSION}`);
+}
+
+function normalizeFramework(framework: string, appDir?: string): string {
+  const trimmed = framework.trim();
+  if (trimmed === "vite") {
+    // The major is whatever the app depends on; without it, keep the name
+    const major = appDir ? dependencyMajor(appDir, "vite") : null;
+    return major ? `vite@${major}` : "vite";
+  }
+  if (trimmed === "next.js" || trimmed === "next") return "next.js@15";
+  return trimmed.replace(/\s+v?(\d+)$/, "@$1");
+}
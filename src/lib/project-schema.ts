@@ -0,0 +1,619 @@
+/**
+ * Project YAML Schema
+ * JSON Schema for project.yaml and a small validator that reports
+ * line/column-precise issues against the parsed YAML document
+ */
+
+import {
+  LineCounter,
+  isMap,
+  isNode,
+  isScalar,
+  parseDocument,
+  type Document,
+  type Node,
+} from "yaml";
+import { ACCENT_THEMES, FONTS, PACKAGE_MANAGERS } from "./shadcn-config.js";
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+/**
+ * Current project.yaml schema version. Bump alongside a new migration in
+ * project-migrate.ts whenever the shape of ProjectConfig changes.
+ */
+export const PROJECT_SCHEMA_VERSION = 2;
+
+/**
+ * Subset of JSON Schema (draft-07) used to describe project.yaml
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  const?: string | number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  enum?: readonly (string | number)[];
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+const stringList: JsonSchema = { type: "array", items: { type: "string" } };
+
+const dateString: JsonSchema = {
+  type: "string",
+  pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+};
+
+/**
+ * A roadmap entry: a bare name, or a record kept by `dx features`
+ */
+const featureEntrySchema: JsonSchema = {
+  oneOf: [
+    { type: "string" },
+    {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        prd: {
+          type: "string",
+          description: "PRD file, e.g. docs/prd/x.prd.md",
+        },
+        added: dateString,
+        started: dateString,
+        completed: dateString,
+      },
+      required: ["name"],
+      additionalProperties: false,
+    },
+  ],
+};
+
+const featureList: JsonSchema = { type: "array", items: featureEntrySchema };
+
+const appSchema: JsonSchema = {
+  type: "object",
+  description: "An application inside the project (apps/* in monorepos)",
+  properties: {
+    framework: { type: "string", description: "Framework and major version" },
+    path: { type: "string", description: "Path relative to project root" },
+    features: stringList,
+    port: { type: "integer", minimum: 1, maximum: 65535 },
+  },
+  required: ["framework", "path"],
+  additionalProperties: false,
+};
+
+const backendSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    primary: { type: "string", enum: ["convex", "supabase"] },
+    secondary: { type: "string", enum: ["convex", "supabase"] },
+    features: stringList,
+  },
+  required: ["primary"],
+  additionalProperties: false,
+};
+
+const authSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    provider: { type: "string", enum: ["convex", "supabase"] },
+    features: stringList,
+  },
+  required: ["provider"],
+  additionalProperties: false,
+};
+
+const testingSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    unit: { type: "string", enum: ["vitest"] },
+    e2e: { type: "string", enum: ["playwright"] },
+  },
+  additionalProperties: false,
+};
+
+const lintSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    linter: { type: "string", enum: ["eslint", "biome"] },
+    formatter: { type: "string", enum: ["prettier", "biome"] },
+  },
+  required: ["linter"],
+  additionalProperties: false,
+};
+
+const packageSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    path: { type: "string" },
+    description: { type: "string" },
+  },
+  required: ["name", "path", "description"],
+  additionalProperties: false,
+};
+
+const stylingSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    framework: { type: "string" },
+    ui_library: { type: "string" },
+    theme: { type: "string", enum: ACCENT_THEMES },
+    font: { type: "string", enum: FONTS },
+  },
+  required: ["framework"],
+  additionalProperties: false,
+};
+
+const librariesSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    icons: { type: "string" },
+    animations: { type: "string" },
+    utilities: stringList,
+  },
+  additionalProperties: false,
+};
+
+const projectSchemaBase: JsonSchema = {
+  type: "object",
+  properties: {
+    schema_version: { type: "integer", const: PROJECT_SCHEMA_VERSION },
+    project: {
+      type: "object",
+      properties: {
+        name: { type: "string", pattern: "^[a-z0-9@/._-]+$" },
+        description: { type: "string" },
+        created: dateString,
+        version: { type: "string" },
+      },
+      required: ["name", "description", "created", "version"],
+      additionalProperties: false,
+    },
+    stack: {
+      type: "object",
+      properties: {
+        monorepo: { type: "string", enum: ["turborepo"] },
+        package_manager: { type: "string", enum: PACKAGE_MANAGERS },
+        apps: { type: "object", additionalProperties: appSchema },
+        backend: backendSchema,
+        auth: authSchema,
+        testing: testingSchema,
+        lint: lintSchema,
+        packages: { type: "array", items: packageSchema },
+        styling: stylingSchema,
+        state: {
+          type: "object",
+          properties: {
+            manager: { type: "string", enum: ["zustand", "jotai", "none"] },
+          },
+          required: ["manager"],
+          additionalProperties: false,
+        },
+        libraries: librariesSchema,
+      },
+      required: ["package_manager", "apps"],
+      additionalProperties: false,
+    },
+    architecture: {
+      type: "object",
+      properties: {
+        description: { type: "string" },
+        data_flow: { type: "string" },
+        key_decisions: stringList,
+      },
+      additionalProperties: false,
+    },
+    features: {
+      type: "object",
+      properties: {
+        implemented: featureList,
+        in_progress: featureList,
+        planned: featureList,
+      },
+      additionalProperties: false,
+    },
+    agent_notes: {
+      type: "object",
+      properties: {
+        last_session: { type: "string" },
+        context: { type: "string" },
+        todos: stringList,
+        conventions: stringList,
+        sessions: {
+          type: "array",
+          description: "Session log appended by `dx notes session`",
+          items: {
+            type: "object",
+            properties: {
+              date: dateString,
+              summary: { type: "string" },
+            },
+            required: ["date", "summary"],
+            additionalProperties: false,
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  required: ["schema_version", "project", "stack"],
+  additionalProperties: false,
+};
+
+/**
+ * Copy a schema with `required` dropped along object properties, so any
+ * subset of keys is accepted. Array items keep their required keys since
+ * an override replaces the whole array.
+ */
+function partialSchema(schema: JsonSchema): JsonSchema {
+  const { required: _required, ...rest } = schema;
+  const partial: JsonSchema = { ...rest };
+
+  if (schema.properties) {
+    partial.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [
+        key,
+        partialSchema(child),
+      ]),
+    );
+  }
+  if (typeof schema.additionalProperties === "object") {
+    partial.additionalProperties = partialSchema(schema.additionalProperties);
+  }
+
+  return partial;
+}
+
+/**
+ * A profile overrides any part of the project except its schema version
+ */
+const profileSchema: JsonSchema = (() => {
+  const partial = partialSchema(projectSchemaBase);
+  const { schema_version: _version, ...properties } = partial.properties!;
+  return {
+    ...partial,
+    description: "Overrides deep-merged on top of the base configuration",
+    properties,
+  };
+})();
+
+/**
+ * JSON Schema for project.yaml, mirroring ProjectConfig in project-yaml.ts
+ */
+export const PROJECT_SCHEMA: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://github.com/iskisraell/devkitx/schemas/project.json",
+  title: "DevKitX project.yaml",
+  ...projectSchemaBase,
+  properties: {
+    ...projectSchemaBase.properties,
+    profiles: {
+      type: "object",
+      description: "Named profiles selectable with --profile",
+      additionalProperties: profileSchema,
+    },
+  },
+};
+
+/**
+ * JSON Schema for project.local.yaml: a git-ignored partial project.yaml
+ */
+export const PROJECT_OVERRIDE_SCHEMA: JsonSchema = {
+  ...profileSchema,
+  title: "DevKitX project.local.yaml",
+  properties: {
+    ...profileSchema.properties,
+    profiles: PROJECT_SCHEMA.properties!.profiles,
+  },
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export interface ValidationIssue {
+  /** Dotted path to the offending value, e.g. "stack.apps.web.port" */
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+type PathSegment = string | number;
+
+/**
+ * Validate project.yaml source text against PROJECT_SCHEMA
+ *
+ * YAML syntax errors are reported first; schema checks only run on a
+ * document that parsed cleanly.
+ */
+export function validateProjectYaml(content: string): ValidationIssue[] {
+  return validateYaml(content, PROJECT_SCHEMA, true);
+}
+
+/**
+ * Validate project.local.yaml source text against PROJECT_OVERRIDE_SCHEMA
+ */
+export function validateOverrideYaml(content: string): ValidationIssue[] {
+  return validateYaml(content, PROJECT_OVERRIDE_SCHEMA, false);
+}
+
+/**
+ * Validate YAML source text against any schema; `versioned` files must
+ * carry a current schema_version
+ */
+export function validateYaml(
+  content: string,
+  schema: JsonSchema,
+  versioned = false,
+): ValidationIssue[] {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    return doc.errors.map((err) => {
+      const pos = lineCounter.linePos(err.pos[0]);
+      return {
+        path: "",
+        message: err.message.split("\n")[0],
+        line: pos.line,
+        column: pos.col,
+      };
+    });
+  }
+
+  const issues: ValidationIssue[] = [];
+  const value = doc.toJS();
+
+  if (value === null || value === undefined) {
+    return versioned
+      ? [{ path: "", message: "file is empty", line: 1, column: 1 }]
+      : [];
+  }
+
+  // Older layouts fail almost every rule; point at the migration instead
+  const version = detectSchemaVersion(value);
+  // Negative and fractional versions fall through to the schema_version rule
+  const outdated =
+    Number.isInteger(version) &&
+    version >= 0 &&
+    version < PROJECT_SCHEMA_VERSION;
+  if (versioned && outdated) {
+    const pos = locate(doc, lineCounter, ["schema_version"]);
+    return [
+      {
+        path: "schema_version",
+        message: `outdated schema version ${version} (current is ${PROJECT_SCHEMA_VERSION}) - run 'dx config migrate'`,
+        ...pos,
+      },
+    ];
+  }
+
+  validateValue(value, schema, [], (path, message, onKey) => {
+    const pos = locate(doc, lineCounter, path, onKey);
+    issues.push({ path: formatPath(path), message, ...pos });
+  });
+
+  return issues;
+}
+
+/**
+ * Determine which schema version a parsed project.yaml was written with
+ *
+ * - 0: the flat layout from early `dx create` (top-level name/version)
+ * - 1: ProjectConfig before schema_version was introduced
+ * - n: an explicit schema_version field
+ */
+export function detectSchemaVersion(value: unknown): number {
+  if (!isPlainObject(value)) return PROJECT_SCHEMA_VERSION;
+  if (typeof value.schema_version === "number") return value.schema_version;
+  if (!("project" in value) && "name" in value) return 0;
+  return 1;
+}
+
+/**
+ * Validate an already-parsed value against a schema node (no positions)
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: PathSegment[] = [],
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateValue(value, schema, path, (issuePath, message) => {
+    issues.push({ path: formatPath(issuePath), message });
+  });
+  return issues;
+}
+
+/**
+ * Resolve the schema node describing the value at a dotted path
+ */
+export function schemaAt(
+  path: PathSegment[],
+  root: JsonSchema = PROJECT_SCHEMA,
+): JsonSchema | null {
+  let node: JsonSchema | undefined = root;
+
+  for (const segment of path) {
+    if (!node) return null;
+
+    if (node.type === "array") {
+      node = node.items;
+    } else if (node.properties && String(segment) in node.properties) {
+      node = node.properties[String(segment)];
+    } else if (typeof node.additionalProperties === "object") {
+      node = node.additionalProperties;
+    } else {
+      return null;
+    }
+  }
+
+  return node ?? null;
+}
+
+type Report = (path: PathSegment[], message: string, onKey?: boolean) => void;
+
+function validateValue(
+  value: unknown,
+  schema: JsonSchema,
+  path: PathSegment[],
+  report: Report,
+): void {
+  if (schema.type && !matchesType(value, schema.type)) {
+    report(path, `must be ${article(schema.type)} ${schema.type}`);
+    return;
+  }
+
+  if (schema.oneOf) {
+    // Validate against the variant whose type fits; otherwise list them
+    const variant = schema.oneOf.find(
+      (option) => !option.type || matchesType(value, option.type),
+    );
+    if (variant) {
+      validateValue(value, variant, path, report);
+    } else {
+      const types = schema.oneOf.map((option) => option.type).join(" or ");
+      report(path, `must be ${types}`);
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    report(path, `must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    report(path, `must be one of: ${schema.enum.join(", ")}`);
+  }
+
+  if (typeof value === "string" && schema.pattern) {
+    if (!new RegExp(schema.pattern).test(value)) {
+      report(path, `must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report(path, `must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report(path, `must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      validateValue(item, schema.items!, [...path, index], report),
+    );
+  }
+
+  if (schema.type === "object" && isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        report(path, `missing required key "${key}"`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        validateValue(child, childSchema, [...path, key], report);
+      } else if (schema.additionalProperties === false) {
+        report([...path, key], `unknown key "${key}"`, true);
+      } else if (typeof schema.additionalProperties === "object") {
+        validateValue(
+          child,
+          schema.additionalProperties,
+          [...path, key],
+          report,
+        );
+      }
+    }
+  }
+}
+
+function matchesType(value: unknown, type: JsonSchema["type"]): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    default:
+      return true;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? "an" : "a";
+}
+
+function formatPath(path: PathSegment[]): string {
+  return path
+    .map((segment, i) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : i === 0
+          ? segment
+          : `.${segment}`,
+    )
+    .join("");
+}
+
+/**
+ * Find the source position for a path, falling back to the nearest
+ * ancestor that exists in the document
+ */
+function locate(
+  doc: Document,
+  lineCounter: LineCounter,
+  path: PathSegment[],
+  onKey = false,
+): { line?: number; column?: number } {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const target = path.slice(0, depth);
+    let node: Node | null = null;
+
+    if (onKey && depth === path.length && depth > 0) {
+      const parent = doc.getIn(target.slice(0, -1), true);
+      if (isMap(parent)) {
+        const pair = parent.items.find(
+          (item) => isScalar(item.key) && item.key.value === target.at(-1),
+        );
+        if (pair && isNode(pair.key)) node = pair.key;
+      }
+    } else {
+      const found = depth === 0 ? doc.contents : doc.getIn(target, true);
+      if (isNode(found)) node = found;
+    }
+
+    if (node?.range) {
+      const pos = lineCounter.linePos(node.range[0]);
+      return { line: pos.line, column: pos.col };
+    }
+  }
+
+  return {};
+}
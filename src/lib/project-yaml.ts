@@ -1,13 +1,35 @@
 /**
  * Project YAML Parser/Writer
- * Handles project.yaml for DevKitX projects
+ * Handles project.yaml for DevKitX projects, plus the git-ignored
+ * project.local.yaml and named profiles layered on top of it
  */
 
-import { parse, stringify } from "yaml";
-import { existsSync } from "fs";
-import { join } from "path";
+import { parse, parseDocument, stringify, type Document } from "yaml";
+import { existsSync, mkdirSync } from "fs";
+import { basename, dirname, join } from "path";
+import {
+  PROJECT_SCHEMA,
+  PROJECT_SCHEMA_VERSION,
+  validateAgainstSchema,
+  validateOverrideYaml,
+  validateProjectYaml,
+  type ValidationIssue,
+} from "./project-schema.js";
+import {
+  DEFAULTS,
+  type AccentTheme,
+  type Font,
+  type PackageManager,
+  type StateManager,
+} from "./shadcn-config.js";
+import type { BuiltinTemplate, ExtraWorkspace } from "./templates.js";
+import type { AuthProvider } from "./auth-scaffold.js";
+import type { TestingStack } from "./testing-scaffold.js";
+import { LINTER_FORMATTERS, type Linter } from "./lint-scaffold.js";
+import { PINNED_VERSIONS } from "./offline-scaffold.js";
 
 export interface ProjectConfig {
+  schema_version: number;
   project: {
     name: string;
     description: string;
@@ -19,7 +41,15 @@ export interface ProjectConfig {
     package_manager: string;
     apps: Record<string, AppConfig>;
     backend?: BackendConfig;
+    auth?: AuthConfig;
+    testing?: TestingConfig;
+    lint?: LintConfig;
     packages?: PackageConfig[];
+    styling?: StylingConfig;
+    state?: {
+      manager: string;
+    };
+    libraries?: LibrariesConfig;
   };
   architecture?: {
     description?: string;
@@ -27,18 +57,29 @@ export interface ProjectConfig {
     key_decisions?: string[];
   };
   features?: {
-    implemented?: string[];
-    in_progress?: string[];
-    planned?: string[];
-  };
-  agent_notes?: {
-    last_session?: string;
-    context?: string;
-    todos?: string[];
-    conventions?: string[];
+    implemented?: FeatureEntry[];
+    in_progress?: FeatureEntry[];
+    planned?: FeatureEntry[];
   };
+  agent_notes?: AgentNotes;
+  profiles?: Record<string, ProjectOverride>;
 }
 
+/**
+ * Any subset of ProjectConfig, used by profiles and project.local.yaml
+ */
+export type ProjectOverride = DeepPartial<
+  Omit<ProjectConfig, "schema_version">
+>;
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Array<unknown>
+    ? T[K]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
 export interface AppConfig {
   framework: string;
   path: string;
@@ -52,13 +93,130 @@ export interface BackendConfig {
   features?: string[];
 }
 
+export interface AuthConfig {
+  provider: string;
+  features?: string[];
+}
+
+export interface TestingConfig {
+  unit?: string;
+  e2e?: string;
+}
+
+export interface LintConfig {
+  linter: string;
+  formatter?: string;
+}
+
 export interface PackageConfig {
   name: string;
   path: string;
   description: string;
 }
 
+export interface StylingConfig {
+  framework: string;
+  ui_library?: string;
+  theme?: string;
+  font?: string;
+}
+
+export interface LibrariesConfig {
+  icons?: string;
+  animations?: string;
+  utilities?: string[];
+}
+
+export interface AgentNotes {
+  last_session?: string;
+  context?: string;
+  todos?: string[];
+  conventions?: string[];
+  sessions?: Array<{ date: string; summary: string }>;
+}
+
+/**
+ * Roadmap entry - older files and hand edits use bare names
+ */
+export type FeatureEntry = string | FeatureRecord;
+
+export interface FeatureRecord {
+  name: string;
+  prd?: string;
+  added?: string;
+  started?: string;
+  completed?: string;
+}
+
 const PROJECT_YAML_FILENAME = "project.yaml";
+export const LOCAL_YAML_FILENAME = "project.local.yaml";
+
+// Set from the global --profile flag; DEVKITX_PROFILE works for scripts
+let activeProfile: string | undefined =
+  process.env.DEVKITX_PROFILE || undefined;
+
+export function setActiveProfile(name: string | undefined): void {
+  activeProfile = name || undefined;
+}
+
+export function getActiveProfile(): string | undefined {
+  return activeProfile;
+}
+
+/**
+ * Raised when project.yaml exists but cannot be parsed or fails validation
+ */
+export class ProjectConfigError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly issues: ValidationIssue[],
+  ) {
+    super(
+      `${basename(path)} is invalid (${issues.length} issue${issues.length === 1 ? "" : "s"})`,
+    );
+    this.name = "ProjectConfigError";
+  }
+}
+
+/**
+ * An edit that was not written because it would make the file invalid
+ */
+export class InvalidEditError extends ProjectConfigError {
+  constructor(path: string, issues: ValidationIssue[]) {
+    super(path, issues);
+    this.message = `Not saved: the change would make ${basename(path)} invalid`;
+    this.name = "InvalidEditError";
+  }
+}
+
+/**
+ * The --profile or DEVKITX_PROFILE name is not under profiles: in
+ * project.yaml. The file itself may well be valid.
+ */
+export class UnknownProfileError extends ProjectConfigError {
+  constructor(
+    path: string,
+    public readonly profile: string,
+    public readonly available: string[],
+  ) {
+    super(path, []);
+    this.message = `Profile "${profile}" is not defined in ${basename(path)}`;
+    this.name = "UnknownProfileError";
+  }
+}
+
+/**
+ * Format a validation issue as "project.yaml:12:5 stack.apps.web.port: message"
+ */
+export function formatIssue(path: string, issue: ValidationIssue): string {
+  const location =
+    issue.line !== undefined
+      ? `${basename(path)}:${issue.line}:${issue.column ?? 1}`
+      : basename(path);
+  return issue.path
+    ? `${location} ${issue.path}: ${issue.message}`
+    : `${location} ${issue.message}`;
+}
 
 /**
  * Find project.yaml in current or parent directories
@@ -85,21 +243,79 @@ export function findProjectYaml(
 
 /**
  * Read and parse project.yaml
+ *
+ * The result is the merged view: project.yaml, then project.local.yaml
+ * (if present), then the active profile, each deep-merged over the last.
+ * Returns null when no project.yaml exists and throws ProjectConfigError
+ * when any layer is malformed or the merged result is invalid.
  */
 export async function readProjectConfig(
   path?: string,
+  options: { profile?: string; local?: boolean } = {},
 ): Promise<ProjectConfig | null> {
   const yamlPath = path || findProjectYaml();
   if (!yamlPath || !existsSync(yamlPath)) {
     return null;
   }
 
-  try {
-    const content = await Bun.file(yamlPath).text();
-    return parse(content) as ProjectConfig;
-  } catch {
-    return null;
+  const content = await Bun.file(yamlPath).text();
+  const issues = validateProjectYaml(content);
+  if (issues.length > 0) {
+    throw new ProjectConfigError(yamlPath, issues);
   }
+
+  let config = parse(content) as ProjectConfig;
+
+  const localPath = join(dirname(yamlPath), LOCAL_YAML_FILENAME);
+  if (options.local !== false && existsSync(localPath)) {
+    const localContent = await Bun.file(localPath).text();
+    const localIssues = validateOverrideYaml(localContent);
+    if (localIssues.length > 0) {
+      throw new ProjectConfigError(localPath, localIssues);
+    }
+    config = deepMerge(config, parse(localContent) ?? {});
+  }
+
+  const profile = options.profile ?? activeProfile;
+  if (profile) {
+    const override = config.profiles?.[profile];
+    if (!override) {
+      throw new UnknownProfileError(
+        yamlPath,
+        profile,
+        Object.keys(config.profiles ?? {}),
+      );
+    }
+    config = deepMerge(config, override);
+  }
+
+  const { profiles: _profiles, ...merged } = config;
+  const mergedIssues = validateAgainstSchema(merged, PROJECT_SCHEMA);
+  if (mergedIssues.length > 0) {
+    throw new ProjectConfigError(yamlPath, mergedIssues);
+  }
+
+  return merged;
+}
+
+/**
+ * Deep-merge plain objects; arrays and scalars in the override replace
+ * the base value
+ */
+export function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = key in result ? deepMerge(result[key], value) : value;
+  }
+  return result as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
 /**
@@ -118,19 +334,87 @@ export async function writeProjectConfig(
   await Bun.write(path, yamlContent);
 }
 
+/**
+ * Read project.yaml as a YAML Document, keeping comments and formatting
+ * so targeted edits can be written back without reflowing the file
+ */
+export async function readProjectDocument(path: string): Promise<Document> {
+  const content = await Bun.file(path).text();
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new ProjectConfigError(path, validateProjectYaml(content));
+  }
+  return doc;
+}
+
+/**
+ * Write a YAML Document back to project.yaml
+ */
+export async function writeProjectDocument(
+  doc: Document,
+  path: string,
+): Promise<void> {
+  await Bun.write(path, doc.toString({ lineWidth: 100 }));
+}
+
+/**
+ * Read the nearest project.yaml (or the file at path) as a Document for
+ * editing. Throws when there is none, and ProjectConfigError when it has
+ * syntax errors.
+ */
+export async function loadProjectDocument(
+  path?: string,
+): Promise<{ doc: Document; yamlPath: string }> {
+  const yamlPath = path ?? findProjectYaml();
+  if (!yamlPath) {
+    throw new Error("No project.yaml found in current directory or parents");
+  }
+  return { doc: await readProjectDocument(yamlPath), yamlPath };
+}
+
+/**
+ * Validate an edited Document and write it back. Throws InvalidEditError,
+ * leaving the file as it was, when the edit would make it invalid.
+ */
+export async function saveProjectDocument(
+  doc: Document,
+  path: string,
+  validate: (content: string) => ValidationIssue[] = validateProjectYaml,
+): Promise<void> {
+  const issues = validate(doc.toString());
+  if (issues.length > 0) {
+    throw new InvalidEditError(path, issues);
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  await writeProjectDocument(doc, path);
+}
+
 /**
  * Create initial project.yaml
  */
 export function createProjectConfig(options: {
   name: string;
   description?: string;
-  template: "turbo-monorepo" | "next-only" | "vite-only";
+  /** "none" leaves apps empty for template plugins that bring their own */
+  template: BuiltinTemplate | "none";
+  /** Template name recorded in the first session (defaults to template) */
+  templateLabel?: string;
   backend?: "convex" | "supabase" | "both" | "none";
+  auth?: AuthProvider;
+  packageManager?: PackageManager;
+  theme?: AccentTheme;
+  font?: Font;
+  stateManager?: StateManager;
+  testing?: TestingStack;
+  lint?: Linter;
+  /** Libraries and APIs added to a Turborepo project */
+  workspaces?: ExtraWorkspace[];
   features?: string[];
 }): ProjectConfig {
   const now = new Date().toISOString().split("T")[0];
 
   const config: ProjectConfig = {
+    schema_version: PROJECT_SCHEMA_VERSION,
     project: {
       name: options.name,
       description:
@@ -139,8 +423,22 @@ export function createProjectConfig(options: {
       version: "0.1.0",
     },
     stack: {
-      package_manager: "pnpm",
+      package_manager: options.packageManager ?? "pnpm",
       apps: {},
+      styling: {
+        framework: "tailwindcss",
+        ui_library: "shadcn/ui",
+        theme: options.theme ?? DEFAULTS.theme,
+        font: options.font ?? DEFAULTS.font,
+      },
+      state: {
+        manager: options.stateManager ?? "none",
+      },
+      libraries: {
+        icons: "lucide-react",
+        animations: "framer-motion",
+        utilities: ["clsx", "tailwind-merge"],
+      },
     },
     architecture: {
       description: "",
@@ -154,8 +452,18 @@ export function createProjectConfig(options: {
     agent_notes: {
       last_session: now,
       context: "Initial project setup",
-      todos: [],
+      todos: [
+        "Configure environment variables",
+        "Set up authentication",
+        "Create initial pages/screens",
+      ],
       conventions: [],
+      sessions: [
+        {
+          date: now,
+          summary: `Created project with DevKitX (template: ${options.templateLabel ?? options.template}, backend: ${options.backend ?? "none"})`,
+        },
+      ],
     },
   };
 
@@ -227,7 +535,8 @@ export function createProjectConfig(options: {
     case "vite-only":
       config.stack.apps = {
         web: {
-          framework: "vite@6",
+          // The major version the bundled scaffold pins
+          framework: `vite@${PINNED_VERSIONS.vite.split(".")[0]}`,
           path: ".",
           features: ["react", "shadcn-ui", "tailwind"],
           port: 5173,
@@ -235,13 +544,82 @@ export function createProjectConfig(options: {
       };
       config.architecture!.description = "Vite + React application";
       break;
+
+    case "library":
+      config.project.description =
+        options.description || "A TypeScript library built with DevKitX";
+      config.stack.packages = [
+        {
+          name: options.name,
+          path: ".",
+          description: "TypeScript library (ESM + CommonJS)",
+        },
+      ];
+      delete config.stack.styling;
+      delete config.stack.state;
+      delete config.stack.libraries;
+      config.architecture!.description =
+        "TypeScript library built with tsup into ESM and CommonJS, tested with Vitest";
+      config.agent_notes!.todos = [
+        "Replace the example export in src/index.ts",
+        "Fill in the package.json description and repository",
+      ];
+      break;
+
+    case "api":
+      config.project.description =
+        options.description || "An API server built with DevKitX";
+      config.stack.apps = {
+        api: {
+          framework: "hono@4",
+          path: ".",
+          features: ["bun", "typed-routes", "env-validation"],
+          port: 3000,
+        },
+      };
+      delete config.stack.styling;
+      delete config.stack.state;
+      delete config.stack.libraries;
+      config.architecture!.description =
+        "Hono API server on Bun with typed routes and environment validation";
+      config.agent_notes!.todos = [
+        "Configure environment variables",
+        "Add routes under src/routes",
+      ];
+      break;
+
+    case "none":
+      // Nothing was scaffolded with shadcn/ui; the plugin's fragment fills in
+      delete config.stack.styling;
+      delete config.stack.libraries;
+      break;
+  }
+
+  for (const workspace of options.workspaces ?? []) {
+    if (workspace.kind === "library") {
+      config.stack.packages = [
+        ...(config.stack.packages ?? []),
+        {
+          name: `@repo/${workspace.name}`,
+          path: `packages/${workspace.name}`,
+          description: "TypeScript library (ESM + CommonJS)",
+        },
+      ];
+    } else {
+      config.stack.apps[workspace.name] = {
+        framework: "hono@4",
+        path: `apps/${workspace.name}`,
+        features: ["bun", "typed-routes", "env-validation"],
+        port: workspace.port,
+      };
+    }
   }
 
   // Configure backend
   if (options.backend && options.backend !== "none") {
     config.stack.backend = {
       primary: options.backend === "both" ? "convex" : options.backend,
-      secondary: options.backend === "both" ? "supabase" : undefined,
+      ...(options.backend === "both" && { secondary: "supabase" }),
       features: [],
     };
 
@@ -253,5 +631,29 @@ export function createProjectConfig(options: {
     }
   }
 
+  if (options.auth && options.auth !== "none") {
+    config.stack.auth = {
+      provider: options.auth,
+      features: ["password", "middleware", "protected-routes"],
+    };
+    config.agent_notes!.todos = config.agent_notes!.todos!.filter(
+      (todo) => todo !== "Set up authentication",
+    );
+  }
+
+  if (options.testing && options.testing !== "none") {
+    config.stack.testing = {
+      unit: "vitest",
+      e2e: options.testing === "vitest-playwright" ? "playwright" : undefined,
+    };
+  }
+
+  if (options.lint && options.lint !== "none") {
+    config.stack.lint = {
+      linter: options.lint,
+      formatter: LINTER_FORMATTERS[options.lint],
+    };
+  }
+
   return config;
 }
@@ -0,0 +1,458 @@
+/**
+ * Project Registry
+ * Persistent index of known projects at ~/.devkitx/projects.json so list,
+ * go and delete don't re-walk the home directory on every invocation
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { basename, dirname, join, resolve } from "path";
+import { platform } from "os";
+import { parse } from "yaml";
+import { expandHome, readGlobalConfigSafe } from "./global-config.js";
+
+const HOME_DIR = process.env.HOME || process.env.USERPROFILE || "";
+
+export const REGISTRY_PATH = join(HOME_DIR, ".devkitx", "projects.json");
+
+const REGISTRY_VERSION = 1;
+
+// Common project locations to search
+export const DEFAULT_SEARCH_ROOTS = [
+  "Documents",
+  "Documents/Projects",
+  "Documents/Local Projects",
+  "Projects",
+  "projects",
+  "dev",
+  "Development",
+  "Code",
+  "code",
+  "repos",
+  "GitHub",
+  "Desktop",
+];
+
+export const DEFAULT_SCAN_DEPTH = 2;
+
+const SKIPPED_DIRS = ["node_modules", "dist", ".next", ".turbo", "build"];
+
+export interface RegisteredProject {
+  name: string;
+  path: string;
+  template: string;
+  backend: string;
+  /** false for plain package.json projects found with `dx list --all` */
+  devkitx: boolean;
+  lastModified: string;
+  registeredAt: string;
+  /** How the entry got here: create, register or scan */
+  source: "create" | "register" | "scan";
+}
+
+/**
+ * Directory snapshot from the last scan. A directory whose mtime is
+ * unchanged has the same direct children, so its listing is reused.
+ */
+interface ScannedDir {
+  mtimeMs: number;
+  project: boolean;
+  children: string[];
+}
+
+interface RegistryFile {
+  version: number;
+  projects: RegisteredProject[];
+  /** Unregistered paths that scans should not pick up again */
+  ignored?: string[];
+  scan?: {
+    lastScan: string;
+    dirs: Record<string, ScannedDir>;
+  };
+}
+
+export interface ScanOptions {
+  roots: string[];
+  depth?: number;
+  includeAll?: boolean;
+}
+
+export interface ScanResult {
+  added: RegisteredProject[];
+  scannedDirs: number;
+  cachedDirs: number;
+}
+
+// ============================================================================
+// REGISTRY FILE
+// ============================================================================
+
+function readRegistry(): RegistryFile {
+  if (!existsSync(REGISTRY_PATH)) {
+    return { version: REGISTRY_VERSION, projects: [] };
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(REGISTRY_PATH, "utf-8"));
+    if (data?.version === REGISTRY_VERSION && Array.isArray(data.projects)) {
+      return data as RegistryFile;
+    }
+  } catch {
+    // A corrupt registry is rebuilt by the next scan
+  }
+  return { version: REGISTRY_VERSION, projects: [] };
+}
+
+function writeRegistry(registry: RegistryFile): void {
+  mkdirSync(dirname(REGISTRY_PATH), { recursive: true });
+  writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2));
+}
+
+export function registryExists(): boolean {
+  return existsSync(REGISTRY_PATH);
+}
+
+/**
+ * Compare paths the way the filesystem does (case-insensitive on Windows)
+ */
+export function samePath(a: string, b: string): boolean {
+  const normalize = (p: string) => {
+    const resolved = resolve(p).replace(/\\/g, "/").replace(/\/$/, "");
+    return platform() === "win32" ? resolved.toLowerCase() : resolved;
+  };
+  return normalize(a) === normalize(b);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * All registered projects, most recently modified first. Entries whose
+ * directory is gone are pruned from the registry and returned separately.
+ */
+export function loadProjects(options: { includeAll?: boolean } = {}): {
+  projects: RegisteredProject[];
+  pruned: RegisteredProject[];
+} {
+  const registry = readRegistry();
+  const projects: RegisteredProject[] = [];
+  const pruned: RegisteredProject[] = [];
+
+  for (const entry of registry.projects) {
+    if (isStale(entry)) {
+      pruned.push(entry);
+      continue;
+    }
+    try {
+      entry.lastModified = statSync(entry.path).mtime.toISOString();
+    } catch {
+      // Keep the recorded time
+    }
+    projects.push(entry);
+  }
+
+  if (pruned.length > 0) {
+    registry.projects = projects;
+    writeRegistry(registry);
+  }
+
+  projects.sort(
+    (a, b) =>
+      new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime(),
+  );
+
+  return {
+    projects: options.includeAll
+      ? projects
+      : projects.filter((project) => project.devkitx),
+    pruned,
+  };
+}
+
+function isStale(entry: RegisteredProject): boolean {
+  const marker = entry.devkitx ? "project.yaml" : "package.json";
+  return !existsSync(join(entry.path, marker));
+}
+
+/**
+ * Find a project by name: exact, then prefix, then substring match
+ */
+export function findProjectByName(
+  projects: RegisteredProject[],
+  name: string,
+): RegisteredProject | undefined {
+  const lowerName = name.toLowerCase();
+  return (
+    projects.find((p) => p.name.toLowerCase() === lowerName) ??
+    projects.find((p) => p.name.toLowerCase().startsWith(lowerName)) ??
+    projects.find((p) => p.name.toLowerCase().includes(lowerName))
+  );
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add or update a project. Returns null when the directory is not a
+ * project (no project.yaml or package.json).
+ */
+export function registerProject(
+  dir: string,
+  source: RegisteredProject["source"] = "register",
+): RegisteredProject | null {
+  const projectPath = resolve(dir);
+  const info = getProjectInfo(projectPath);
+  if (!info) return null;
+
+  const registry = readRegistry();
+  const index = registry.projects.findIndex((p) =>
+    samePath(p.path, projectPath),
+  );
+  const entry: RegisteredProject = {
+    ...info,
+    registeredAt:
+      index === -1
+        ? new Date().toISOString()
+        : registry.projects[index].registeredAt,
+    source: index === -1 ? source : registry.projects[index].source,
+  };
+
+  if (index === -1) {
+    registry.projects.push(entry);
+  } else {
+    registry.projects[index] = entry;
+  }
+  registry.ignored = registry.ignored?.filter((p) => !samePath(p, projectPath));
+  writeRegistry(registry);
+
+  return entry;
+}
+
+/**
+ * Remove a project by path. Returns the removed entry, if any.
+ * With `ignore`, later scans skip the path until it is registered again.
+ */
+export function unregisterProject(
+  dir: string,
+  options: { ignore?: boolean } = {},
+): RegisteredProject | null {
+  const registry = readRegistry();
+  const index = registry.projects.findIndex((p) => samePath(p.path, dir));
+  if (index === -1) return null;
+
+  const [removed] = registry.projects.splice(index, 1);
+  if (options.ignore) {
+    registry.ignored = [...(registry.ignored ?? []), removed.path];
+  }
+  writeRegistry(registry);
+  return removed;
+}
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+/**
+ * Folders to scan: search.roots from ~/.devkitx/config.yaml, or the
+ * common project locations under the home directory
+ */
+export function defaultSearchRoots(): string[] {
+  const configured = readGlobalConfigSafe().search?.roots;
+  const roots = configured
+    ? configured.map(expandHome)
+    : DEFAULT_SEARCH_ROOTS.map((p) => join(HOME_DIR, p));
+  return roots.filter((p) => existsSync(p));
+}
+
+export function defaultScanDepth(): number {
+  return readGlobalConfigSafe().search?.depth ?? DEFAULT_SCAN_DEPTH;
+}
+
+/**
+ * Walk the search roots and register every project found. Directories
+ * whose mtime matches the previous scan reuse their cached listing, so a
+ * refresh only reads directories that actually changed.
+ */
+export function scanForProjects(options: ScanOptions): ScanResult {
+  const registry = readRegistry();
+  const previous = registry.scan?.dirs ?? {};
+  // Start from the old cache so scanning one --path keeps the other roots
+  const dirs: Record<string, ScannedDir> = { ...previous };
+  const result: ScanResult = { added: [], scannedDirs: 0, cachedDirs: 0 };
+  const found = new Set<string>();
+
+  const visit = (dir: string, depth: number) => {
+    if (depth < 0) return;
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = statSync(dir).mtimeMs;
+    } catch {
+      delete dirs[dir];
+      return;
+    }
+
+    let snapshot = previous[dir];
+    if (snapshot && snapshot.mtimeMs === mtimeMs) {
+      result.cachedDirs++;
+    } else {
+      snapshot = readDirectory(dir, mtimeMs);
+      result.scannedDirs++;
+    }
+    dirs[dir] = snapshot;
+
+    if (snapshot.project) {
+      found.add(dir);
+      return;
+    }
+    if (options.includeAll && existsSync(join(dir, "package.json"))) {
+      found.add(dir);
+      return;
+    }
+
+    for (const child of snapshot.children) {
+      visit(join(dir, child), depth - 1);
+    }
+  };
+
+  for (const root of options.roots) {
+    visit(resolve(root), options.depth ?? defaultScanDepth());
+  }
+
+  for (const dir of found) {
+    if (registry.ignored?.some((p) => samePath(p, dir))) continue;
+
+    const index = registry.projects.findIndex((p) => samePath(p.path, dir));
+    const info = getProjectInfo(dir);
+    if (!info) continue;
+
+    if (index === -1) {
+      const entry: RegisteredProject = {
+        ...info,
+        registeredAt: new Date().toISOString(),
+        source: "scan",
+      };
+      registry.projects.push(entry);
+      result.added.push(entry);
+    } else {
+      registry.projects[index] = { ...registry.projects[index], ...info };
+    }
+  }
+
+  registry.scan = { lastScan: new Date().toISOString(), dirs };
+  writeRegistry(registry);
+
+  return result;
+}
+
+function readDirectory(dir: string, mtimeMs: number): ScannedDir {
+  if (existsSync(join(dir, "project.yaml"))) {
+    return { mtimeMs, project: true, children: [] };
+  }
+
+  try {
+    const children = readdirSync(dir, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          entry.isDirectory() &&
+          !entry.name.startsWith(".") &&
+          !SKIPPED_DIRS.includes(entry.name),
+      )
+      .map((entry) => entry.name);
+    return { mtimeMs, project: false, children };
+  } catch {
+    // Skip directories we can't access
+    return { mtimeMs, project: false, children: [] };
+  }
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Get project information from a directory
+ */
+export function getProjectInfo(
+  dir: string,
+): Omit<RegisteredProject, "registeredAt" | "source"> | null {
+  const hasProjectYaml = existsSync(join(dir, "project.yaml"));
+  if (!hasProjectYaml && !existsSync(join(dir, "package.json"))) {
+    return null;
+  }
+
+  try {
+    const stats = statSync(dir);
+
+    let template = "unknown";
+    let backend = "none";
+
+    if (hasProjectYaml) {
+      try {
+        const yamlContent = readFileSync(join(dir, "project.yaml"), "utf-8");
+        const config = parse(yamlContent);
+
+        if (config.stack?.monorepo) {
+          template = "turbo-monorepo";
+        } else if (config.stack?.apps?.web?.framework) {
+          const framework = config.stack.apps.web.framework;
+          if (framework.includes("next")) template = "next-only";
+          else if (framework.includes("vite")) template = "vite-only";
+        } else if (config.stack?.apps?.api?.framework?.includes("hono")) {
+          template = "api";
+        } else if (
+          config.stack?.packages?.some(
+            (pkg: { path?: string }) => pkg.path === ".",
+          )
+        ) {
+          template = "library";
+        }
+
+        if (config.stack?.backend?.primary) {
+          backend = config.stack.backend.primary;
+        }
+      } catch {
+        template = "devkitx";
+      }
+    } else {
+      // Try to detect from package.json
+      try {
+        const pkgJson = JSON.parse(
+          readFileSync(join(dir, "package.json"), "utf-8"),
+        );
+        if (pkgJson.dependencies?.next || pkgJson.devDependencies?.next) {
+          template = "next.js";
+        } else if (pkgJson.devDependencies?.vite) {
+          template = "vite";
+        } else if (pkgJson.dependencies?.expo) {
+          template = "expo";
+        } else if (pkgJson.workspaces || existsSync(join(dir, "turbo.json"))) {
+          template = "monorepo";
+        } else {
+          template = "node";
+        }
+      } catch {
+        template = "node";
+      }
+    }
+
+    return {
+      name: basename(dir),
+      path: dir,
+      template,
+      backend,
+      devkitx: hasProjectYaml,
+      lastModified: stats.mtime.toISOString(),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -3,6 +3,9 @@
  * Defines theme tokens, fonts, and preset URL builder
  */
 
+import { readFileSync } from "fs";
+import { join } from "path";
+
 // ============================================================================
 // DESIGN TOKENS
 // ============================================================================
@@ -151,7 +154,188 @@ export function buildPresetUrl(options: ShadcnPresetOptions): string {
 // COMMAND BUILDERS
 // ============================================================================
 
-export type PackageManager = "pnpm" | "bun" | "npm";
+export const PACKAGE_MANAGERS = ["pnpm", "bun", "npm", "yarn"] as const;
+
+export type PackageManager = (typeof PACKAGE_MANAGERS)[number];
+
+/**
+ * Yarn 1.x (classic) or 2+ (berry). They differ in dlx, the workspace:
+ * protocol and node_modules handling.
+ */
+export type YarnFlavor = "berry" | "classic";
+
+/** Versions written to package.json when a manager is not installed */
+const FALLBACK_VERSIONS: Record<PackageManager, string> = {
+  pnpm: "9.15.0",
+  bun: "1.2.0",
+  npm: "10.9.0",
+  yarn: "4.9.0",
+};
+
+const installedVersions = new Map<string, string | null>();
+
+/**
+ * `<manager> --version` in `cwd` (corepack answers per project), or null
+ * when the manager is not installed
+ */
+export function packageManagerVersion(
+  packageManager: PackageManager,
+  cwd = process.cwd(),
+): string | null {
+  const key = `${packageManager}:${cwd}`;
+  if (!installedVersions.has(key)) {
+    let version: string | null = null;
+    try {
+      const proc = Bun.spawnSync([packageManager, "--version"], {
+        cwd,
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+      const output = proc.stdout.toString().trim();
+      if (proc.exitCode === 0 && /^\d+\.\d+/.test(output)) version = output;
+    } catch {
+      // Not on PATH
+    }
+    installedVersions.set(key, version);
+  }
+  return installedVersions.get(key) ?? null;
+}
+
+/**
+ * Flavor of the yarn that would run in `cwd`: corepack runs the version
+ * the packageManager field of its package.json names, else the yarn on
+ * PATH answers. Without either, dx writes a berry release into the field
+ * (FALLBACK_VERSIONS).
+ */
+export function yarnFlavor(cwd = process.cwd()): YarnFlavor {
+  const version =
+    pinnedVersion("yarn", cwd) ?? packageManagerVersion("yarn", cwd);
+  return version?.startsWith("1.") ? "classic" : "berry";
+}
+
+/**
+ * Version of `packageManager` in the packageManager field of the
+ * package.json in `cwd`, e.g. "4.9.0" for "yarn@4.9.0+sha512..."
+ */
+function pinnedVersion(
+  packageManager: PackageManager,
+  cwd: string,
+): string | null {
+  try {
+    const { packageManager: field } = JSON.parse(
+      readFileSync(join(cwd, "package.json"), "utf-8"),
+    );
+    const prefix = `${packageManager}@`;
+    return typeof field === "string" && field.startsWith(prefix)
+      ? field.slice(prefix.length)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Value for the packageManager field of package.json, e.g. "pnpm@9.15.0"
+ */
+export function packageManagerField(
+  packageManager: PackageManager,
+  cwd?: string,
+): string {
+  const version =
+    packageManagerVersion(packageManager, cwd) ??
+    FALLBACK_VERSIONS[packageManager];
+  return `${packageManager}@${version}`;
+}
+
+/**
+ * Run a package binary without adding it to the project (npx and friends)
+ */
+export function buildExecCommand(
+  packageManager: PackageManager,
+  cwd?: string,
+): string[] {
+  switch (packageManager) {
+    case "pnpm":
+      return ["pnpm", "dlx"];
+    case "bun":
+      return ["bunx", "--bun"];
+    case "yarn":
+      // Yarn classic has no dlx
+      return yarnFlavor(cwd) === "berry" ? ["yarn", "dlx"] : ["npx"];
+    case "npm":
+    default:
+      return ["npx"];
+  }
+}
+
+/**
+ * Run a binary the project installed (buildExecCommand may download it)
+ */
+export function buildBinCommand(
+  packageManager: PackageManager,
+  bin: string,
+): string[] {
+  switch (packageManager) {
+    case "pnpm":
+      return ["pnpm", "exec", bin];
+    case "yarn":
+      return ["yarn", bin];
+    case "bun":
+      return ["bunx", bin];
+    case "npm":
+    default:
+      return ["npx", bin];
+  }
+}
+
+/**
+ * Install exactly what the lockfile says, failing if it is out of date
+ */
+export function buildFrozenInstallCommand(
+  packageManager: PackageManager,
+  cwd?: string,
+): string[] {
+  switch (packageManager) {
+    case "pnpm":
+      return ["pnpm", "install", "--frozen-lockfile"];
+    case "yarn":
+      return yarnFlavor(cwd) === "berry"
+        ? ["yarn", "install", "--immutable"]
+        : ["yarn", "install", "--frozen-lockfile"];
+    case "bun":
+      return ["bun", "install", "--frozen-lockfile"];
+    case "npm":
+    default:
+      return ["npm", "ci"];
+  }
+}
+
+/**
+ * Add dependencies to the package in the working directory
+ */
+export function buildAddCommand(
+  packageManager: PackageManager,
+  packages: string[],
+  dev = false,
+): string[] {
+  const devFlag = dev ? ["-D"] : [];
+  return packageManager === "npm"
+    ? ["npm", "install", ...devFlag, ...packages]
+    : [packageManager, "add", ...devFlag, ...packages];
+}
+
+/**
+ * Run a package.json script. Bun needs `run` too: `bun build` and
+ * `bun test` are its bundler and test runner, not the scripts.
+ */
+export function buildRunCommand(
+  packageManager: PackageManager,
+  script: string,
+): string[] {
+  return packageManager === "npm" || packageManager === "bun"
+    ? [packageManager, "run", script]
+    : [packageManager, script];
+}
 
 export interface ShadcnCreateOptions {
   packageManager: PackageManager;
@@ -173,49 +357,17 @@ export function buildShadcnCreateCommand(
     template: options.template,
   });
 
-  switch (options.packageManager) {
-    case "pnpm":
-      return [
-        "pnpm",
-        "dlx",
-        "shadcn@latest",
-        "create",
-        options.projectName,
-        "--preset",
-        presetUrl,
-        "--template",
-        options.template,
-        "-y",
-      ];
-
-    case "bun":
-      return [
-        "bunx",
-        "--bun",
-        "shadcn@latest",
-        "create",
-        options.projectName,
-        "--preset",
-        presetUrl,
-        "--template",
-        options.template,
-        "-y",
-      ];
-
-    case "npm":
-    default:
-      return [
-        "npx",
-        "shadcn@latest",
-        "create",
-        options.projectName,
-        "--preset",
-        presetUrl,
-        "--template",
-        options.template,
-        "-y",
-      ];
-  }
+  return [
+    ...buildExecCommand(options.packageManager),
+    "shadcn@latest",
+    "create",
+    options.projectName,
+    "--preset",
+    presetUrl,
+    "--template",
+    options.template,
+    "-y",
+  ];
 }
 
 /**
@@ -225,14 +377,13 @@ export function buildShadcnAddCommand(
   packageManager: PackageManager,
   components: string[],
 ): string[] {
-  const baseCmd =
-    packageManager === "pnpm"
-      ? ["pnpm", "dlx", "shadcn@latest"]
-      : packageManager === "bun"
-        ? ["bunx", "--bun", "shadcn@latest"]
-        : ["npx", "shadcn@latest"];
-
-  return [...baseCmd, "add", ...components, "-y"];
+  return [
+    ...buildExecCommand(packageManager),
+    "shadcn@latest",
+    "add",
+    ...components,
+    "-y",
+  ];
 }
 
 // ============================================================================
@@ -250,7 +401,7 @@ export interface PackageManagerRecommendation {
  * Get package manager recommendations based on template
  */
 export function getPackageManagerRecommendations(
-  template: "turbo-monorepo" | "next-only" | "vite-only",
+  template: "turbo-monorepo" | "next-only" | "vite-only" | "library" | "api",
 ): PackageManagerRecommendation[] {
   switch (template) {
     case "turbo-monorepo":
@@ -273,6 +424,12 @@ export function getPackageManagerRecommendations(
           recommended: false,
           hint: "Maximum compatibility, slower",
         },
+        {
+          manager: "yarn",
+          label: "Yarn",
+          recommended: false,
+          hint: "Berry or classic, whichever is installed",
+        },
       ];
 
     case "next-only":
@@ -295,6 +452,12 @@ export function getPackageManagerRecommendations(
           recommended: false,
           hint: "Maximum compatibility",
         },
+        {
+          manager: "yarn",
+          label: "Yarn",
+          recommended: false,
+          hint: "Berry or classic, whichever is installed",
+        },
       ];
 
     case "vite-only":
@@ -317,6 +480,68 @@ export function getPackageManagerRecommendations(
           recommended: false,
           hint: "Maximum compatibility",
         },
+        {
+          manager: "yarn",
+          label: "Yarn",
+          recommended: false,
+          hint: "Berry or classic, whichever is installed",
+        },
+      ];
+
+    case "library":
+      return [
+        {
+          manager: "pnpm",
+          label: "pnpm",
+          recommended: true,
+          hint: "Recommended for publishing packages",
+        },
+        {
+          manager: "bun",
+          label: "Bun",
+          recommended: false,
+          hint: "Fast installs; tsup and Vitest run on Node",
+        },
+        {
+          manager: "npm",
+          label: "npm",
+          recommended: false,
+          hint: "Maximum compatibility",
+        },
+        {
+          manager: "yarn",
+          label: "Yarn",
+          recommended: false,
+          hint: "Berry or classic, whichever is installed",
+        },
+      ];
+
+    case "api":
+      return [
+        {
+          manager: "bun",
+          label: "Bun",
+          recommended: true,
+          hint: "Recommended - the server runs on Bun",
+        },
+        {
+          manager: "pnpm",
+          label: "pnpm",
+          recommended: false,
+          hint: "Fast and reliable",
+        },
+        {
+          manager: "npm",
+          label: "npm",
+          recommended: false,
+          hint: "Maximum compatibility",
+        },
+        {
+          manager: "yarn",
+          label: "Yarn",
+          recommended: false,
+          hint: "Berry or classic, whichever is installed",
+        },
       ];
   }
 }
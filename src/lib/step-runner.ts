@@ -0,0 +1,235 @@
+/**
+ * Step Runner
+ * Runs the steps of `dx create` and `dx repair`: numbered progress with
+ * elapsed time, command output captured into .devkitx/setup.log, and a
+ * retry/skip/abort choice when a step fails
+ */
+
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import { logger } from "./logger.js";
+import * as ui from "../ui/theme.js";
+
+export interface Step {
+  /** Stable key, e.g. in create-journal.json */
+  id: string;
+  label: string;
+  /** Success message; run() may return a more specific one */
+  done: string;
+  /** Printed instead of running the step when it does not apply */
+  skip?: string;
+  run: () => Promise<string | void>;
+}
+
+export type StepOutcome = "done" | "skipped" | "failed";
+
+export interface StepResult {
+  step: Step;
+  outcome: StepOutcome;
+  error?: string;
+  /** Milliseconds, all attempts included */
+  elapsed: number;
+}
+
+export interface RunStepsOptions<S extends Step> {
+  /** Ask retry/skip/abort on failure; otherwise the first failure throws */
+  interactive?: boolean;
+  /** Outcome of an earlier run; such steps are not run again */
+  previous?: (step: S) => "done" | "skipped" | undefined;
+  onStart?: (step: S, prefix: string) => void;
+  /** Called after every attempt */
+  onFinish?: (step: S, outcome: StepOutcome, error?: string) => void;
+}
+
+/**
+ * A command that exited with a non-zero code
+ */
+export class CommandError extends Error {
+  constructor(
+    public readonly command: string[],
+    public readonly exitCode: number,
+    /** Combined stdout and stderr */
+    public readonly output: string,
+  ) {
+    super(`${command.join(" ")} exited with code ${exitCode}`);
+    this.name = "CommandError";
+  }
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Run a command with its output captured into the log (and echoed with
+ * --verbose). Throws CommandError when it exits with a non-zero code.
+ */
+export async function runCommand(
+  command: string[],
+  options: { cwd: string; env?: Record<string, string | undefined> },
+): Promise<string> {
+  logger.info(`$ ${command.join(" ")}`, { cwd: options.cwd });
+
+  const proc = Bun.spawn(command, {
+    cwd: options.cwd,
+    env: options.env,
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    collect(proc.stdout),
+    collect(proc.stderr),
+  ]);
+  const exitCode = await proc.exited;
+
+  const output = [stdout, stderr].filter((text) => text.trim()).join("\n");
+  logger.output(output);
+  if (exitCode !== 0) {
+    throw new CommandError(command, exitCode, output);
+  }
+  return stdout;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of stream) {
+    const part = decoder.decode(chunk, { stream: true });
+    text += part;
+    if (logger.isVerbose) process.stdout.write(chalk.gray(part));
+  }
+  return text + decoder.decode();
+}
+
+// ============================================================================
+// STEPS
+// ============================================================================
+
+/**
+ * Run the steps in order. A failed step the user skips is reported as
+ * "failed" and the run goes on; abort (or any failure when not
+ * interactive) rethrows the step's error.
+ */
+export async function runSteps<S extends Step>(
+  steps: S[],
+  options: RunStepsOptions<S> = {},
+): Promise<StepResult[]> {
+  const results: StepResult[] = [];
+
+  for (const [index, step] of steps.entries()) {
+    const prefix = `[${index + 1}/${steps.length}]`;
+
+    const previous = options.previous?.(step);
+    if (previous) {
+      const status = previous === "done" ? "already done" : "skipped";
+      console.log(chalk.gray(`  ${prefix} ✓ ${step.label} (${status})`));
+      continue;
+    }
+
+    if (step.skip) {
+      console.log(chalk.gray(`  ${prefix} ${step.skip}`));
+      logger.info(`Skipped: ${step.label}`);
+      options.onFinish?.(step, "skipped");
+      results.push({ step, outcome: "skipped", elapsed: 0 });
+      continue;
+    }
+
+    const started = performance.now();
+    for (;;) {
+      console.log(chalk.gray(`  ${prefix} ${step.label}...`));
+      options.onStart?.(step, prefix);
+      logger.step(step.label);
+
+      try {
+        const done = await step.run();
+        const elapsed = performance.now() - started;
+        logger.stepComplete(step.label);
+        options.onFinish?.(step, "done");
+        console.log(
+          chalk.green(`  ${prefix} ✓ ${done || step.done}`) +
+            chalk.gray(` (${formatElapsed(elapsed)})`),
+        );
+        results.push({ step, outcome: "done", elapsed });
+        break;
+      } catch (error) {
+        const elapsed = performance.now() - started;
+        const message = error instanceof Error ? error.message : String(error);
+        logger.stepFailed(step.label, error);
+        options.onFinish?.(step, "failed", message);
+        console.log(
+          chalk.red(`  ${prefix} ✗ ${step.label} failed`) +
+            chalk.gray(` (${formatElapsed(elapsed)})`),
+        );
+        console.log(chalk.red(`      ${message}`));
+        if (error instanceof CommandError) {
+          for (const line of outputTail(error.output)) {
+            console.log(chalk.gray(`      ${line}`));
+          }
+        }
+
+        const choice = options.interactive ? await askOnFailure() : "abort";
+        if (choice === "retry") continue;
+        if (choice === "abort") throw error;
+
+        results.push({ step, outcome: "failed", error: message, elapsed });
+        break;
+      }
+    }
+  }
+
+  return results;
+}
+
+async function askOnFailure(): Promise<"retry" | "skip" | "abort"> {
+  const choice = await p.select({
+    message: "What now?",
+    options: [
+      { value: "retry", label: "Retry the step" },
+      { value: "skip", label: "Skip it and continue" },
+      { value: "abort", label: "Abort" },
+    ],
+  });
+  return p.isCancel(choice) ? "abort" : (choice as "retry" | "skip" | "abort");
+}
+
+/**
+ * Elapsed time, the failed steps, and where the full output went
+ */
+export function printStepSummary(
+  results: StepResult[],
+  logFile?: string,
+): void {
+  const failed = results.filter((result) => result.outcome === "failed");
+  const total = results.reduce((sum, result) => sum + result.elapsed, 0);
+  const ran = results.filter((result) => result.outcome !== "skipped").length;
+
+  console.log();
+  ui.header("Summary");
+  console.log(
+    chalk.gray(`  ${ran} step(s) run in ${formatElapsed(total)}`) +
+      (failed.length > 0 ? chalk.red(`, ${failed.length} failed`) : ""),
+  );
+  for (const result of failed) {
+    console.log(`  ${chalk.red("✗")} ${result.step.label}`);
+    console.log(`    ${chalk.gray(result.error)}`);
+  }
+  if (logFile) console.log(chalk.gray(`  Full output: ${logFile}`));
+}
+
+export function formatElapsed(ms: number): string {
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+/**
+ * Last non-empty lines of a command's output, usually the actual error
+ */
+function outputTail(output: string, lines = 5): string[] {
+  return output
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter(Boolean)
+    .slice(-lines);
+}
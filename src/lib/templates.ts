@@ -0,0 +1,422 @@
+/**
+ * Template Plugins
+ * User-defined starters for `dx create`: a template.yaml manifest plus a
+ * files/ folder, installed under ~/.devkitx/templates or fetched from a
+ * git repository or npm package
+ */
+
+import {
+  cpSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join, relative } from "path";
+import { tmpdir } from "os";
+import { parse } from "yaml";
+import {
+  PROJECT_OVERRIDE_SCHEMA,
+  validateYaml,
+  type JsonSchema,
+} from "./project-schema.js";
+import { ProjectConfigError, type ProjectOverride } from "./project-yaml.js";
+
+const HOME_DIR = process.env.HOME || process.env.USERPROFILE || "";
+
+export const TEMPLATES_DIR = join(HOME_DIR, ".devkitx", "templates");
+export const MANIFEST_FILENAME = "template.yaml";
+
+export type BuiltinTemplate =
+  "turbo-monorepo" | "next-only" | "vite-only" | "library" | "api";
+
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+  "next-only",
+  "vite-only",
+  "turbo-monorepo",
+  "library",
+  "api",
+];
+
+/** Built-in templates scaffolded with shadcn/ui */
+export type UiTemplate = "turbo-monorepo" | "next-only" | "vite-only";
+
+/**
+ * A library (packages/<name>) or API (apps/<name>) added to a Turborepo
+ * project
+ */
+export interface ExtraWorkspace {
+  kind: "library" | "api";
+  name: string;
+  /** APIs get 3001, 3002, ... (apps/web has 3000) */
+  port?: number;
+}
+
+const EXTRA_DEFAULT_NAMES: Record<ExtraWorkspace["kind"], string> = {
+  library: "lib",
+  api: "api",
+};
+
+/** Folders the Turborepo template already uses */
+const RESERVED_WORKSPACES = [
+  "apps/web",
+  "apps/mobile",
+  "packages/ui",
+  "packages/shared",
+  "packages/config-tailwind",
+  "packages/config-typescript",
+];
+
+export interface TemplateManifest {
+  name: string;
+  label?: string;
+  description?: string;
+  /** Built-in template to scaffold first; "none" starts from an empty folder */
+  base?: BuiltinTemplate | "none";
+  /** Folder copied into the project, relative to the manifest (default: files) */
+  files?: string;
+  /** Where dependencies are installed, relative to the project root */
+  workspace?: string;
+  dependencies?: string[];
+  dev_dependencies?: string[];
+  /** Commands run in the project root after installing */
+  post_install?: string[];
+  /** Merged into the generated project.yaml */
+  project?: ProjectOverride;
+}
+
+export interface TemplatePlugin {
+  manifest: TemplateManifest;
+  /** Folder holding template.yaml */
+  dir: string;
+}
+
+/** Template names double as folder names in TEMPLATES_DIR */
+const TEMPLATE_NAME = /^[a-z0-9][a-z0-9._-]*$/;
+
+export const TEMPLATE_MANIFEST_SCHEMA: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "DevKitX template.yaml",
+  type: "object",
+  properties: {
+    name: { type: "string", pattern: TEMPLATE_NAME.source },
+    label: { type: "string" },
+    description: { type: "string" },
+    base: {
+      type: "string",
+      enum: [...BUILTIN_TEMPLATES, "none"],
+    },
+    files: { type: "string" },
+    workspace: { type: "string" },
+    dependencies: { type: "array", items: { type: "string" } },
+    dev_dependencies: { type: "array", items: { type: "string" } },
+    post_install: { type: "array", items: { type: "string" } },
+    project: PROJECT_OVERRIDE_SCHEMA,
+  },
+  required: ["name"],
+  additionalProperties: false,
+};
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+export function isBuiltinTemplate(name: string): name is BuiltinTemplate {
+  return (BUILTIN_TEMPLATES as string[]).includes(name);
+}
+
+/**
+ * Whether the template has a web app, and with it the backend, theme and
+ * state manager choices
+ */
+export function isUiTemplate(
+  template: BuiltinTemplate | "none",
+): template is UiTemplate {
+  return (
+    template === "turbo-monorepo" ||
+    template === "next-only" ||
+    template === "vite-only"
+  );
+}
+
+/**
+ * Parse a --with entry: "library", "api", "library:<name>" or
+ * "api:<name>". Throws when the kind or name is invalid.
+ */
+export function parseExtraWorkspace(spec: string): ExtraWorkspace {
+  const [kind, name, ...rest] = spec.split(":");
+  if (kind !== "library" && kind !== "api") {
+    throw new Error(
+      `Unknown workspace "${spec}": use library[:name] or api[:name]`,
+    );
+  }
+  const workspace: ExtraWorkspace = {
+    kind,
+    name: name || EXTRA_DEFAULT_NAMES[kind],
+  };
+  if (rest.length > 0 || !/^[a-z0-9][a-z0-9-]*$/.test(workspace.name)) {
+    throw new Error(
+      `Invalid workspace name in "${spec}": use lowercase letters, numbers, and hyphens`,
+    );
+  }
+  if (RESERVED_WORKSPACES.includes(extraWorkspacePath(workspace))) {
+    throw new Error(
+      `${extraWorkspacePath(workspace)} is already part of the Turborepo template`,
+    );
+  }
+  return workspace;
+}
+
+/**
+ * Parse every --with entry and number the API ports, rejecting two
+ * entries that land in the same folder
+ */
+export function parseExtraWorkspaces(specs: string[]): ExtraWorkspace[] {
+  const workspaces = specs.map(parseExtraWorkspace);
+  const paths = workspaces.map(extraWorkspacePath);
+  const duplicate = paths.find((path, index) => paths.indexOf(path) !== index);
+  if (duplicate) throw new Error(`${duplicate} is listed twice`);
+
+  let port = 3001;
+  return workspaces.map((workspace) =>
+    workspace.kind === "api" ? { ...workspace, port: port++ } : workspace,
+  );
+}
+
+export function extraWorkspacePath(workspace: ExtraWorkspace): string {
+  return workspace.kind === "library"
+    ? `packages/${workspace.name}`
+    : `apps/${workspace.name}`;
+}
+
+/** The --with form of a workspace, as saved in answers files */
+export function extraWorkspaceSpec(workspace: ExtraWorkspace): string {
+  return `${workspace.kind}:${workspace.name}`;
+}
+
+/**
+ * Read and validate the template.yaml in a folder. Throws
+ * ProjectConfigError when the manifest is malformed.
+ */
+export function loadTemplatePlugin(dir: string): TemplatePlugin {
+  const manifestPath = join(dir, MANIFEST_FILENAME);
+  if (!existsSync(manifestPath)) {
+    throw new Error(`No ${MANIFEST_FILENAME} in ${dir}`);
+  }
+
+  const content = readFileSync(manifestPath, "utf-8");
+  const issues = validateYaml(content, TEMPLATE_MANIFEST_SCHEMA);
+  if (issues.length > 0) {
+    throw new ProjectConfigError(manifestPath, issues);
+  }
+
+  return { manifest: parse(content) as TemplateManifest, dir };
+}
+
+/**
+ * Every installed plugin, plus the folders whose manifest failed to load
+ */
+export function listTemplatePlugins(): {
+  plugins: TemplatePlugin[];
+  errors: Array<{ dir: string; error: unknown }>;
+} {
+  const plugins: TemplatePlugin[] = [];
+  const errors: Array<{ dir: string; error: unknown }> = [];
+  if (!existsSync(TEMPLATES_DIR)) return { plugins, errors };
+
+  for (const entry of readdirSync(TEMPLATES_DIR, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+    const dir = join(TEMPLATES_DIR, entry.name);
+    try {
+      plugins.push(loadTemplatePlugin(dir));
+    } catch (error) {
+      errors.push({ dir, error });
+    }
+  }
+
+  plugins.sort((a, b) => a.manifest.name.localeCompare(b.manifest.name));
+  return { plugins, errors };
+}
+
+export function findTemplatePlugin(name: string): TemplatePlugin | undefined {
+  return listTemplatePlugins().plugins.find((t) => t.manifest.name === name);
+}
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+/**
+ * git or npm source: github:user/repo, git+https://..., https://....git,
+ * git@host:repo.git or npm:package[@version]
+ */
+export function isTemplateSource(spec: string): boolean {
+  return spec.startsWith("npm:") || gitUrl(spec) !== null || existsSync(spec);
+}
+
+function gitUrl(spec: string): string | null {
+  if (spec.startsWith("github:")) {
+    return `https://github.com/${spec.slice("github:".length)}.git`;
+  }
+  if (spec.startsWith("git+")) return spec.slice("git+".length);
+  if (spec.startsWith("git@") || /^https?:\/\/.+\.git$/.test(spec)) {
+    return spec;
+  }
+  return null;
+}
+
+/**
+ * Download a template into a temporary folder and load it. The caller
+ * owns the folder; installTemplate() copies it into TEMPLATES_DIR.
+ */
+export async function fetchTemplate(source: string): Promise<TemplatePlugin> {
+  // A local folder is used in place
+  if (!source.startsWith("npm:") && gitUrl(source) === null) {
+    return loadTemplatePlugin(source);
+  }
+
+  const staging = mkdtempSync(join(tmpdir(), "devkitx-template-"));
+
+  try {
+    const url = gitUrl(source);
+    if (url) {
+      const dir = join(staging, "template");
+      await run(["git", "clone", "--depth", "1", url, dir], staging);
+      rmSync(join(dir, ".git"), { recursive: true, force: true });
+      return loadTemplatePlugin(dir);
+    }
+
+    // npm pack downloads the tarball without installing anything
+    const spec = source.slice("npm:".length);
+    const output = await run(["npm", "pack", spec, "--json"], staging);
+    const [{ filename }] = JSON.parse(output) as Array<{ filename: string }>;
+    await run(["tar", "-xzf", filename], staging);
+    return loadTemplatePlugin(join(staging, "package"));
+  } catch (error) {
+    rmSync(staging, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * Copy a fetched template into TEMPLATES_DIR/<name>, replacing any
+ * previous version
+ */
+export function installTemplate(plugin: TemplatePlugin): TemplatePlugin {
+  const target = join(TEMPLATES_DIR, plugin.manifest.name);
+  rmSync(target, { recursive: true, force: true });
+  mkdirSync(TEMPLATES_DIR, { recursive: true });
+  cpSync(plugin.dir, target, { recursive: true });
+  return { manifest: plugin.manifest, dir: target };
+}
+
+/**
+ * Delete the temporary folder of a template fetched for a single create
+ */
+export function disposeTemplate(plugin: TemplatePlugin): void {
+  const staging = dirname(plugin.dir);
+  if (
+    dirname(staging) === tmpdir() &&
+    staging.startsWith(join(tmpdir(), "devkitx-template-"))
+  ) {
+    rmSync(staging, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Delete an installed template. Throws for a name no template can have,
+ * so a path like "../x" never reaches rmSync.
+ */
+export function removeTemplate(name: string): boolean {
+  if (!TEMPLATE_NAME.test(name)) {
+    throw new Error(
+      `Invalid template name "${name}" (lowercase letters, digits, ".", "_" and "-")`,
+    );
+  }
+  const target = join(TEMPLATES_DIR, name);
+  if (!existsSync(join(target, MANIFEST_FILENAME))) return false;
+  rmSync(target, { recursive: true, force: true });
+  return true;
+}
+
+async function run(cmd: string[], cwd: string): Promise<string> {
+  const proc = Bun.spawn(cmd, { cwd, stdout: "pipe", stderr: "pipe" });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  await proc.exited;
+
+  if (proc.exitCode !== 0) {
+    throw new Error(
+      `${cmd.slice(0, 2).join(" ")} failed: ${stderr.trim().split("\n")[0] || `exit code ${proc.exitCode}`}`,
+    );
+  }
+  return stdout;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Replace {{variable}} placeholders; unknown names are left as-is
+ */
+export function interpolate(
+  text: string,
+  vars: Record<string, string>,
+): string {
+  return text.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, key: string) =>
+    key in vars ? vars[key] : match,
+  );
+}
+
+/**
+ * Copy the template's files into the project, interpolating text files
+ * and file names. npm drops .gitignore from packages, so `_gitignore` is
+ * renamed on the way. Returns the written paths (relative).
+ */
+export function copyTemplateFiles(
+  plugin: TemplatePlugin,
+  targetDir: string,
+  vars: Record<string, string>,
+): string[] {
+  const sourceDir = join(plugin.dir, plugin.manifest.files ?? "files");
+  if (!existsSync(sourceDir)) return [];
+
+  const written: string[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir)) {
+      const sourcePath = join(dir, entry);
+      if (statSync(sourcePath).isDirectory()) {
+        walk(sourcePath);
+        continue;
+      }
+
+      const relativePath = interpolate(
+        relative(sourceDir, sourcePath),
+        vars,
+      ).replace(/(^|[\\/])_gitignore$/, "$1.gitignore");
+      const targetPath = join(targetDir, relativePath);
+      mkdirSync(dirname(targetPath), { recursive: true });
+
+      const content = readFileSync(sourcePath);
+      // Binary files (anything with a NUL byte) are copied untouched
+      writeFileSync(
+        targetPath,
+        content.includes(0)
+          ? content
+          : interpolate(content.toString("utf-8"), vars),
+      );
+      written.push(relativePath.replace(/\\/g, "/"));
+    }
+  };
+
+  walk(sourceDir);
+  return written;
+}
@@ -0,0 +1,224 @@
+/**
+ * Testing Scaffold
+ * Vitest with jsdom and Testing Library, plus optionally Playwright, for
+ * the Next.js and Vite apps: configs, a sample test against the generated
+ * shadcn/ui Button, and the test, test:e2e and typecheck scripts
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { buildRunCommand, type PackageManager } from "./shadcn-config.js";
+
+export const TESTING_STACKS = ["vitest", "vitest-playwright", "none"] as const;
+export type TestingStack = (typeof TESTING_STACKS)[number];
+
+export const TESTING_LABELS: Record<TestingStack, string> = {
+  vitest: "Vitest",
+  "vitest-playwright": "Vitest + Playwright",
+  none: "None",
+};
+
+export interface TestingOptions {
+  testing: Exclude<TestingStack, "none">;
+  template: "next" | "vite";
+  packageManager: PackageManager;
+}
+
+/**
+ * Dev dependencies of a testing stack; Vite apps already have the React
+ * plugin
+ */
+export function testingDependencies(
+  testing: TestingStack,
+  template: "next" | "vite",
+): string[] {
+  if (testing === "none") return [];
+  return [
+    "vitest",
+    "jsdom",
+    "@testing-library/react",
+    "@testing-library/dom",
+    "@testing-library/jest-dom",
+    ...(template === "next" ? ["@vitejs/plugin-react"] : []),
+    ...(testing === "vitest-playwright" ? ["@playwright/test"] : []),
+  ];
+}
+
+/**
+ * Write the configs and sample tests into the app and add its scripts.
+ * Returns the written paths (relative).
+ */
+export function writeTesting(
+  appPath: string,
+  options: TestingOptions,
+): string[] {
+  // Tests live next to the code: src/ for Vite, and for Next.js apps that use it
+  const srcDir =
+    options.template === "vite" || existsSync(join(appPath, "src", "app"))
+      ? "src/"
+      : "";
+  const files = testingFiles(options, srcDir);
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(appPath, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+
+  const packageJsonPath = join(appPath, "package.json");
+  const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+  packageJson.scripts = { ...packageJson.scripts, ...testingScripts(options) };
+  writeFileSync(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`);
+
+  if (options.testing === "vitest-playwright") {
+    appendGitignore(join(appPath, ".gitignore"), [
+      "/test-results/",
+      "/playwright-report/",
+      "/blob-report/",
+      "/playwright/.cache/",
+    ]);
+  }
+
+  return Object.keys(files);
+}
+
+export function testingScripts(
+  options: Pick<TestingOptions, "testing" | "template">,
+): Record<string, string> {
+  return {
+    test: "vitest run",
+    "test:watch": "vitest",
+    ...(options.testing === "vitest-playwright" && {
+      "test:e2e": "playwright test",
+    }),
+    // Vite apps check through the project references of tsconfig.json
+    typecheck: options.template === "vite" ? "tsc -b" : "tsc --noEmit",
+  };
+}
+
+function testingFiles(
+  options: TestingOptions,
+  srcDir: string,
+): Record<string, string> {
+  const files: Record<string, string> = {
+    "vitest.config.mts":
+      options.template === "vite"
+        ? `import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    test: {
+      environment: "jsdom",
+      setupFiles: ["./src/test/setup.ts"],
+      include: ["src/**/*.test.{ts,tsx}"],
+    },
+  }),
+);
+`
+        : `import { fileURLToPath } from "node:url";
+import react from "@vitejs/plugin-react";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./${srcDir}", import.meta.url)) },
+  },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./${srcDir}test/setup.ts"],
+    include: ["**/*.test.{ts,tsx}"],
+    exclude: ["node_modules", ".next", "e2e"],
+  },
+});
+`,
+    [`${srcDir}test/setup.ts`]: `import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// Vitest globals are off, so Testing Library cannot unmount by itself
+afterEach(() => cleanup());
+`,
+    [`${srcDir}__tests__/button.test.tsx`]: `import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { Button } from "@/components/ui/button";
+
+describe("Button", () => {
+  it("renders its label", () => {
+    render(<Button>Save</Button>);
+    expect(screen.getByRole("button", { name: "Save" })).toBeInTheDocument();
+  });
+
+  it("calls onClick", () => {
+    const onClick = vi.fn();
+    render(<Button onClick={onClick}>Save</Button>);
+    fireEvent.click(screen.getByRole("button"));
+    expect(onClick).toHaveBeenCalledOnce();
+  });
+
+  it("can be disabled", () => {
+    render(<Button disabled>Save</Button>);
+    expect(screen.getByRole("button")).toBeDisabled();
+  });
+});
+`,
+  };
+
+  if (options.testing === "vitest-playwright") {
+    const port = options.template === "vite" ? 5173 : 3000;
+    const devCommand = buildRunCommand(options.packageManager, "dev").join(" ");
+
+    files["playwright.config.ts"] =
+      `import { defineConfig, devices } from "@playwright/test";
+
+const baseURL = "http://localhost:${port}";
+
+export default defineConfig({
+  testDir: "./e2e",
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  reporter: process.env.CI ? "github" : "list",
+  use: {
+    baseURL,
+    trace: "on-first-retry",
+  },
+  projects: [{ name: "chromium", use: { ...devices["Desktop Chrome"] } }],
+  webServer: {
+    command: "${devCommand}",
+    url: baseURL,
+    reuseExistingServer: !process.env.CI,
+  },
+});
+`;
+    files["e2e/home.spec.ts"] =
+      `import { expect, test } from "@playwright/test";
+
+test("home page loads", async ({ page }) => {
+  const errors: string[] = [];
+  page.on("pageerror", (error) => errors.push(error.message));
+
+  const response = await page.goto("/");
+  expect(response?.ok()).toBe(true);
+  await expect(page.getByRole("button").first()).toBeVisible();
+  expect(errors).toEqual([]);
+});
+`;
+  }
+
+  return files;
+}
+
+function appendGitignore(path: string, entries: string[]): void {
+  const existing = existsSync(path) ? readFileSync(path, "utf-8") : "";
+  const lines = new Set(existing.split(/\r?\n/));
+  const missing = entries.filter((entry) => !lines.has(entry));
+  if (missing.length === 0) return;
+
+  const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+  writeFileSync(
+    path,
+    `${existing}${separator}\n# playwright\n${missing.join("\n")}\n`,
+  );
+}
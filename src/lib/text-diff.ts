@@ -0,0 +1,97 @@
+/**
+ * Text Diff
+ * Line diff of two versions of a generated file, printed as unified-style
+ * hunks for previews before overwriting
+ */
+
+import chalk from "chalk";
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Diff two texts line by line (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+/**
+ * Print the changed lines with some context, one @@ hunk per change
+ */
+export function printDiff(lines: DiffLine[], context = 3): void {
+  const changed = lines
+    .map((line, index) => (line.type === "same" ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changed.length === 0) return;
+
+  // Group changes whose context overlaps into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else hunks.push([start, end]);
+  }
+
+  for (const [start, end] of hunks) {
+    // Line numbers of the hunk in the old and new text
+    let oldLine = 1;
+    let newLine = 1;
+    for (const line of lines.slice(0, start)) {
+      if (line.type !== "added") oldLine++;
+      if (line.type !== "removed") newLine++;
+    }
+    console.log(chalk.cyan(`  @@ -${oldLine} +${newLine} @@`));
+
+    for (const line of lines.slice(start, end + 1)) {
+      if (line.type === "added") {
+        console.log(chalk.green(`  + ${line.text}`.trimEnd()));
+      } else if (line.type === "removed") {
+        console.log(chalk.red(`  - ${line.text}`.trimEnd()));
+      } else {
+        console.log(chalk.gray(`    ${line.text}`.trimEnd()));
+      }
+    }
+  }
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\n$/, "").split(/\r?\n/);
+}
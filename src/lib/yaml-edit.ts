@@ -0,0 +1,87 @@
+/**
+ * YAML Edit Helpers
+ * Key-path parsing and schema-driven value coercion for `dx config`
+ */
+
+import type { JsonSchema } from "./project-schema.js";
+
+export type KeyPath = Array<string | number>;
+
+/**
+ * Parse "stack.apps.web.port" or "stack.packages[0].name" into segments
+ */
+export function parseKeyPath(key: string): KeyPath {
+  const segments: KeyPath = [];
+
+  for (const part of key.split(".")) {
+    const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!match) {
+      throw new Error(`Invalid key: ${key}`);
+    }
+
+    const [, name, indices] = match;
+    if (name) {
+      segments.push(/^\d+$/.test(name) ? Number(name) : name);
+    }
+    for (const index of indices.matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+
+  if (segments.length === 0 || segments.some((s) => s === "")) {
+    throw new Error(`Invalid key: ${key}`);
+  }
+
+  return segments;
+}
+
+/**
+ * Convert a command-line string into the type the schema expects
+ *
+ * Arrays accept JSON ("[\"a\",\"b\"]") or a comma-separated list;
+ * objects require JSON.
+ */
+export function coerceValue(raw: string, schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case "integer":
+    case "number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || Number.isNaN(value)) {
+        throw new Error(`Expected a number, got "${raw}"`);
+      }
+      return value;
+    }
+
+    case "boolean":
+      if (raw === "true") return true;
+      if (raw === "false") return false;
+      throw new Error(`Expected true or false, got "${raw}"`);
+
+    case "array": {
+      if (raw.trim().startsWith("[")) {
+        return parseJson(raw, "array");
+      }
+      const items = raw
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+      return schema.items
+        ? items.map((i) => coerceValue(i, schema.items!))
+        : items;
+    }
+
+    case "object":
+      return parseJson(raw, "object");
+
+    default:
+      return raw;
+  }
+}
+
+function parseJson(raw: string, expected: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`Expected a JSON ${expected}, got "${raw}"`);
+  }
+}
@@ -2,6 +2,15 @@
  * UI utilities for CLI
  */
 import chalk from "chalk";
+import {
+  InvalidEditError,
+  ProjectConfigError,
+  UnknownProfileError,
+  formatIssue,
+} from "../lib/project-yaml.js";
+import { GLOBAL_CONFIG_PATH } from "../lib/global-config.js";
+import { MANIFEST_FILENAME } from "../lib/templates.js";
+import { basename } from "path";
 
 export const theme = {
   primary: chalk.cyan,
@@ -73,3 +82,50 @@ export function divider(): void {
 export function spacer(): void {
   console.log();
 }
+
+/**
+ * Report a failure from readProjectConfig or a project.yaml edit, listing
+ * each validation issue, and make the command exit with an error
+ */
+export function configError(err: unknown): void {
+  process.exitCode = 1;
+  if (!(err instanceof ProjectConfigError)) {
+    error(err instanceof Error ? err.message : String(err));
+    return;
+  }
+
+  error(err.message);
+  if (err instanceof UnknownProfileError) {
+    console.log(
+      theme.muted(
+        err.available.length > 0
+          ? `  Defined profiles: ${err.available.join(", ")}`
+          : `  ${basename(err.path)} defines no profiles`,
+      ),
+    );
+    return;
+  }
+  for (const issue of err.issues) {
+    console.log(
+      `  ${symbols.bullet} ${theme.white(formatIssue(err.path, issue))}`,
+    );
+  }
+  // The file itself is still valid after a rejected edit
+  if (err instanceof InvalidEditError) return;
+  console.log();
+  console.log(theme.muted(`  ${configErrorHint(err.path)}`));
+}
+
+function configErrorHint(path: string): string {
+  if (path === GLOBAL_CONFIG_PATH) {
+    return "Run 'dx config --global validate' for details";
+  }
+  if (basename(path) === MANIFEST_FILENAME) {
+    return "Run 'dx template validate <dir>' after fixing it";
+  }
+  if (!basename(path).startsWith("project.")) {
+    // Answers files for dx create --from
+    return "Fix the file and run the command again";
+  }
+  return "Run 'dx config validate' for details";
+}